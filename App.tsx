@@ -1,12 +1,46 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { v4 as uuidv4 } from 'uuid';
-import { Menu, Plus, Image as ImageIcon, Send, X, Wand2, Download, Share2, RotateCw } from 'lucide-react';
+import { Menu, Plus, Paperclip, Send, X, AlertCircle, Wand2, Download, Share2, RotateCw, Square, Mic, MicOff, AudioLines, Camera, Layers, Gauge, FileSearch, WifiOff, Link2 } from 'lucide-react';
 import StartupScreen from './components/StartupScreen';
 import Sidebar from './components/Sidebar';
 import MessageBubble from './components/MessageBubble';
 import LoginModal from './components/LoginModal';
-import { ChatSession, ChatMessage, MessageRole, MessageType } from './types';
-import { sendMessageToGemini, generateImageWithGemini, isImageGenerationRequest } from './services/gemini';
+import ModelPicker from './components/ModelPicker';
+import VoiceSettings from './components/VoiceSettings';
+import ContextPanel from './components/ContextPanel';
+import MemoryManager from './components/MemoryManager';
+import DocumentsPanel from './components/DocumentsPanel';
+import CitationViewer from './components/CitationViewer';
+import CameraCapture from './components/CameraCapture';
+import ShareDialog from './components/ShareDialog';
+import SharedChatView from './components/SharedChatView';
+import AttachmentList from './components/AttachmentList';
+import ImageEditor, { ImageEditSubmission } from './components/ImageEditor';
+import ImageOptionsPanel from './components/ImageOptionsPanel';
+import PersonaManager from './components/PersonaManager';
+import PersonaPicker from './components/PersonaPicker';
+import { ChatSession, ChatMessage, MessageRole, MessageType, ProviderId, UserProfile, Attachment, ImageGenerationOptions, MessageRoute, Persona, Memory, ToolCall, ToolCallRequest, ToolOutcome, SessionDocument, Citation, OutboxEntry, SyncStatus, SharedChat, MessageFeedback, FeedbackRating } from './types';
+import { getImageProvider, resolveSessionModel, routeMessage } from './services/providers';
+import { loadSessionList, loadSessionMessages, loadSearchDocuments, persistSessionChanges } from './services/storage';
+import { withParentLinks, getActiveThread, getAncestors, getSiblingInfo, getSubtreeIds, selectBranch } from './services/thread';
+import { createSearchIndex, indexDocument, removeSessionDocuments, syncSessionDocuments, searchMessages, SearchFilters } from './services/search';
+import { restoreSession, onAuthChange, logout } from './services/auth';
+import { ExportFormat, ImportMode, ImportResult, exportSessions, downloadBlob, mergeImportedSessions, copySharedSession } from './services/transfer';
+import { ACCEPTED_FILE_TYPES, readAttachments, createImageAttachment, checkAttachmentLimits, getMessageAttachments, dataUrlMimeType } from './services/attachments';
+import { findSourceImage, MAX_EDIT_COUNT } from './services/imageEdit';
+import { DEFAULT_IMAGE_OPTIONS, loadImageOptions, saveImageOptions } from './services/imageOptions';
+import { ContextSettings, loadContextSettings, saveContextSettings, planContext, summarizeTurns, withContextSummary, estimateMessageTokens, estimateTextTokens } from './services/context';
+import { TOOLS, getTool, runToolCall } from './services/tools';
+import { toMessageError } from './services/errors';
+import { loadOutbox, saveOutbox, queuedMessageParentId } from './services/outbox';
+import { readShareIdFromUrl, clearShareFromUrl } from './services/share';
+import { translateText } from './services/translation';
+import { loadFeedback, saveFeedback, rateMessage, withFeedbackComment, exportFeedback } from './services/feedback';
+import { trackSessionChanges, noteLoadedMessages, hasPendingChanges, syncSessions, mergeRemoteChanges, commitRemoteChanges } from './services/sync';
+import { readDocumentFiles, createSessionDocument, ingestDocument, deleteDocumentIndex, withInterruptedIndexing, retrieveChunks, buildDocumentContext, citedIn } from './services/documents';
+import { loadMemories, saveMemories, extractMemories, applyMemoryUpdates, selectMemories, withMemories } from './services/memory';
+import { loadPersonas, savePersonas, loadLastPersonaId, saveLastPersonaId, getPersona, buildSystemInstruction, DEFAULT_PERSONA_ID } from './services/personas';
+import { VoiceSettings as VoiceSettingsValue, loadVoiceSettings, saveVoiceSettings, getSpeechRecognizer, speak, stopSpeaking, isSpeechSynthesisSupported } from './services/speech';
 
 // Simple UUID fallback
 const generateId = () => {
@@ -16,10 +50,21 @@ const generateId = () => {
     return Math.random().toString(36).substring(2, 15);
 };
 
+// How far back "make it darker" style edits look for the image they refer to
+const RECENT_IMAGE_WINDOW = 4;
+
+// Pull other devices' changes this often while signed in
+const SYNC_INTERVAL_MS = 60 * 1000;
+// Wait for edits to settle (e.g. a streamed reply) before pushing them
+const SYNC_DEBOUNCE_MS = 3000;
+
 interface PreviewData {
     url: string;
     isGenerated: boolean;
     prompt?: string;
+    // Where the image lives, so it can be edited
+    messageId?: string;
+    attachmentId?: string;
 }
 
 const App: React.FC = () => {
@@ -27,36 +72,216 @@ const App: React.FC = () => {
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
   const [input, setInput] = useState('');
   const [isTyping, setIsTyping] = useState(false);
+  const [isStreaming, setIsStreaming] = useState(false);
   const [sessions, setSessions] = useState<ChatSession[]>([]);
   const [currentSessionId, setCurrentSessionId] = useState<string | null>(null);
-  const [selectedImage, setSelectedImage] = useState<string | null>(null);
+  // Files attached to the message being composed
+  const [pendingAttachments, setPendingAttachments] = useState<Attachment[]>([]);
+  const [isDraggingFiles, setIsDraggingFiles] = useState(false);
+  // Shown above the input: rejected attachments, speech recognition problems
+  const [inputError, setInputError] = useState<string | null>(null);
   const [previewData, setPreviewData] = useState<PreviewData | null>(null);
   const [showImageGenGuide, setShowImageGenGuide] = useState(false);
+  // Settings for the next generated image
+  const [imageOptions, setImageOptions] = useState<ImageGenerationOptions>(loadImageOptions);
+  const [personas, setPersonas] = useState<Persona[]>(loadPersonas);
+  // Persona new chats start with
+  const [newChatPersonaId, setNewChatPersonaId] = useState<string>(loadLastPersonaId);
+  const [showPersonaManager, setShowPersonaManager] = useState(false);
+  // Image open in the editor, and whether the preview shows the variation count picker
+  const [editTarget, setEditTarget] = useState<PreviewData | null>(null);
+  const [showVariationPicker, setShowVariationPicker] = useState(false);
+  const [showCamera, setShowCamera] = useState(false);
+  // Message to scroll to and flash after jumping from a search result
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+  // Bumped whenever the search index changes so search results recompute
+  const [searchVersion, setSearchVersion] = useState(0);
+  const [isSearchReady, setIsSearchReady] = useState(false);
+  // Voice input / read-aloud
+  const [voiceSettings, setVoiceSettings] = useState<VoiceSettingsValue>(loadVoiceSettings);
+  const [showVoiceSettings, setShowVoiceSettings] = useState(false);
+  const [contextSettings, setContextSettings] = useState<ContextSettings>(loadContextSettings);
+  const [showContextPanel, setShowContextPanel] = useState(false);
+  const [memories, setMemories] = useState<Memory[]>(loadMemories);
+  const [feedback, setFeedback] = useState<MessageFeedback[]>(loadFeedback);
+  const [translatingIds, setTranslatingIds] = useState<Set<string>>(new Set());
+  const [showMemoryManager, setShowMemoryManager] = useState(false);
+  const [showDocuments, setShowDocuments] = useState(false);
+  const [showShareDialog, setShowShareDialog] = useState(false);
+  // Opened from a shared link (?share=<id>): that chat is shown read-only instead of the app
+  const [sharedChatId, setSharedChatId] = useState<string | null>(readShareIdFromUrl);
+  // Document passage opened from a citation
+  const [openCitation, setOpenCitation] = useState<Citation | null>(null);
+  const [isListening, setIsListening] = useState(false);
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  // Messages written offline, oldest first, sent one by one once back online
+  const [outbox, setOutbox] = useState<OutboxEntry[]>(loadOutbox);
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>({ state: 'off' });
+  // Sync waits for the stored sessions, or the load would overwrite what it merged
+  const [hasLoadedSessions, setHasLoadedSessions] = useState(false);
+  const [speakingMessageId, setSpeakingMessageId] = useState<string | null>(null);
   
   // Auth States
-  const [isLoggedIn, setIsLoggedIn] = useState(false);
+  const [user, setUser] = useState<UserProfile | null>(null);
   const [showLoginModal, setShowLoginModal] = useState(false);
 
   const fileInputRef = useRef<HTMLInputElement>(null);
+  // Enter/leave fire for every child element crossed while dragging
+  const dragDepthRef = useRef(0);
   const chatEndRef = useRef<HTMLDivElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  // Last snapshot handed to storage; null until the initial load has finished
+  const persistedSessionsRef = useRef<ChatSession[] | null>(null);
+  // Sessions whose messages have been fetched from storage
+  const loadedSessionIdsRef = useRef<Set<string>>(new Set());
+  // Latest sessions, for a sync that outlives the render that started it
+  const sessionsRef = useRef(sessions);
+  sessionsRef.current = sessions;
+  const isSyncingRef = useRef(false);
+  const searchIndexRef = useRef(createSearchIndex());
+  const stopListeningRef = useRef<(() => void) | null>(null);
+  // Recognition and playback callbacks outlive the render that started them, so they go
+  // through these refs to reach the latest handlers
+  const handleSendRef = useRef<((text: string) => void) | null>(null);
+  const startListeningRef = useRef<(() => void) | null>(null);
+  // Set when the message being answered was dictated in conversation mode
+  const voiceTurnRef = useRef(false);
+  // Side-effecting tool calls waiting for Allow/Deny, by call id
+  const toolApprovalsRef = useRef<Map<string, (approved: boolean) => void>>(new Map());
 
-  // Load sessions from local storage
+  // Load sessions from IndexedDB (migrating any legacy localStorage data on first run),
+  // then index the text of every stored message for search
   useEffect(() => {
-    const stored = localStorage.getItem('xeno_sessions');
-    if (stored) {
-      setSessions(JSON.parse(stored));
-    }
-    // Check auth persistence
-    const auth = localStorage.getItem('xeno_auth');
-    if (auth === 'true') setIsLoggedIn(true);
+    loadSessionList().then(async stored => {
+      persistedSessionsRef.current = stored;
+      setSessions(stored.map(withInterruptedIndexing));
+      setHasLoadedSessions(true);
+      const documents = await loadSearchDocuments();
+      documents.forEach(doc => indexDocument(searchIndexRef.current, doc));
+      setIsSearchReady(true);
+    });
   }, []);
 
-  // Save sessions
+  // Keep the search index in line with in-memory edits; loaded sessions are the source of truth
   useEffect(() => {
-    localStorage.setItem('xeno_sessions', JSON.stringify(sessions));
+    if (!isSearchReady) return;
+    const index = searchIndexRef.current;
+    const liveIds = new Set(sessions.map(s => s.id));
+    Array.from(index.bySession.keys()).forEach(id => {
+      if (!liveIds.has(id)) removeSessionDocuments(index, id);
+    });
+    sessions.forEach(s => {
+      if (s.messages.length > 0) syncSessionDocuments(index, s.id, s.messages);
+    });
+    setSearchVersion(v => v + 1);
+  }, [sessions, isSearchReady]);
+
+  // Restore the saved auth session (or finish an OAuth redirect) and follow later changes
+  useEffect(() => {
+    const unsubscribe = onAuthChange(session => setUser(session?.user || null));
+    restoreSession()
+      .then(session => setUser(session?.user || null))
+      .catch(error => {
+        console.error("Auth restore failed:", error);
+        setShowLoginModal(true);
+      });
+    return unsubscribe;
+  }, []);
+
+  // Save only what changed since the last snapshot
+  useEffect(() => {
+    const prev = persistedSessionsRef.current;
+    if (!prev || prev === sessions) return;
+    persistedSessionsRef.current = sessions;
+    persistSessionChanges(prev, sessions);
+    trackSessionChanges(prev, sessions);
   }, [sessions]);
 
+  useEffect(() => {
+    saveVoiceSettings(voiceSettings);
+  }, [voiceSettings]);
+
+  useEffect(() => {
+    saveImageOptions(imageOptions);
+  }, [imageOptions]);
+
+  useEffect(() => {
+    saveContextSettings(contextSettings);
+  }, [contextSettings]);
+
+  useEffect(() => {
+    saveMemories(memories);
+  }, [memories]);
+
+  useEffect(() => {
+    saveFeedback(feedback);
+  }, [feedback]);
+
+  useEffect(() => {
+    savePersonas(personas);
+  }, [personas]);
+
+  useEffect(() => {
+    saveLastPersonaId(newChatPersonaId);
+  }, [newChatPersonaId]);
+
+  useEffect(() => {
+    saveOutbox(outbox);
+  }, [outbox]);
+
+  useEffect(() => {
+    const update = () => setIsOnline(navigator.onLine);
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+    };
+  }, []);
+
+  // Don't keep reading a conversation that is no longer on screen
+  useEffect(() => {
+    stopSpeaking();
+    setSpeakingMessageId(null);
+  }, [currentSessionId]);
+
+  useEffect(() => {
+    if (!inputError) return;
+    const timer = setTimeout(() => setInputError(null), 5000);
+    return () => clearTimeout(timer);
+  }, [inputError]);
+
+  /**
+   * Messages are loaded lazily, the first time a stored session is needed.
+   */
+  const loadMessagesOnce = async (sessionId: string) => {
+    if (loadedSessionIdsRef.current.has(sessionId)) return;
+    loadedSessionIdsRef.current.add(sessionId);
+    const stored = await loadSessionMessages(sessionId);
+    if (stored.length === 0) return;
+    const loaded = withParentLinks(stored);
+    noteLoadedMessages(loaded);
+    setSessions(prev => prev.map(s => {
+      if (s.id !== sessionId) return s;
+      // Keep anything added while the load was in flight
+      const loadedIds = new Set(loaded.map(m => m.id));
+      return { ...s, messages: [...loaded, ...s.messages.filter(m => !loadedIds.has(m.id))] };
+    }));
+  };
+
+  useEffect(() => {
+    if (currentSessionId) loadMessagesOnce(currentSessionId);
+  }, [currentSessionId]);
+
   const currentSession = sessions.find(s => s.id === currentSessionId);
+  const currentThread = currentSession ? getActiveThread(currentSession) : [];
+  const feedbackByMessageId = new Map(feedback.map(f => [f.messageId, f]));
+  // What the next request would include, for the context meter
+  const contextPlan = planContext(currentThread, contextSettings, currentSession?.contextSummary);
+  const firstVisibleId = contextPlan.excluded.length > 0 ? contextPlan.messages[0]?.id : undefined;
+  const isBusy = isTyping || isStreaming;
+  const activeModel = resolveSessionModel(currentSession);
+  const currentPersona = getPersona(personas, currentSession ? currentSession.personaId : newChatPersonaId);
 
   const scrollToBottom = () => {
     setTimeout(() => {
@@ -65,19 +290,48 @@ const App: React.FC = () => {
   };
 
   useEffect(() => {
+    if (highlightedMessageId) return;
     scrollToBottom();
   }, [currentSession?.messages, isTyping]);
 
+  // Bring a search hit into view once its session's messages are rendered,
+  // switching branches first if it lives in an alternative version of the conversation
+  useEffect(() => {
+    if (!highlightedMessageId) return;
+    if (currentSession?.messages.some(m => m.id === highlightedMessageId) &&
+        !currentThread.some(m => m.id === highlightedMessageId)) {
+      handleSelectBranch(highlightedMessageId);
+      return;
+    }
+    const timer = setTimeout(() => {
+      document.getElementById(`message-${highlightedMessageId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    }, 150);
+    return () => clearTimeout(timer);
+  }, [highlightedMessageId, currentSession?.messages]);
+
+  useEffect(() => {
+    if (!highlightedMessageId) return;
+    const timer = setTimeout(() => setHighlightedMessageId(null), 4000);
+    return () => clearTimeout(timer);
+  }, [highlightedMessageId]);
+
+  useEffect(() => {
+    setShowVariationPicker(false);
+  }, [previewData]);
+
   // --- Auth Handlers ---
 
   const handleLoginSuccess = () => {
-      setIsLoggedIn(true);
       setShowLoginModal(false);
-      localStorage.setItem('xeno_auth', 'true');
+  };
+
+  const handleLogout = () => {
+      logout();
+      setCurrentSessionId(null);
   };
 
   const requireAuth = (callback: () => void) => {
-      if (isLoggedIn) {
+      if (user) {
           callback();
       } else {
           setShowLoginModal(true);
@@ -86,14 +340,25 @@ const App: React.FC = () => {
 
   // --- Chat Handlers ---
 
-  const handleNewChat = () => {
-    const newSession: ChatSession = {
+  /**
+   * An empty session bound to the new-chat persona, on that persona's model if it has one.
+   */
+  const createSession = (title: string): ChatSession => {
+    const persona = getPersona(personas, newChatPersonaId);
+    return {
       id: generateId(),
-      title: 'New Conversation',
+      title,
       messages: [],
       createdAt: Date.now(),
       updatedAt: Date.now(),
+      personaId: persona.id,
+      providerId: persona.providerId,
+      model: persona.model,
     };
+  };
+
+  const handleNewChat = () => {
+    const newSession = createSession('New Conversation');
     setSessions(prev => [newSession, ...prev]);
     setCurrentSessionId(newSession.id);
     setShowImageGenGuide(false);
@@ -105,12 +370,189 @@ const App: React.FC = () => {
     if (currentSessionId === id) setCurrentSessionId(null);
   };
 
+  const handleModelChange = (providerId: ProviderId, model: string) => {
+    if (!currentSessionId) return;
+    setSessions(prev => prev.map(s =>
+      s.id === currentSessionId ? { ...s, providerId, model } : s
+    ));
+  };
+
+  /**
+   * Picks the persona for new chats, and for the open chat while it is still empty.
+   */
+  const handleSelectPersona = (personaId: string) => {
+    setNewChatPersonaId(personaId);
+    if (!currentSession || currentSession.messages.length > 0) return;
+    const persona = getPersona(personas, personaId);
+    const sessionId = currentSession.id;
+    setSessions(prev => prev.map(s => s.id === sessionId
+      ? { ...s, personaId: persona.id, providerId: persona.providerId || s.providerId, model: persona.model || s.model }
+      : s
+    ));
+  };
+
+  const handleSavePersona = (persona: Persona) => {
+    setPersonas(prev => prev.some(p => p.id === persona.id)
+      ? prev.map(p => p.id === persona.id ? persona : p)
+      : [...prev, persona]
+    );
+  };
+
+  // Chats bound to a deleted persona fall back to Xeno (see getPersona)
+  const handleDeletePersona = (personaId: string) => {
+    setPersonas(prev => prev.filter(p => p.id !== personaId));
+    if (newChatPersonaId === personaId) setNewChatPersonaId(DEFAULT_PERSONA_ID);
+  };
+
+  const handleToggleMemory = () => {
+    if (!currentSessionId) return;
+    setSessions(prev => prev.map(s =>
+      s.id === currentSessionId ? { ...s, memoryDisabled: !s.memoryDisabled } : s
+    ));
+  };
+
+  /**
+   * Remembers durable facts from a finished exchange. Runs in the background; a failure
+   * only means nothing is learned this turn.
+   */
+  const learnFromExchange = async (session: ChatSession | undefined, userText: string, replyText: string) => {
+    if (!session || session.memoryDisabled || !userText.trim()) return;
+    const { provider, model } = resolveSessionModel(session);
+    try {
+      const updates = await extractMemories(provider, model, memories, userText, replyText);
+      if (updates.length > 0) setMemories(prev => applyMemoryUpdates(prev, updates, session.id));
+    } catch (e) {
+      console.error("Memory extraction failed", e);
+    }
+  };
+
+  const updateDocument = (sessionId: string, document: SessionDocument) => {
+    setSessions(prev => prev.map(s =>
+      s.id === sessionId
+        ? { ...s, documents: (s.documents || []).map(d => d.id === document.id ? document : d) }
+        : s
+    ));
+  };
+
+  /**
+   * Adds files to the open chat (starting one if needed) and indexes them one after another
+   * in the background. Resolves with the files that were rejected, explained.
+   */
+  const handleAddDocuments = async (files: File[]): Promise<string[]> => {
+    let session = sessions.find(s => s.id === currentSessionId);
+    if (!session) {
+      session = createSession('New Conversation');
+      const created = session;
+      setSessions(prev => [created, ...prev]);
+      setCurrentSessionId(created.id);
+    }
+    const sessionId = session.id;
+    const { files: read, errors } = await readDocumentFiles(files);
+    const { provider } = resolveSessionModel(session);
+    const added = read.map(file => ({ file, document: createSessionDocument(file, provider.id) }));
+    if (added.length === 0) return errors;
+
+    setSessions(prev => prev.map(s =>
+      s.id === sessionId ? { ...s, documents: [...(s.documents || []), ...added.map(a => a.document)] } : s
+    ));
+    (async () => {
+      for (const { file, document } of added) {
+        try {
+          updateDocument(sessionId, await ingestDocument(sessionId, document, file));
+        } catch (e) {
+          console.error(`Indexing ${document.name} failed`, e);
+          updateDocument(sessionId, { ...document, status: 'error', error: e instanceof Error ? e.message : "Couldn't index this file." });
+        }
+      }
+    })();
+    return errors;
+  };
+
+  const handleRemoveDocument = (documentId: string) => {
+    if (!currentSessionId) return;
+    const sessionId = currentSessionId;
+    setSessions(prev => prev.map(s =>
+      s.id === sessionId ? { ...s, documents: (s.documents || []).filter(d => d.id !== documentId) } : s
+    ));
+    deleteDocumentIndex(sessionId, documentId).catch(e => console.error("Removing document chunks failed", e));
+  };
+
+  /**
+   * Resolves once the user allows or denies a tool call; stopping the reply denies it.
+   */
+  const requestToolApproval = (callId: string, signal: AbortSignal) => new Promise<boolean>(resolve => {
+    const settle = (approved: boolean) => {
+      toolApprovalsRef.current.delete(callId);
+      signal.removeEventListener('abort', onAbort);
+      resolve(approved);
+    };
+    const onAbort = () => settle(false);
+    signal.addEventListener('abort', onAbort);
+    toolApprovalsRef.current.set(callId, settle);
+  });
+
+  const handleToolDecision = (callId: string, approved: boolean) => {
+    toolApprovalsRef.current.get(callId)?.(approved);
+  };
+
   const handlePinSession = (id: string) => {
     setSessions(prev => prev.map(s => 
       s.id === id ? { ...s, isPinned: !s.isPinned } : s
     ));
   };
 
+  /**
+   * Stored sessions that were never opened only have their metadata in memory.
+   */
+  const withMessagesLoaded = (targets: ChatSession[]): Promise<ChatSession[]> =>
+    Promise.all(targets.map(async s =>
+      s.messages.length > 0 ? s : { ...s, messages: await loadSessionMessages(s.id) }
+    ));
+
+  const handleExportSessions = async (sessionIds: string[] | null, format: ExportFormat) => {
+    const targets = sessionIds ? sessions.filter(s => sessionIds.includes(s.id)) : sessions;
+    if (targets.length === 0) return;
+    downloadBlob(exportSessions(await withMessagesLoaded(targets), format));
+  };
+
+  const handleImportSessions = async (imported: ChatSession[], mode: ImportMode): Promise<ImportResult> => {
+    if (mode === 'replace') {
+      // Wipe storage first so records of replaced sessions (loaded or not) can't linger
+      const prev = persistedSessionsRef.current || [];
+      persistedSessionsRef.current = [];
+      await persistSessionChanges(prev, []);
+      trackSessionChanges(prev, []);
+    }
+    const result = mergeImportedSessions(mode === 'replace' ? [] : sessions, imported, mode);
+    result.sessions.forEach(s => {
+      if (s.messages.length > 0) loadedSessionIdsRef.current.add(s.id);
+    });
+    setSessions(result.sessions);
+    if (mode === 'replace') setCurrentSessionId(null);
+    return result;
+  };
+
+  const closeSharedChat = () => {
+    clearShareFromUrl();
+    setSharedChatId(null);
+    setShowStartup(false);
+  };
+
+  // A copy of the shared chat joins the reader's own chats and opens there
+  const handleContinueSharedChat = (shared: SharedChat) => {
+    let copy: ChatSession;
+    try {
+      copy = copySharedSession(shared.session);
+    } catch (error) {
+      alert(`This shared chat can't be continued. ${error instanceof Error ? error.message : error}`);
+      return;
+    }
+    loadedSessionIdsRef.current.add(copy.id);
+    setSessions(prev => [copy, ...prev]);
+    setCurrentSessionId(copy.id);
+    closeSharedChat();
+  };
+
   const handleSessionSelect = (id: string) => {
       requireAuth(() => {
           setCurrentSessionId(id);
@@ -119,143 +561,789 @@ const App: React.FC = () => {
       });
   };
 
-  const handleImageUploadClick = () => {
+  const handleOpenSearchResult = (sessionId: string, messageId: string) => {
+      requireAuth(() => {
+          setCurrentSessionId(sessionId);
+          setHighlightedMessageId(messageId);
+          setShowImageGenGuide(false);
+          setIsSidebarOpen(false);
+      });
+  };
+
+  const handleAttachClick = () => {
       requireAuth(() => {
           fileInputRef.current?.click();
       });
   };
 
-  const handleImageSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      const file = e.target.files[0];
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        setSelectedImage(reader.result as string);
-        setShowImageGenGuide(false);
-      };
-      reader.readAsDataURL(file);
+  const handleCameraClick = () => {
+      requireAuth(() => {
+          setShowCamera(true);
+      });
+  };
+
+  const addAttachments = async (files: File[]) => {
+      if (files.length === 0) return;
+      const { attachments, errors } = await readAttachments(files, pendingAttachments);
+      if (attachments.length > 0) {
+          setPendingAttachments(prev => [...prev, ...attachments]);
+          setShowImageGenGuide(false);
+      }
+      if (errors.length > 0) setInputError(errors.join(' '));
+  };
+
+  const handleCameraCapture = (dataUri: string) => {
+      const attachment = createImageAttachment(dataUri, `camera-${Date.now()}.jpg`);
+      const limitError = checkAttachmentLimits(pendingAttachments, attachment);
+      if (limitError) {
+          setInputError(limitError);
+      } else {
+          setPendingAttachments(prev => [...prev, attachment]);
+          setShowImageGenGuide(false);
+      }
+      setShowCamera(false);
+  };
+
+  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    // Reset so picking the same file again still fires a change
+    e.target.value = '';
+    addAttachments(files);
+  };
+
+  const handlePaste = (e: React.ClipboardEvent) => {
+    const files = Array.from(e.clipboardData.files);
+    if (files.length === 0) return;
+    // Keep the default paste when the clipboard also carries text
+    if (!e.clipboardData.getData('text')) e.preventDefault();
+    requireAuth(() => addAttachments(files));
+  };
+
+  const isFileDrag = (e: React.DragEvent) => Array.from(e.dataTransfer.types).includes('Files');
+
+  const handleDragEnter = (e: React.DragEvent) => {
+    if (!isFileDrag(e)) return;
+    e.preventDefault();
+    dragDepthRef.current++;
+    setIsDraggingFiles(true);
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (isFileDrag(e)) e.preventDefault();
+  };
+
+  const handleDragLeave = (e: React.DragEvent) => {
+    if (!isFileDrag(e)) return;
+    dragDepthRef.current = Math.max(0, dragDepthRef.current - 1);
+    if (dragDepthRef.current === 0) setIsDraggingFiles(false);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    if (!isFileDrag(e)) return;
+    e.preventDefault();
+    dragDepthRef.current = 0;
+    setIsDraggingFiles(false);
+    const files = Array.from(e.dataTransfer.files);
+    requireAuth(() => addAttachments(files));
+  };
+
+  /**
+   * Adds a message to a session and makes it the visible branch under its parent.
+   */
+  const withAppendedMessage = (session: ChatSession, message: ChatMessage): ChatSession => {
+    const next = { ...session, messages: [...session.messages, message], updatedAt: Date.now() };
+    return { ...next, branchSelection: selectBranch(next, message.id) };
+  };
+
+  const updateMessage = (sessionId: string, messageId: string, patch: Partial<ChatMessage>) => {
+    setSessions(prev => prev.map(s =>
+      s.id === sessionId
+        ? { ...s, messages: s.messages.map(m => m.id === messageId ? { ...m, ...patch } : m) }
+        : s
+    ));
+  };
+
+  const handleStopGeneration = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  // --- Message Actions ---
+
+  const handleTranslateMessage = async (message: ChatMessage, language: string) => {
+    if (!currentSession) return;
+    const sessionId = currentSession.id;
+    const { provider, model } = resolveSessionModel(currentSession);
+    setTranslatingIds(prev => new Set(prev).add(message.id));
+    try {
+        const text = await translateText(provider, model, message.text, language);
+        updateMessage(sessionId, message.id, { translation: { language, text } });
+    } catch (error) {
+        console.error("Translation failed:", error);
+        alert(`Couldn't translate this message. ${toMessageError(error).message}`);
+    } finally {
+        setTranslatingIds(prev => {
+            const next = new Set(prev);
+            next.delete(message.id);
+            return next;
+        });
+    }
+  };
+
+  /**
+   * Deletes a message along with everything that follows it, in every branch: replies
+   * don't make sense without what they answered.
+   */
+  const handleDeleteMessage = (messageId: string) => {
+    if (!currentSession) return;
+    const sessionId = currentSession.id;
+    const ids = getSubtreeIds(currentSession.messages, messageId);
+    const question = ids.size > 1 ? `Delete this message and the ${ids.size - 1} after it?` : 'Delete this message?';
+    if (!window.confirm(question)) return;
+    if (speakingMessageId && ids.has(speakingMessageId)) {
+        stopSpeaking();
+        setSpeakingMessageId(null);
     }
+    setSessions(prev => prev.map(s =>
+      s.id === sessionId
+        ? { ...s, messages: s.messages.filter(m => !ids.has(m.id)), updatedAt: Date.now() }
+        : s
+    ));
   };
 
-  const handleSend = async (overrideText?: string, isImageGenMode: boolean = false) => {
+  const handleRateMessage = (message: ChatMessage, rating: FeedbackRating | null) => {
+    if (!currentSession) return;
+    setFeedback(prev => rateMessage(prev, currentSession, message, rating));
+  };
+
+  const handleExportFeedback = () => {
+    downloadBlob(exportFeedback(feedback));
+  };
+
+  // --- Voice Handlers ---
+
+  const startListening = () => {
+    const recognizer = getSpeechRecognizer();
+    if (!recognizer.isSupported()) {
+        setInputError("Speech input isn't supported in this browser.");
+        return;
+    }
+    stopSpeaking();
+    setSpeakingMessageId(null);
+    setInputError(null);
+
+    // Dictation is appended to whatever was already typed
+    const base = input.trim();
+    const conversational = voiceSettings.autoSpeak;
+    let transcript = '';
+    setIsListening(true);
+    stopListeningRef.current = recognizer.start({
+        lang: voiceSettings.inputLang,
+        // In conversation mode a pause ends the turn; otherwise listen until the mic is toggled off
+        continuous: !conversational,
+        onResult: (text) => {
+            transcript = text;
+            setInput(base ? `${base} ${text}` : text);
+        },
+        onError: setInputError,
+        onEnd: () => {
+            stopListeningRef.current = null;
+            setIsListening(false);
+            if (conversational && transcript) {
+                voiceTurnRef.current = true;
+                handleSendRef.current?.(base ? `${base} ${transcript}` : transcript);
+            }
+        },
+    });
+  };
+  startListeningRef.current = startListening;
+
+  const handleToggleMic = () => {
+    if (isListening) {
+        stopListeningRef.current?.();
+    } else {
+        startListening();
+    }
+  };
+
+  const speakMessage = (messageId: string, text: string, resumeListening = false) => {
+    setSpeakingMessageId(messageId);
+    speak(text, voiceSettings, () => {
+        setSpeakingMessageId(current => current === messageId ? null : current);
+        if (resumeListening) startListeningRef.current?.();
+    });
+  };
+
+  const handleToggleSpeak = (message: ChatMessage) => {
+    if (speakingMessageId === message.id) {
+        stopSpeaking();
+        setSpeakingMessageId(null);
+    } else {
+        speakMessage(message.id, message.text);
+    }
+  };
+
+  /**
+   * Conversation mode reads each finished reply aloud, then listens again if the user spoke.
+   */
+  const announceReply = (messageId: string, text: string) => {
+    const resumeListening = voiceTurnRef.current;
+    voiceTurnRef.current = false;
+    if (voiceSettings.autoSpeak && text) speakMessage(messageId, text, resumeListening);
+  };
+
+  const handleSend = async (
+    overrideText?: string,
+    isImageGenMode: boolean = false,
+    imageOptionsOverride?: ImageGenerationOptions
+  ) => {
     const textToSend = overrideText || input;
     
-    if ((!textToSend.trim() && !selectedImage) || !currentSessionId) {
+    if ((!textToSend.trim() && pendingAttachments.length === 0) || !currentSessionId) {
         if (!currentSessionId) {
-            const newSession: ChatSession = {
-                id: generateId(),
-                title: textToSend.substring(0, 30) || 'New Chat',
-                messages: [],
-                createdAt: Date.now(),
-                updatedAt: Date.now(),
-            };
+            const newSession = createSession(textToSend.substring(0, 30) || 'New Chat');
             setSessions(prev => [newSession, ...prev]);
             setCurrentSessionId(newSession.id);
         }
         return; 
     }
     
+    // Replies come through the API server, which needs a signed-in user; only the offline
+    // mock answers without one
+    const sessionModel = resolveSessionModel(sessions.find(s => s.id === currentSessionId));
+    if (!user && !sessionModel.provider.worksOffline) {
+      setShowLoginModal(true);
+      return;
+    }
+
     let targetSessionId = currentSessionId;
     if (!targetSessionId) {
-        const newSession: ChatSession = {
-            id: generateId(),
-            title: textToSend.substring(0, 20) + '...',
-            messages: [],
-            createdAt: Date.now(),
-            updatedAt: Date.now(),
-        };
+        const newSession = createSession(textToSend.substring(0, 20) + '...');
         setSessions([newSession, ...sessions]);
         targetSessionId = newSession.id;
         setCurrentSessionId(newSession.id);
     }
 
+    const currentSessionData = sessions.find(s => s.id === targetSessionId);
+    // The new message continues the conversation currently on screen
+    const history = currentSessionData ? getActiveThread(currentSessionData) : [];
+
+    const hasImage = pendingAttachments.some(a => a.kind === 'image');
     const userMsg: ChatMessage = {
       id: generateId(),
       role: MessageRole.USER,
       text: textToSend,
-      imageUrl: selectedImage || undefined,
+      attachments: pendingAttachments.length > 0 ? pendingAttachments : undefined,
       type: MessageType.TEXT,
-      timestamp: Date.now()
+      timestamp: Date.now(),
+      parentId: history.length > 0 ? history[history.length - 1].id : null,
+      // Image Creation mode is the user picking the route; otherwise it is decided before replying
+      route: isImageGenMode ? { route: hasImage ? 'edit' : 'image', source: 'user' } : undefined,
+      imageOptions: isImageGenMode ? (imageOptionsOverride || imageOptions) : undefined
     };
 
+    // Without a connection the message waits in the outbox, unless the provider works offline
+    const queue = !navigator.onLine && !resolveSessionModel(currentSessionData).provider.worksOffline;
+    const sentMsg = queue ? { ...userMsg, isPending: true } : userMsg;
+
     setSessions(prev => prev.map(s => {
       if (s.id === targetSessionId) {
-        const title = s.messages.length === 0 ? (textToSend.substring(0, 30) || 'Image Analysis') : s.title;
-        return {
-          ...s,
-          title,
-          messages: [...s.messages, userMsg],
-          updatedAt: Date.now()
-        };
+        const untitled = pendingAttachments.every(a => a.kind === 'image') ? 'Image Analysis' : pendingAttachments[0].name;
+        const title = s.messages.length === 0 ? (textToSend.substring(0, 30) || untitled) : s.title;
+        return withAppendedMessage({ ...s, title }, sentMsg);
       }
       return s;
     }));
 
     setInput('');
-    setSelectedImage(null);
-    setIsTyping(true);
+    setPendingAttachments([]);
     setShowImageGenGuide(false);
 
+    if (queue) {
+        setOutbox(prev => [...prev, { sessionId: targetSessionId, messageId: sentMsg.id, queuedAt: Date.now() }]);
+        return;
+    }
+    await generateReply(targetSessionId, currentSessionData, history, userMsg);
+  };
+  handleSendRef.current = (text: string) => handleSend(text);
+
+  /**
+   * Edits an image from an earlier message. The request becomes a user message pointing at
+   * the source, so regenerating repeats the edit and the results can link back to it.
+   */
+  const handleImageEdit = (
+    sourceMessageId: string,
+    sourceAttachmentId: string | undefined,
+    { prompt, mask, count }: ImageEditSubmission
+  ) => {
+    if (!currentSession || isBusy) return;
+    const history = getActiveThread(currentSession);
+    let text = prompt;
+    if (!text) {
+        if (mask) text = 'Repaint the marked area';
+        else text = count > 1 ? `Make ${count} variations of this image` : 'Make a variation of this image';
+    }
+
+    const userMsg: ChatMessage = {
+      id: generateId(),
+      role: MessageRole.USER,
+      text,
+      type: MessageType.TEXT,
+      timestamp: Date.now(),
+      parentId: history.length > 0 ? history[history.length - 1].id : null,
+      sourceMessageId,
+      imageEdit: { prompt, sourceAttachmentId, mask, count },
+      route: { route: 'edit', source: 'user' }
+    };
+    const sessionId = currentSession.id;
+    setSessions(prev => prev.map(s => s.id === sessionId ? withAppendedMessage(s, userMsg) : s));
+    setEditTarget(null);
+    setPreviewData(null);
+    generateReply(sessionId, currentSession, history, userMsg);
+  };
+
+  /**
+   * Settles how userMsg is answered: keeps a route already chosen (by the user, or for an
+   * earlier reply), otherwise asks the router, then fills in what the route needs. Edits
+   * apply to the attached image, or else to the latest image of the last few messages.
+   */
+  const resolveRoute = async (
+    session: ChatSession | undefined,
+    history: ChatMessage[],
+    userMsg: ChatMessage
+  ): Promise<ChatMessage> => {
+    const hasImageAttachment = (m: ChatMessage) => getMessageAttachments(m).some(a => a.kind === 'image');
+    const attachedImage = userMsg.attachments?.find(a => a.kind === 'image');
+    const recentImageMsg = history.slice(-RECENT_IMAGE_WINDOW).reverse().find(hasImageAttachment);
+    const decision = userMsg.route || await routeMessage(session?.providerId, {
+        message: userMsg.text,
+        hasImage: !!attachedImage,
+        hasRecentImage: !!recentImageMsg
+    });
+    const prompt = decision.imagePrompt || userMsg.text;
+
+    if (decision.route === 'edit') {
+        // Edits started from the image preview already name their source
+        if (userMsg.imageEdit && userMsg.sourceMessageId !== userMsg.id) return { ...userMsg, route: decision };
+        const sourceMsg = attachedImage ? userMsg : recentImageMsg;
+        if (sourceMsg) {
+            const sourceImage = attachedImage || getMessageAttachments(sourceMsg).find(a => a.kind === 'image')!;
+            return {
+                ...userMsg,
+                route: decision,
+                sourceMessageId: sourceMsg.id,
+                imageEdit: { prompt, sourceAttachmentId: sourceImage.id, count: 1 },
+                imageOptions: undefined
+            };
+        }
+    }
+    // An edit with nothing to edit makes a new image instead
+    if (decision.route !== 'chat') {
+        return {
+            ...userMsg,
+            route: { ...decision, route: 'image' },
+            sourceMessageId: undefined,
+            imageEdit: undefined,
+            imageOptions: userMsg.imageOptions || imageOptions
+        };
+    }
+    return { ...userMsg, route: decision, sourceMessageId: undefined, imageEdit: undefined, imageOptions: undefined };
+  };
+
+  /**
+   * Produces the model's reply to requestMsg as its child, once routed: an image edit, a new
+   * image, or a streamed chat completion. `history` is the conversation before requestMsg.
+   */
+  const generateReply = async (
+    targetSessionId: string,
+    currentSessionData: ChatSession | undefined,
+    history: ChatMessage[],
+    requestMsg: ChatMessage
+  ) => {
+    setIsTyping(true);
+    // Set once a streamed reply is on screen, so a failure marks it instead of adding another
+    let streamingReplyId: string | undefined;
+
     try {
-        let responseText = '';
-        let responseImage = undefined;
-        let msgType = MessageType.TEXT;
-        let originalPrompt = undefined;
-
-        if (isImageGenMode || isImageGenerationRequest(textToSend)) {
-            const generatedImageBase64 = await generateImageWithGemini(textToSend);
-            if (generatedImageBase64) {
-                responseImage = generatedImageBase64;
-                responseText = `Here is the image you asked for! 🎨 \n\nPrompt: "${textToSend}"`;
+        const userMsg = await resolveRoute(currentSessionData, history, requestMsg);
+        const { route, sourceMessageId, imageEdit, imageOptions: requestImageOptions } = userMsg;
+        updateMessage(targetSessionId, userMsg.id, { route, sourceMessageId, imageEdit, imageOptions: requestImageOptions });
+        const textToSend = userMsg.text;
+
+        if (userMsg.imageEdit) {
+            const imageProvider = getImageProvider(currentSessionData?.providerId);
+            const editModel = imageProvider.editModels[0];
+            const edit = userMsg.imageEdit;
+            // userMsg may not be in the session snapshot yet, and can be its own source
+            const source = findSourceImage([...(currentSessionData?.messages || []), userMsg], userMsg.sourceMessageId, edit);
+            const results = source
+                ? await imageProvider.editImage({ image: source.dataUrl, prompt: edit.prompt, mask: edit.mask, count: edit.count, model: editModel })
+                : [];
+
+            let responseText = "I tried to edit that image, but my neural canvas is blurry right now. Please try again.";
+            if (!source) responseText = "I can't find the original image anymore, so there's nothing to edit.";
+            else if (results.length > 1) responseText = `Here are ${results.length} new versions! 🎨`;
+            else if (results.length === 1) responseText = "Here is your edited image! 🎨";
+
+            const botMsg: ChatMessage = {
+                id: generateId(),
+                role: MessageRole.MODEL,
+                text: responseText,
+                attachments: results.length > 0
+                    ? results.map((url, i) => createImageAttachment(url, `xeno-edit-${i + 1}`))
+                    : undefined,
+                type: results.length > 0 ? MessageType.IMAGE : MessageType.TEXT,
+                timestamp: Date.now(),
+                originalPrompt: edit.prompt || undefined,
+                providerId: imageProvider.id,
+                model: editModel,
+                parentId: userMsg.id,
+                sourceMessageId: userMsg.sourceMessageId
+            };
+
+            setSessions(prev => prev.map(s =>
+                s.id === targetSessionId ? withAppendedMessage(s, botMsg) : s
+            ));
+            announceReply(botMsg.id, responseText);
+        } else if (userMsg.route?.route === 'image') {
+            const imageProvider = getImageProvider(currentSessionData?.providerId);
+            const imageModel = imageProvider.imageModels[0];
+            const imagePrompt = userMsg.route.imagePrompt || textToSend;
+            const options = userMsg.imageOptions || DEFAULT_IMAGE_OPTIONS;
+            let responseText = '';
+            let msgType = MessageType.TEXT;
+            let originalPrompt = undefined;
+
+            const images = await imageProvider.generateImage({ prompt: imagePrompt, model: imageModel, options });
+            if (images.length > 0) {
+                responseText = images.length > 1
+                    ? `Here are the ${images.length} images you asked for! 🎨 \n\nPrompt: "${imagePrompt}"`
+                    : `Here is the image you asked for! 🎨 \n\nPrompt: "${imagePrompt}"`;
                 msgType = MessageType.IMAGE;
-                originalPrompt = textToSend;
+                originalPrompt = imagePrompt;
             } else {
                 responseText = "I tried to generate that image, but my neural canvas is blurry right now. Please try again.";
             }
+
+            const botMsg: ChatMessage = {
+                id: generateId(),
+                role: MessageRole.MODEL,
+                text: responseText,
+                attachments: images.length > 0
+                    ? images.map((url, i) => createImageAttachment(url, `xeno-image-${i + 1}`))
+                    : undefined,
+                type: msgType,
+                timestamp: Date.now(),
+                originalPrompt: originalPrompt,
+                imageOptions: options,
+                providerId: imageProvider.id,
+                model: imageModel,
+                parentId: userMsg.id
+            };
+
+            setSessions(prev => prev.map(s =>
+                s.id === targetSessionId ? withAppendedMessage(s, botMsg) : s
+            ));
+            announceReply(botMsg.id, responseText);
         } else {
-            const currentSessionData = sessions.find(s => s.id === targetSessionId);
-            const history = currentSessionData ? currentSessionData.messages : [];
-            responseText = await sendMessageToGemini(history, textToSend, userMsg.imageUrl);
-        }
+            const streamSessionId = targetSessionId;
+            const { provider, model } = resolveSessionModel(currentSessionData);
+            const persona = getPersona(personas, currentSessionData?.personaId);
+            const attachments = getMessageAttachments(userMsg);
+            // Passages from the chat's documents go out with the message; without them it is answered as usual
+            let documentContext: ReturnType<typeof buildDocumentContext> = { citations: [] };
+            if (currentSessionData?.documents?.length) {
+                try {
+                    documentContext = buildDocumentContext(await retrieveChunks(streamSessionId, currentSessionData.documents, textToSend));
+                } catch (e) {
+                    console.error("Document search failed", e);
+                }
+            }
+            // Older turns that no longer fit are folded into the session's running summary first
+            const reserveTokens = estimateMessageTokens(userMsg) + estimateTextTokens(documentContext.context || '');
+            const plan = planContext(history, contextSettings, currentSessionData?.contextSummary, reserveTokens);
+            let summary = plan.summary;
+            if (plan.unsummarized.length > 0) {
+                try {
+                    const updated = await summarizeTurns(provider, model, plan.summary, plan.unsummarized);
+                    if (updated) {
+                        summary = updated;
+                        setSessions(prev => prev.map(s =>
+                            s.id === streamSessionId ? { ...s, contextSummary: updated } : s
+                        ));
+                    }
+                } catch (e) {
+                    // The reply still goes out with the older summary, or none
+                    console.error("Summarization failed", e);
+                }
+            }
 
-        const botMsg: ChatMessage = {
-            id: generateId(),
-            role: MessageRole.MODEL,
-            text: responseText,
-            imageUrl: responseImage,
-            type: msgType,
-            timestamp: Date.now(),
-            originalPrompt: originalPrompt
-        };
+            const recalled = currentSessionData?.memoryDisabled ? [] : selectMemories(memories, streamSessionId, textToSend);
+
+            // Insert an empty model message that fills up as tokens arrive
+            const botMsg: ChatMessage = {
+                id: generateId(),
+                role: MessageRole.MODEL,
+                text: '',
+                type: MessageType.TEXT,
+                timestamp: Date.now(),
+                isGenerating: true,
+                providerId: provider.id,
+                model,
+                citations: documentContext.citations.length > 0 ? documentContext.citations : undefined,
+                parentId: userMsg.id
+            };
+            setSessions(prev => prev.map(s =>
+                s.id === streamSessionId ? withAppendedMessage(s, botMsg) : s
+            ));
+            streamingReplyId = botMsg.id;
+            setIsTyping(false);
+            setIsStreaming(true);
+
+            const controller = new AbortController();
+            abortControllerRef.current = controller;
+
+            // Tool steps are shown on the reply as they happen
+            let toolCalls: ToolCall[] = [];
+            const setToolCall = (call: ToolCall) => {
+                toolCalls = toolCalls.some(c => c.id === call.id)
+                    ? toolCalls.map(c => c.id === call.id ? call : c)
+                    : [...toolCalls, call];
+                updateMessage(streamSessionId, botMsg.id, { toolCalls });
+            };
+            const runTool = async (request: ToolCallRequest): Promise<ToolOutcome> => {
+                if (getTool(request.name)?.sideEffects) {
+                    setToolCall({ ...request, status: 'pending' });
+                    if (!await requestToolApproval(request.id, controller.signal)) {
+                        setToolCall({ ...request, status: 'denied' });
+                        return { error: 'The user did not allow this action.' };
+                    }
+                }
+                setToolCall({ ...request, status: 'running' });
+                const outcome = await runToolCall(request);
+                setToolCall({ ...request, ...outcome, status: outcome.error !== undefined ? 'error' : 'done' });
+                return outcome;
+            };
 
-        setSessions(prev => prev.map(s => {
-            if (s.id === targetSessionId) {
-                return {
-                    ...s,
-                    messages: [...s.messages, botMsg],
-                    updatedAt: Date.now()
-                };
+            const finalText = await provider.streamMessage(
+                {
+                    history: plan.messages,
+                    message: textToSend,
+                    attachments,
+                    model,
+                    systemInstruction: withContextSummary(withMemories(buildSystemInstruction(persona), recalled), summary),
+                    temperature: persona.temperature,
+                    signal: controller.signal,
+                    tools: TOOLS,
+                    runTool,
+                    context: documentContext.context
+                },
+                (textSoFar) => updateMessage(streamSessionId, botMsg.id, { text: textSoFar })
+            );
+
+            if (finalText || toolCalls.length > 0) {
+                // Keep only the passages the reply actually cites
+                const cited = citedIn(finalText, documentContext.citations);
+                updateMessage(streamSessionId, botMsg.id, { text: finalText, isGenerating: false, citations: cited.length > 0 ? cited : undefined });
+                if (!controller.signal.aborted) {
+                    announceReply(botMsg.id, finalText);
+                    learnFromExchange(currentSessionData, textToSend, finalText);
+                }
+            } else {
+                // Stopped before anything happened: drop the empty placeholder
+                setSessions(prev => prev.map(s =>
+                    s.id === streamSessionId ? { ...s, messages: s.messages.filter(m => m.id !== botMsg.id) } : s
+                ));
             }
-            return s;
-        }));
+        }
 
     } catch (e) {
         console.error(e);
-        const errorMsg: ChatMessage = {
-            id: generateId(),
-            role: MessageRole.MODEL,
-            text: "My neural link was disrupted. Please try again. ⚠️",
-            type: MessageType.TEXT,
-            timestamp: Date.now()
-        };
-        setSessions(prev => prev.map(s => 
-             s.id === targetSessionId ? { ...s, messages: [...s.messages, errorMsg] } : s
-        ));
+        const error = toMessageError(e);
+        if (streamingReplyId) {
+            // Keep whatever streamed in before the failure; the error marks it as incomplete
+            updateMessage(targetSessionId, streamingReplyId, { isGenerating: false, error });
+        } else {
+            const errorMsg: ChatMessage = {
+                id: generateId(),
+                role: MessageRole.MODEL,
+                text: '',
+                type: MessageType.TEXT,
+                timestamp: Date.now(),
+                parentId: requestMsg.id,
+                error
+            };
+            setSessions(prev => prev.map(s => 
+                 s.id === targetSessionId ? withAppendedMessage(s, errorMsg) : s
+            ));
+        }
     } finally {
         setIsTyping(false);
+        setIsStreaming(false);
+        abortControllerRef.current = null;
+        voiceTurnRef.current = false;
+    }
+  };
+
+  const handleEditMessage = (messageId: string, newText: string) => {
+    if (!currentSession || !newText.trim()) return;
+    const original = currentSession.messages.find(m => m.id === messageId);
+    if (!original) return;
+
+    // The edit becomes a sibling of the original so both versions stay reachable.
+    // A route the user picked still applies; otherwise the new text is routed afresh.
+    const keepRoute = original.route?.source === 'user';
+    const editedMsg: ChatMessage = {
+      ...original,
+      id: generateId(),
+      text: newText,
+      route: keepRoute ? { ...original.route!, imagePrompt: undefined } : undefined,
+      sourceMessageId: keepRoute ? original.sourceMessageId : undefined,
+      imageEdit: keepRoute && original.imageEdit ? { ...original.imageEdit, prompt: newText } : undefined,
+      timestamp: Date.now()
+    };
+    const sessionId = currentSession.id;
+    setSessions(prev => prev.map(s => s.id === sessionId ? withAppendedMessage(s, editedMsg) : s));
+    generateReply(sessionId, currentSession, getAncestors(currentSession.messages, messageId), editedMsg);
+  };
+
+  /**
+   * Answers a message again the way the user picked instead of the way it was routed,
+   * as a sibling so the original reply stays reachable.
+   */
+  const handleRerouteMessage = (messageId: string, route: MessageRoute) => {
+    if (!currentSession) return;
+    const original = currentSession.messages.find(m => m.id === messageId);
+    if (!original) return;
+
+    const reroutedMsg: ChatMessage = {
+      ...original,
+      id: generateId(),
+      timestamp: Date.now(),
+      route: { route, imagePrompt: original.route?.imagePrompt, source: 'user' },
+      sourceMessageId: undefined,
+      imageEdit: undefined,
+      imageOptions: route === 'image' ? original.imageOptions : undefined
+    };
+    const sessionId = currentSession.id;
+    setSessions(prev => prev.map(s => s.id === sessionId ? withAppendedMessage(s, reroutedMsg) : s));
+    generateReply(sessionId, currentSession, getAncestors(currentSession.messages, messageId), reroutedMsg);
+  };
+
+  const handleRegenerateReply = (messageId: string) => {
+    if (!currentSession) return;
+    const reply = currentSession.messages.find(m => m.id === messageId);
+    const prompt = currentSession.messages.find(m => m.id === reply?.parentId);
+    if (!reply || !prompt) return;
+    // Prompts from before routing was recorded: an image reply means the keywords chose image
+    const routedPrompt: ChatMessage = prompt.route || reply.type !== MessageType.IMAGE
+      ? prompt
+      : { ...prompt, route: { route: 'image', source: 'keywords' } };
+    generateReply(currentSession.id, currentSession, getAncestors(currentSession.messages, prompt.id), routedPrompt);
+  };
+
+  /**
+   * Replaces a failed reply with a new attempt at the same message.
+   */
+  const handleRetryReply = (messageId: string) => {
+    if (!currentSession) return;
+    const sessionId = currentSession.id;
+    handleRegenerateReply(messageId);
+    setSessions(prev => prev.map(s =>
+      s.id === sessionId ? { ...s, messages: s.messages.filter(m => m.id !== messageId) } : s
+    ));
+  };
+
+  /**
+   * Sends the oldest message in the outbox. Runs again (through the effect below) after each
+   * reply, until the outbox is empty or the connection drops.
+   */
+  const sendNextQueued = () => {
+    const [entry] = outbox;
+    const dropEntry = () => setOutbox(prev => prev.filter(e => e !== entry));
+    const session = sessions.find(s => s.id === entry.sessionId);
+    // Chats are all loaded by now (see the effect below), so a missing one was deleted
+    if (!session) return dropEntry();
+    if (!loadedSessionIdsRef.current.has(session.id)) {
+      // Check again once the chat's messages are in
+      loadMessagesOnce(session.id).then(() => setOutbox(prev => [...prev]));
+      return;
+    }
+    const queued = session.messages.find(m => m.id === entry.messageId);
+    if (!queued?.isPending) return dropEntry();
+
+    const sentMsg: ChatMessage = { ...queued, isPending: false, parentId: queuedMessageParentId(session.messages, queued) };
+    const messages = session.messages.map(m => m.id === sentMsg.id ? sentMsg : m);
+    const updated = { ...session, messages, branchSelection: selectBranch({ ...session, messages }, sentMsg.id) };
+    setSessions(prev => prev.map(s => s.id === session.id ? updated : s));
+    dropEntry();
+    generateReply(session.id, updated, getAncestors(messages, sentMsg.id), sentMsg);
+  };
+
+  useEffect(() => {
+    // Before the chats are read from IndexedDB every entry would look like it lost its chat
+    if (hasLoadedSessions && isOnline && !isBusy && outbox.length > 0) sendNextQueued();
+  }, [hasLoadedSessions, isOnline, isBusy, outbox, sessions]);
+
+  // --- Sync ---
+
+  /**
+   * Pushes local changes and merges what other devices changed. One sync runs at a time.
+   */
+  const runSync = async () => {
+    if (!user || !hasLoadedSessions || isSyncingRef.current) return;
+    if (!navigator.onLine) {
+      setSyncStatus(prev => ({ ...prev, state: 'offline' }));
+      return;
+    }
+    isSyncingRef.current = true;
+    setSyncStatus(prev => ({ ...prev, state: 'syncing', error: undefined }));
+    try {
+      const remote = await syncSessions(user.id, sessionsRef.current);
+      for (const sessionId of new Set(remote.messages.map(m => m.sessionId!))) {
+        await loadMessagesOnce(sessionId);
+      }
+      setSessions(prev => mergeRemoteChanges(prev, remote));
+      commitRemoteChanges(remote);
+      setSyncStatus({ state: 'synced', lastSyncedAt: Date.now() });
+    } catch (error) {
+      console.error("Sync failed:", error);
+      setSyncStatus(prev => ({
+        ...prev,
+        state: navigator.onLine ? 'error' : 'offline',
+        error: error instanceof Error ? error.message : String(error),
+      }));
+    } finally {
+      isSyncingRef.current = false;
     }
   };
 
+  // Sync on sign-in, when the connection returns, and every minute for other devices' changes
+  useEffect(() => {
+    if (!user) {
+      setSyncStatus({ state: 'off' });
+      return;
+    }
+    runSync();
+    const timer = setInterval(runSync, SYNC_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [user, isOnline, hasLoadedSessions]);
+
+  // Push local edits once they settle
+  useEffect(() => {
+    if (!user) return;
+    const timer = setTimeout(() => {
+      if (hasPendingChanges()) runSync();
+    }, SYNC_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [sessions]);
+
+  const handleSelectBranch = (messageId: string) => {
+    if (!currentSessionId) return;
+    setSessions(prev => prev.map(s =>
+      s.id === currentSessionId ? { ...s, branchSelection: selectBranch(s, messageId) } : s
+    ));
+  };
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -269,7 +1357,9 @@ const App: React.FC = () => {
       if (!previewData) return;
       const link = document.createElement('a');
       link.href = previewData.url;
-      link.download = `xeno-generated-${Date.now()}.jpg`;
+      // Generated images may be JPEG, PNG or (from the mock provider) SVG
+      const extension = dataUrlMimeType(previewData.url).split('/')[1].replace('jpeg', 'jpg').replace('+xml', '');
+      link.download = `xeno-generated-${Date.now()}.${extension}`;
       document.body.appendChild(link);
       link.click();
       document.body.removeChild(link);
@@ -301,12 +1391,28 @@ const App: React.FC = () => {
   };
 
   const handleRegenerateImage = () => {
-      if (previewData?.prompt) {
+      // Edit results repeat the edit that produced them
+      const message = currentSession?.messages.find(m => m.id === previewData?.messageId);
+      if (message?.sourceMessageId && message.parentId) {
+          setPreviewData(null);
+          handleRegenerateReply(message.id);
+      } else if (previewData?.prompt) {
           setPreviewData(null); // Close modal
-          handleSend(previewData.prompt, true); // Re-trigger generation
+          handleSend(previewData.prompt, true, message?.imageOptions || DEFAULT_IMAGE_OPTIONS); // Re-trigger generation with the same settings
       }
   };
 
+  if (sharedChatId) {
+    return (
+      <SharedChatView
+        shareId={sharedChatId}
+        canContinue={hasLoadedSessions}
+        onContinue={handleContinueSharedChat}
+        onClose={closeSharedChat}
+      />
+    );
+  }
+
   if (showStartup) {
     return <StartupScreen onComplete={() => setShowStartup(false)} />;
   }
@@ -320,6 +1426,51 @@ const App: React.FC = () => {
         onLogin={handleLoginSuccess} 
       />
 
+      <PersonaManager
+        isOpen={showPersonaManager}
+        personas={personas}
+        initialPersonaId={currentPersona.id}
+        onClose={() => setShowPersonaManager(false)}
+        onSave={handleSavePersona}
+        onDelete={handleDeletePersona}
+      />
+
+      <MemoryManager
+        isOpen={showMemoryManager}
+        memories={memories}
+        sessions={sessions}
+        onClose={() => setShowMemoryManager(false)}
+        onChange={setMemories}
+      />
+
+      <DocumentsPanel
+        isOpen={showDocuments}
+        documents={currentSession?.documents || []}
+        onAdd={handleAddDocuments}
+        onRemove={handleRemoveDocument}
+        onClose={() => setShowDocuments(false)}
+      />
+
+      <ShareDialog
+        isOpen={showShareDialog}
+        session={currentSession}
+        thread={currentThread}
+        onClose={() => setShowShareDialog(false)}
+      />
+
+      <CitationViewer
+        citation={openCitation}
+        isDocumentAvailable={!!openCitation && !!currentSession?.documents?.some(d => d.id === openCitation.documentId)}
+        onClose={() => setOpenCitation(null)}
+      />
+
+      {/* Camera Capture Modal */}
+      <CameraCapture
+        isOpen={showCamera}
+        onClose={() => setShowCamera(false)}
+        onCapture={handleCameraCapture}
+      />
+
       {/* Sidebar */}
       <Sidebar 
         isOpen={isSidebarOpen} 
@@ -331,10 +1482,39 @@ const App: React.FC = () => {
         onDeleteSession={handleDeleteSession}
         onPinSession={handlePinSession}
         onClearAll={() => { setSessions([]); setCurrentSessionId(null); }}
+        user={user}
+        onLogin={() => setShowLoginModal(true)}
+        onLogout={handleLogout}
+        syncStatus={syncStatus}
+        onSyncNow={runSync}
+        onExportSessions={handleExportSessions}
+        feedbackCount={feedback.length}
+        onExportFeedback={handleExportFeedback}
+        onImportSessions={handleImportSessions}
+        searchMessages={(query: string, filters: SearchFilters) => searchMessages(searchIndexRef.current, query, filters)}
+        searchVersion={searchVersion}
+        onOpenSearchResult={handleOpenSearchResult}
+        onOpenMemories={() => setShowMemoryManager(true)}
       />
 
       {/* Main Content */}
-      <div className={`flex-1 flex flex-col h-full transition-all duration-300 ${isSidebarOpen ? 'md:ml-72' : ''}`}>
+      <div
+        className={`flex-1 flex flex-col h-full transition-all duration-300 ${isSidebarOpen ? 'md:ml-72' : ''}`}
+        onDragEnter={handleDragEnter}
+        onDragOver={handleDragOver}
+        onDragLeave={handleDragLeave}
+        onDrop={handleDrop}
+      >
+        {/* Drop Zone Overlay */}
+        {isDraggingFiles && (
+            <div className="fixed inset-0 z-[55] pointer-events-none bg-[#0D0221]/80 backdrop-blur-sm flex items-center justify-center p-8">
+                <div className="w-full h-full max-w-3xl max-h-96 border-2 border-dashed border-[#00E0FF]/60 rounded-3xl flex flex-col items-center justify-center gap-3 text-[#00E0FF]">
+                    <Paperclip size={36} />
+                    <span className="font-semibold">Drop files to attach</span>
+                    <span className="text-xs text-white/50">Images, PDFs, text or code files, audio</span>
+                </div>
+            </div>
+        )}
         
         {/* Top Bar */}
         <header className="h-16 border-b border-white/10 flex items-center justify-between px-4 bg-[#0D0221]/80 backdrop-blur-md sticky top-0 z-20">
@@ -346,12 +1526,88 @@ const App: React.FC = () => {
                     Xeno AI
                 </h1>
             </div>
-            <button 
-                onClick={handleNewChat}
-                className="w-10 h-10 flex items-center justify-center rounded-full bg-gradient-to-br from-[#3B0A94] to-[#4316A1] hover:shadow-[0_0_15px_rgba(59,10,148,0.6)] transition-all"
-            >
-                <Plus size={24} />
-            </button>
+            <div className="flex items-center gap-3">
+                {!isOnline && (
+                    <span
+                        className="flex items-center gap-1.5 px-2 py-1 rounded-lg text-xs text-amber-300 bg-amber-300/10"
+                        title="Chats and settings still work. Messages are sent once you're back online."
+                    >
+                        <WifiOff size={14} />
+                        Offline{outbox.length > 0 ? ` · ${outbox.length} waiting` : ''}
+                    </span>
+                )}
+                {currentSession && (
+                    <div className="relative">
+                        <button
+                            onClick={() => setShowContextPanel(v => !v)}
+                            className={`flex items-center gap-1 p-2 rounded-lg text-xs transition-colors hover:bg-white/10 ${contextPlan.excluded.length > 0 ? 'text-amber-300' : 'text-white/60 hover:text-white'}`}
+                            title="How much of this chat Xeno can see"
+                        >
+                            <Gauge size={20} />
+                            <span className="hidden sm:inline">{Math.min(100, Math.round(contextPlan.tokens / contextSettings.budgetTokens * 100))}%</span>
+                        </button>
+                        {showContextPanel && (
+                            <ContextPanel
+                                plan={contextPlan}
+                                totalMessages={currentThread.length}
+                                settings={contextSettings}
+                                onChange={setContextSettings}
+                                memoryEnabled={!currentSession.memoryDisabled}
+                                memoryCount={memories.length}
+                                onToggleMemory={handleToggleMemory}
+                                onManageMemories={() => { setShowContextPanel(false); setShowMemoryManager(true); }}
+                                onClose={() => setShowContextPanel(false)}
+                            />
+                        )}
+                    </div>
+                )}
+                {currentThread.length > 0 && (
+                    <button
+                        onClick={() => requireAuth(() => setShowShareDialog(true))}
+                        className="p-2 rounded-lg text-white/60 hover:text-white hover:bg-white/10 transition-colors"
+                        title="Share a read-only link to this chat"
+                    >
+                        <Link2 size={20} />
+                    </button>
+                )}
+                <div className="relative">
+                    <button
+                        onClick={() => setShowVoiceSettings(v => !v)}
+                        className={`p-2 rounded-lg transition-colors hover:bg-white/10 ${voiceSettings.autoSpeak ? 'text-[#00E0FF]' : 'text-white/60 hover:text-white'}`}
+                        title="Voice settings"
+                    >
+                        <AudioLines size={20} />
+                    </button>
+                    {showVoiceSettings && (
+                        <VoiceSettings
+                            settings={voiceSettings}
+                            onChange={setVoiceSettings}
+                            onClose={() => setShowVoiceSettings(false)}
+                        />
+                    )}
+                </div>
+                <button
+                    onClick={() => setShowPersonaManager(true)}
+                    className="flex items-center gap-1.5 bg-white/5 border border-white/10 rounded-lg px-2 py-1 text-xs text-white/70 hover:border-[#00E0FF]/40 transition-colors"
+                    title="Personas"
+                >
+                    <span className="text-sm">{currentPersona.avatar}</span>
+                    <span className="hidden sm:inline max-w-[100px] truncate">{currentPersona.name}</span>
+                </button>
+                {currentSession && (
+                    <ModelPicker
+                        providerId={activeModel.provider.id}
+                        model={activeModel.model}
+                        onChange={handleModelChange}
+                    />
+                )}
+                <button 
+                    onClick={handleNewChat}
+                    className="w-10 h-10 flex items-center justify-center rounded-full bg-gradient-to-br from-[#3B0A94] to-[#4316A1] hover:shadow-[0_0_15px_rgba(59,10,148,0.6)] transition-all"
+                >
+                    <Plus size={24} />
+                </button>
+            </div>
         </header>
 
         {/* Chat Area */}
@@ -360,7 +1616,17 @@ const App: React.FC = () => {
                 <div className="h-full flex flex-col items-center justify-center text-center px-4">
                     <div className="bg-white/5 backdrop-blur-lg border border-white/10 p-8 rounded-2xl max-w-md w-full shadow-2xl animate-[fadeIn_0.5s_ease-out]">
                         <h2 className="text-3xl font-poppins font-bold mb-2">Welcome to Xeno AI 👋</h2>
-                        <p className="text-white/60 mb-8">I’m your bilingual AI companion. I can chat, generate images, and remember our conversations!</p>
+                        <p className="text-white/60 mb-6">I’m your bilingual AI companion. I can chat, generate images, and remember our conversations!</p>
+
+                        <div className="mb-6">
+                            <p className="text-xs text-white/40 mb-2">Talk to</p>
+                            <PersonaPicker
+                                personas={personas}
+                                selectedId={newChatPersonaId}
+                                onSelect={handleSelectPersona}
+                                onManage={() => setShowPersonaManager(true)}
+                            />
+                        </div>
                         
                         <div className="grid grid-cols-2 gap-4">
                             <button 
@@ -389,8 +1655,53 @@ const App: React.FC = () => {
                 </div>
             ) : (
                 <div className="max-w-4xl mx-auto pt-4 pb-20">
-                    {currentSession.messages.map(msg => (
-                        <MessageBubble key={msg.id} message={msg} onImageClick={setPreviewData} />
+                    {currentThread.length === 0 && !isTyping && (
+                        <div className="flex flex-col items-center text-center gap-3 mt-16 animate-[fadeIn_0.5s_ease-out]">
+                            <span className="text-5xl">{currentPersona.avatar}</span>
+                            <p className="text-white/60 text-sm">Who would you like to talk to?</p>
+                            <PersonaPicker
+                                personas={personas}
+                                selectedId={currentPersona.id}
+                                onSelect={handleSelectPersona}
+                                onManage={() => setShowPersonaManager(true)}
+                            />
+                        </div>
+                    )}
+                    {currentThread.map(msg => (
+                        <React.Fragment key={msg.id}>
+                        {msg.id === firstVisibleId && (
+                            <div className="flex items-center gap-3 my-6 text-[11px] text-white/40">
+                                <div className="flex-1 h-px bg-white/10" />
+                                <span>{contextPlan.summary || contextPlan.unsummarized.length > 0 ? 'Xeno sees a summary of the messages above' : "Xeno can't see the messages above"}</span>
+                                <div className="flex-1 h-px bg-white/10" />
+                            </div>
+                        )}
+                        <MessageBubble 
+                            message={msg} 
+                            onImageClick={setPreviewData} 
+                            isHighlighted={msg.id === highlightedMessageId}
+                            siblingInfo={getSiblingInfo(currentSession.messages, msg)}
+                            onSelectSibling={isBusy ? undefined : handleSelectBranch}
+                            onEdit={!isBusy && msg.role === MessageRole.USER ? (text: string) => handleEditMessage(msg.id, text) : undefined}
+                            onRegenerate={!isBusy && msg.role === MessageRole.MODEL && msg.parentId && !msg.error ? () => handleRegenerateReply(msg.id) : undefined}
+                            onRetry={!isBusy && msg.error && msg.parentId ? () => handleRetryReply(msg.id) : undefined}
+                            onSpeak={isSpeechSynthesisSupported() ? () => handleToggleSpeak(msg) : undefined}
+                            isSpeaking={msg.id === speakingMessageId}
+                            avatar={currentPersona.builtIn ? undefined : currentPersona.avatar}
+                            onReroute={!isBusy && msg.role === MessageRole.USER ? (route: MessageRoute) => handleRerouteMessage(msg.id, route) : undefined}
+                            onShowSource={msg.sourceMessageId && msg.sourceMessageId !== msg.id ? () => setHighlightedMessageId(msg.sourceMessageId!) : undefined}
+                            isOutOfContext={contextPlan.excluded.includes(msg)}
+                            onToolDecision={msg.isGenerating ? handleToolDecision : undefined}
+                            onOpenCitation={setOpenCitation}
+                            onTranslate={(language: string) => handleTranslateMessage(msg, language)}
+                            isTranslating={translatingIds.has(msg.id)}
+                            onClearTranslation={() => updateMessage(currentSession.id, msg.id, { translation: undefined })}
+                            onDelete={isBusy ? undefined : () => handleDeleteMessage(msg.id)}
+                            feedback={feedbackByMessageId.get(msg.id)}
+                            onFeedback={msg.role === MessageRole.MODEL && !msg.error ? (rating: FeedbackRating | null) => handleRateMessage(msg, rating) : undefined}
+                            onFeedbackComment={(comment: string) => setFeedback(prev => withFeedbackComment(prev, msg.id, comment))}
+                        />
+                        </React.Fragment>
                     ))}
                     {isTyping && (
                          <div className="flex gap-3 mb-6">
@@ -410,23 +1721,40 @@ const App: React.FC = () => {
         {/* Input Area */}
         <div className="p-4 md:p-6 bg-[#0D0221]/90 backdrop-blur-xl border-t border-white/10 absolute bottom-0 left-0 right-0 md:relative">
             <div className="max-w-4xl mx-auto relative">
-                {/* Image Preview in Input */}
-                {selectedImage && (
-                    <div className="absolute -top-16 left-0 bg-[#0D0221] border border-white/20 p-2 rounded-lg shadow-lg flex items-start gap-2">
-                        <img src={selectedImage} alt="Upload preview" className="h-12 w-12 object-cover rounded" />
-                        <div className="flex flex-col">
-                             <span className="text-xs text-white/70">Image received 📸</span>
-                             <span className="text-[10px] text-white/40">Ready to analyze or edit</span>
-                        </div>
-                        <button onClick={() => setSelectedImage(null)} className="text-white/50 hover:text-red-400 ml-2">
-                            <X size={14} />
-                        </button>
+                {/* Attachment Strip and Input Errors */}
+                {(pendingAttachments.length > 0 || inputError) && (
+                    <div className="absolute bottom-full mb-2 left-0 right-0 flex flex-col items-start gap-2 z-10">
+                        {inputError && (
+                            <div className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-[#0D0221] border border-red-500/40 text-red-300 text-xs shadow-lg">
+                                <AlertCircle size={14} className="flex-shrink-0" />
+                                <span>{inputError}</span>
+                            </div>
+                        )}
+                        {pendingAttachments.length > 0 && (
+                            <div className="bg-[#0D0221] border border-white/20 p-2 rounded-lg shadow-lg max-w-full">
+                                <AttachmentList
+                                    attachments={pendingAttachments}
+                                    variant="input"
+                                    onRemove={(id: string) => setPendingAttachments(prev => prev.filter(a => a.id !== id))}
+                                />
+                                {pendingAttachments.some(a => a.kind === 'image') && (
+                                    <button
+                                        onClick={() => setShowImageGenGuide(prev => !prev)}
+                                        className={`mt-2 flex items-center gap-1.5 px-2 py-1 rounded-md text-xs transition-colors ${showImageGenGuide ? 'bg-[#00E0FF]/20 text-[#00E0FF]' : 'text-white/60 hover:text-[#00E0FF] hover:bg-white/5'}`}
+                                        title="Change the image instead of asking about it"
+                                    >
+                                        <Wand2 size={12} />
+                                        {showImageGenGuide ? 'Editing image' : 'Edit image with AI'}
+                                    </button>
+                                )}
+                            </div>
+                        )}
                     </div>
                 )}
 
                 {/* Image Generation Guidance Panel */}
-                {showImageGenGuide && !selectedImage && (
-                    <div className="absolute -top-24 left-0 right-0 bg-[#0D0221]/95 border border-[#00E0FF]/40 p-3 rounded-xl shadow-[0_0_20px_rgba(0,224,255,0.1)] backdrop-blur-md animate-[fadeIn_0.3s_ease-out] z-10">
+                {showImageGenGuide && pendingAttachments.length === 0 && (
+                    <div className="absolute bottom-full mb-2 left-0 right-0 bg-[#0D0221]/95 border border-[#00E0FF]/40 p-3 rounded-xl shadow-[0_0_20px_rgba(0,224,255,0.1)] backdrop-blur-md animate-[fadeIn_0.3s_ease-out] z-10">
                         <div className="flex items-center justify-between mb-1">
                              <div className="flex items-center gap-2 text-[#00E0FF]">
                                 <Wand2 size={14} />
@@ -436,50 +1764,90 @@ const App: React.FC = () => {
                                 <X size={14} />
                              </button>
                         </div>
-                        <p className="text-sm text-gray-300">
+                        <p className="text-sm text-gray-300 mb-2">
                             Ready to visualize your ideas! Enter your description below.
                         </p>
+                        <ImageOptionsPanel options={imageOptions} onChange={setImageOptions} />
                     </div>
                 )}
 
                 <div className={`flex items-end gap-2 bg-white/5 border rounded-2xl p-2 transition-all shadow-lg ${showImageGenGuide ? 'border-[#00E0FF]/50 bg-[#00E0FF]/5' : 'border-white/10 focus-within:border-[#00E0FF]/50 focus-within:bg-white/10'}`}>
                     <button 
-                        onClick={handleImageUploadClick}
+                        onClick={handleAttachClick}
                         className="p-2 text-white/50 hover:text-[#00E0FF] transition-colors rounded-lg hover:bg-white/5"
-                        title="Upload Image"
+                        title="Attach files"
                     >
-                        <ImageIcon size={22} />
+                        <Paperclip size={22} />
+                    </button>
+                    <button 
+                        onClick={handleCameraClick}
+                        className="p-2 text-white/50 hover:text-[#00E0FF] transition-colors rounded-lg hover:bg-white/5"
+                        title="Take Photo"
+                    >
+                        <Camera size={22} />
+                    </button>
+                    <button 
+                        onClick={() => requireAuth(() => setShowDocuments(true))}
+                        className={`relative p-2 transition-colors rounded-lg hover:bg-white/5 ${currentSession?.documents?.length ? 'text-[#00E0FF]' : 'text-white/50 hover:text-[#00E0FF]'}`}
+                        title="Chat documents"
+                    >
+                        <FileSearch size={22} />
+                        {!!currentSession?.documents?.length && (
+                            <span className="absolute -top-0.5 -right-0.5 min-w-[16px] h-4 px-1 rounded-full bg-[#00E0FF] text-[#0D0221] text-[10px] font-bold leading-4 text-center">
+                                {currentSession.documents.length}
+                            </span>
+                        )}
                     </button>
                     <input 
                         type="file" 
                         ref={fileInputRef} 
                         className="hidden" 
-                        accept="image/*" 
-                        onChange={handleImageSelect} 
+                        accept={ACCEPTED_FILE_TYPES} 
+                        multiple
+                        onChange={handleFileSelect} 
                     />
                     
                     <textarea
                         value={input}
                         onChange={(e) => setInput(e.target.value)}
                         onKeyDown={handleKeyPress}
-                        placeholder={selectedImage ? "What should I do with this image?" : (showImageGenGuide ? "Describe the image you want me to create in detail (style, colors, subject)." : "Type your message… (हिन्दी/English)")}
+                        onPaste={handlePaste}
+                        placeholder={isListening ? "Listening… (हिन्दी/English)" : (pendingAttachments.length > 0 ? (showImageGenGuide && pendingAttachments.some(a => a.kind === 'image') ? "Describe how to change the image (e.g. \"make it a watercolor painting\")" : pendingAttachments.length === 1 && pendingAttachments[0].kind === 'image' ? "What should I do with this image?" : "What should I do with these files?") : (showImageGenGuide ? "Describe the image you want me to create in detail (style, colors, subject)." : "Type your message… (हिन्दी/English)"))}
                         className="flex-1 bg-transparent border-none focus:ring-0 text-white placeholder-white/30 resize-none py-3 max-h-32 text-sm md:text-base scrollbar-none"
                         rows={1}
                         style={{ minHeight: '44px' }}
                     />
                     
-                    <button 
-                        onClick={() => handleSend(undefined, showImageGenGuide)}
-                        disabled={!input.trim() && !selectedImage}
-                        className={`
-                            p-2 rounded-xl transition-all duration-300
-                            ${(input.trim() || selectedImage) 
-                                ? 'bg-[#00E0FF] text-[#0D0221] shadow-[0_0_15px_#00E0FF]' 
-                                : 'bg-white/10 text-white/30 cursor-not-allowed'}
-                        `}
+                    <button
+                        onClick={handleToggleMic}
+                        className={`p-2 rounded-xl transition-all duration-300 ${isListening ? 'bg-red-500/80 text-white shadow-[0_0_15px_rgba(239,68,68,0.5)] animate-pulse' : 'text-white/50 hover:text-[#00E0FF] hover:bg-white/5'}`}
+                        title={isListening ? "Stop listening" : "Speak your message"}
                     >
-                        <Send size={20} />
+                        {isListening ? <MicOff size={20} /> : <Mic size={20} />}
                     </button>
+
+                    {isStreaming ? (
+                        <button 
+                            onClick={handleStopGeneration}
+                            className="p-2 rounded-xl transition-all duration-300 bg-red-500/80 text-white hover:bg-red-500 shadow-[0_0_15px_rgba(239,68,68,0.5)]"
+                            title="Stop generating"
+                        >
+                            <Square size={20} className="fill-current" />
+                        </button>
+                    ) : (
+                        <button 
+                            onClick={() => handleSend(undefined, showImageGenGuide)}
+                            disabled={!input.trim() && pendingAttachments.length === 0}
+                            className={`
+                                p-2 rounded-xl transition-all duration-300
+                                ${(input.trim() || pendingAttachments.length > 0) 
+                                    ? 'bg-[#00E0FF] text-[#0D0221] shadow-[0_0_15px_#00E0FF]' 
+                                    : 'bg-white/10 text-white/30 cursor-not-allowed'}
+                            `}
+                        >
+                            <Send size={20} />
+                        </button>
+                    )}
                 </div>
             </div>
         </div>
@@ -537,9 +1905,55 @@ const App: React.FC = () => {
                         <span className="text-xs">Regenerate</span>
                     </button>
                  )}
+
+                 {previewData.messageId && !isBusy && (
+                    <button 
+                        onClick={() => { setEditTarget(previewData); setPreviewData(null); }}
+                        className="flex flex-col items-center gap-1 text-white/80 hover:text-[#00E0FF] transition-colors p-2"
+                    >
+                        <div className="p-3 rounded-full bg-white/10 hover:bg-white/20">
+                            <Wand2 size={24} />
+                        </div>
+                        <span className="text-xs">Edit</span>
+                    </button>
+                 )}
+
+                 {previewData.messageId && previewData.isGenerated && !isBusy && (
+                    <button 
+                        onClick={() => setShowVariationPicker(prev => !prev)}
+                        className={`flex flex-col items-center gap-1 transition-colors p-2 ${showVariationPicker ? 'text-[#00E0FF]' : 'text-white/80 hover:text-[#00E0FF]'}`}
+                    >
+                        <div className="p-3 rounded-full bg-white/10 hover:bg-white/20">
+                            <Layers size={24} />
+                        </div>
+                        <span className="text-xs">Variations</span>
+                    </button>
+                 )}
               </div>
+
+              {showVariationPicker && previewData.messageId && (
+                 <div className="mt-2 flex items-center gap-2 text-xs text-white/60 z-[70]" onClick={(e) => e.stopPropagation()}>
+                    <span>How many?</span>
+                    {Array.from({ length: MAX_EDIT_COUNT }, (_, i) => i + 1).map(n => (
+                        <button
+                            key={n}
+                            onClick={() => handleImageEdit(previewData.messageId!, previewData.attachmentId, { prompt: '', count: n })}
+                            className="w-8 h-8 rounded-full bg-white/10 hover:bg-[#00E0FF] hover:text-[#0D0221] transition-colors"
+                        >
+                            {n}
+                        </button>
+                    ))}
+                 </div>
+              )}
           </div>
       )}
+
+      <ImageEditor
+        isOpen={!!editTarget}
+        imageUrl={editTarget?.url || ''}
+        onClose={() => setEditTarget(null)}
+        onSubmit={(edit: ImageEditSubmission) => editTarget?.messageId && handleImageEdit(editTarget.messageId, editTarget.attachmentId, edit)}
+      />
     </div>
   );
 };
@@ -0,0 +1,111 @@
+import React from 'react';
+import { X, FileText, FileCode, Music, ZoomIn } from 'lucide-react';
+import { Attachment } from '../types';
+import { formatBytes } from '../services/attachments';
+
+interface AttachmentListProps {
+  attachments: Attachment[];
+  variant: 'input' | 'message';
+  onRemove?: (id: string) => void;
+  onImageClick?: (attachment: Attachment) => void;
+}
+
+const FileIcon: React.FC<{ attachment: Attachment; size: number }> = ({ attachment, size }) => {
+  switch (attachment.kind) {
+    case 'audio': return <Music size={size} className="text-pink-300 flex-shrink-0" />;
+    case 'text': return <FileCode size={size} className="text-emerald-300 flex-shrink-0" />;
+    default: return <FileText size={size} className="text-red-300 flex-shrink-0" />;
+  }
+};
+
+/**
+ * Attachments as a thumbnail strip: removable chips above the input, or the files shown
+ * inside a sent message (images open in the preview, audio gets a player).
+ */
+const AttachmentList: React.FC<AttachmentListProps> = ({ attachments, variant, onRemove, onImageClick }) => {
+  if (attachments.length === 0) return null;
+  const isInput = variant === 'input';
+  const images = attachments.filter(a => a.kind === 'image');
+  const files = attachments.filter(a => a.kind !== 'image');
+  // A single image in a message keeps its shape; several become a grid of squares
+  const isGrid = isInput || images.length > 1;
+  const thumbSize = isInput ? 'h-14 w-14' : isGrid ? 'h-32 w-32' : '';
+
+  return (
+    <div className={`flex flex-col gap-2 ${isInput ? '' : 'mb-2'}`}>
+      {images.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {images.map(image => (
+            <div
+              key={image.id}
+              className={`relative group rounded-lg overflow-hidden border border-white/20 select-none ${thumbSize} ${isInput ? '' : 'cursor-pointer'}`}
+              onClick={() => onImageClick?.(image)}
+              title={image.name}
+            >
+              <img
+                src={image.dataUrl}
+                alt={image.name}
+                className={isGrid ? 'h-full w-full object-cover' : 'max-w-full h-auto max-h-80 object-cover'}
+              />
+              {!isInput && (
+                <div className="absolute inset-0 bg-black/40 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center">
+                  <ZoomIn className="text-white" size={20} />
+                </div>
+              )}
+              {onRemove && (
+                <button
+                  onClick={(e) => { e.stopPropagation(); onRemove(image.id); }}
+                  className="absolute top-0.5 right-0.5 p-0.5 rounded-full bg-black/70 text-white/80 hover:text-red-400"
+                  title="Remove"
+                >
+                  <X size={12} />
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+      {files.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {files.map(file => (
+            <div
+              key={file.id}
+              className="flex flex-col gap-1 bg-[#0D0221]/80 border border-white/15 rounded-lg px-2 py-1.5 max-w-[240px]"
+            >
+              <div className="flex items-center gap-2 min-w-0">
+                <FileIcon attachment={file} size={16} />
+                {isInput ? (
+                  <span className="text-xs text-white/80 truncate" title={file.name}>{file.name}</span>
+                ) : (
+                  <a
+                    href={file.dataUrl}
+                    download={file.name}
+                    className="text-xs text-white/80 hover:text-[#00E0FF] truncate"
+                    title={`Download ${file.name}`}
+                  >
+                    {file.name}
+                  </a>
+                )}
+                <span className="text-[10px] text-white/40 flex-shrink-0">{formatBytes(file.size)}</span>
+                {onRemove && (
+                  <button
+                    onClick={() => onRemove(file.id)}
+                    className="text-white/50 hover:text-red-400 flex-shrink-0"
+                    title="Remove"
+                  >
+                    <X size={12} />
+                  </button>
+                )}
+              </div>
+              {!isInput && file.kind === 'audio' && (
+                <audio controls src={file.dataUrl} className="h-8 w-56" />
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AttachmentList;
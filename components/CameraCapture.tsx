@@ -0,0 +1,299 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, Camera, SwitchCamera, RotateCcw, Check, Crop, AlertCircle } from 'lucide-react';
+
+interface CameraCaptureProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onCapture: (dataUri: string) => void;
+}
+
+type FacingMode = 'user' | 'environment';
+
+// Crop rectangle in fractions of the captured frame (0..1)
+interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Frames are downscaled so photos stay a reasonable size to store and send
+const MAX_DIMENSION = 1600;
+const JPEG_QUALITY = 0.9;
+const MIN_CROP = 0.05;
+
+const CAMERA_ERRORS: Record<string, string> = {
+  NotAllowedError: 'Camera access was blocked. Allow it in your browser settings.',
+  NotFoundError: 'No camera was found on this device.',
+  NotReadableError: 'The camera is being used by another app.',
+  OverconstrainedError: 'This camera is not available.',
+};
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+/**
+ * Draws a region of a source onto a canvas no larger than MAX_DIMENSION and returns it as JPEG.
+ */
+const renderFrame = (
+  source: CanvasImageSource,
+  sourceWidth: number,
+  sourceHeight: number,
+  crop: CropRect = { x: 0, y: 0, width: 1, height: 1 }
+): string => {
+  const sx = crop.x * sourceWidth;
+  const sy = crop.y * sourceHeight;
+  const sw = crop.width * sourceWidth;
+  const sh = crop.height * sourceHeight;
+  const scale = Math.min(1, MAX_DIMENSION / Math.max(sw, sh));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(sw * scale);
+  canvas.height = Math.round(sh * scale);
+  canvas.getContext('2d')!.drawImage(source, sx, sy, sw, sh, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/jpeg', JPEG_QUALITY);
+};
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = reject;
+    image.src = src;
+  });
+
+const CameraCapture: React.FC<CameraCaptureProps> = ({ isOpen, onClose, onCapture }) => {
+  const [facingMode, setFacingMode] = useState<FacingMode>('environment');
+  const [hasMultipleCameras, setHasMultipleCameras] = useState(false);
+  const [photo, setPhoto] = useState<string | null>(null);
+  const [crop, setCrop] = useState<CropRect | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isStarting, setIsStarting] = useState(false);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const photoRef = useRef<HTMLDivElement>(null);
+  const dragStartRef = useRef<{ x: number; y: number } | null>(null);
+
+  // The stream only runs while the live preview is showing
+  useEffect(() => {
+    if (!isOpen || photo) return;
+    if (!navigator.mediaDevices?.getUserMedia) {
+      setError('Camera capture is not supported in this browser.');
+      return;
+    }
+    let stream: MediaStream | null = null;
+    let cancelled = false;
+    setIsStarting(true);
+    setError(null);
+    navigator.mediaDevices.getUserMedia({ video: { facingMode, width: { ideal: 1920 }, height: { ideal: 1080 } }, audio: false })
+      .then(async mediaStream => {
+        if (cancelled) {
+          mediaStream.getTracks().forEach(track => track.stop());
+          return;
+        }
+        stream = mediaStream;
+        if (videoRef.current) {
+          videoRef.current.srcObject = mediaStream;
+          await videoRef.current.play().catch(() => {});
+        }
+        // Device labels and counts are only reliable once permission is granted
+        const devices = await navigator.mediaDevices.enumerateDevices();
+        setHasMultipleCameras(devices.filter(d => d.kind === 'videoinput').length > 1);
+      })
+      .catch(err => {
+        console.error("Camera start failed:", err);
+        setError(CAMERA_ERRORS[err?.name] || 'Could not start the camera.');
+      })
+      .finally(() => {
+        if (!cancelled) setIsStarting(false);
+      });
+    return () => {
+      cancelled = true;
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, [isOpen, photo, facingMode]);
+
+  // Start fresh each time the modal opens
+  useEffect(() => {
+    if (!isOpen) {
+      setPhoto(null);
+      setCrop(null);
+      setError(null);
+    }
+  }, [isOpen]);
+
+  const handleCapture = () => {
+    const video = videoRef.current;
+    if (!video || !video.videoWidth) return;
+    setPhoto(renderFrame(video, video.videoWidth, video.videoHeight));
+    setCrop(null);
+  };
+
+  const handleRetake = () => {
+    setPhoto(null);
+    setCrop(null);
+  };
+
+  const handleUsePhoto = async () => {
+    if (!photo) return;
+    if (!crop) {
+      onCapture(photo);
+      return;
+    }
+    const image = await loadImage(photo);
+    onCapture(renderFrame(image, image.naturalWidth, image.naturalHeight, crop));
+  };
+
+  // --- Crop selection (drag across the captured photo) ---
+
+  const pointerPosition = (e: React.PointerEvent) => {
+    const rect = photoRef.current!.getBoundingClientRect();
+    return { x: clamp((e.clientX - rect.left) / rect.width), y: clamp((e.clientY - rect.top) / rect.height) };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragStartRef.current = pointerPosition(e);
+    setCrop(null);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const start = dragStartRef.current;
+    if (!start) return;
+    const current = pointerPosition(e);
+    setCrop({
+      x: Math.min(start.x, current.x),
+      y: Math.min(start.y, current.y),
+      width: Math.abs(current.x - start.x),
+      height: Math.abs(current.y - start.y),
+    });
+  };
+
+  const handlePointerUp = () => {
+    dragStartRef.current = null;
+    // A click or tiny drag clears the selection instead of cropping to a sliver
+    setCrop(prev => prev && (prev.width < MIN_CROP || prev.height < MIN_CROP) ? null : prev);
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <AnimatePresence>
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        className="fixed inset-0 z-[70] flex items-center justify-center bg-black/90 backdrop-blur-sm p-4"
+      >
+        <motion.div
+          initial={{ scale: 0.9, opacity: 0, y: 20 }}
+          animate={{ scale: 1, opacity: 1, y: 0 }}
+          exit={{ scale: 0.9, opacity: 0, y: 20 }}
+          className="w-full max-w-2xl bg-[#0D0221] border border-white/20 rounded-2xl shadow-2xl overflow-hidden relative"
+        >
+          <div className="flex items-center justify-between px-4 py-3 border-b border-white/10">
+            <div className="flex items-center gap-2 text-[#00E0FF]">
+              <Camera size={18} />
+              <span className="font-semibold text-sm">{photo ? 'Crop & confirm' : 'Take a photo'}</span>
+            </div>
+            <button onClick={onClose} className="text-white/40 hover:text-white transition-colors">
+              <X size={20} />
+            </button>
+          </div>
+
+          <div className="relative bg-black flex items-center justify-center min-h-[240px] max-h-[65vh]">
+            {error ? (
+              <div className="flex items-center gap-2 m-6 p-3 rounded-xl bg-red-500/10 border border-red-500/30 text-red-300 text-sm">
+                <AlertCircle size={16} className="flex-shrink-0" />
+                <span>{error}</span>
+              </div>
+            ) : photo ? (
+              <div
+                ref={photoRef}
+                className="relative select-none touch-none cursor-crosshair"
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+              >
+                <img src={photo} alt="Captured" className="max-w-full max-h-[65vh] object-contain pointer-events-none" draggable={false} />
+                {crop && (
+                  <div
+                    className="absolute border-2 border-[#00E0FF] shadow-[0_0_0_9999px_rgba(0,0,0,0.55)] pointer-events-none"
+                    style={{
+                      left: `${crop.x * 100}%`,
+                      top: `${crop.y * 100}%`,
+                      width: `${crop.width * 100}%`,
+                      height: `${crop.height * 100}%`,
+                    }}
+                  />
+                )}
+              </div>
+            ) : (
+              <>
+                <video
+                  ref={videoRef}
+                  playsInline
+                  muted
+                  // Mirror the selfie preview like a mirror would; the captured photo is not mirrored
+                  className={`max-w-full max-h-[65vh] object-contain ${facingMode === 'user' ? '-scale-x-100' : ''}`}
+                />
+                {isStarting && (
+                  <span className="absolute text-sm text-white/60 animate-pulse">Starting camera…</span>
+                )}
+              </>
+            )}
+          </div>
+
+          <div className="flex items-center justify-between gap-3 px-4 py-4">
+            {photo ? (
+              <>
+                <button
+                  onClick={handleRetake}
+                  className="flex items-center gap-2 px-4 py-2 rounded-xl text-sm text-white/80 hover:bg-white/10 transition-colors"
+                >
+                  <RotateCcw size={16} />
+                  Retake
+                </button>
+                <span className="flex items-center gap-1 text-xs text-white/40">
+                  <Crop size={12} />
+                  {crop ? (
+                    <button onClick={() => setCrop(null)} className="underline hover:text-white">Clear crop</button>
+                  ) : 'Drag to crop'}
+                </span>
+                <button
+                  onClick={handleUsePhoto}
+                  className="flex items-center gap-2 px-4 py-2 rounded-xl text-sm bg-[#00E0FF] text-[#0D0221] font-medium shadow-[0_0_15px_#00E0FF] transition-all"
+                >
+                  <Check size={16} />
+                  Use Photo
+                </button>
+              </>
+            ) : (
+              <>
+                <div className="w-10">
+                  {hasMultipleCameras && (
+                    <button
+                      onClick={() => setFacingMode(mode => mode === 'user' ? 'environment' : 'user')}
+                      disabled={isStarting}
+                      className="p-2 rounded-full text-white/70 hover:text-[#00E0FF] hover:bg-white/10 disabled:opacity-40 transition-colors"
+                      title="Switch camera"
+                    >
+                      <SwitchCamera size={22} />
+                    </button>
+                  )}
+                </div>
+                <button
+                  onClick={handleCapture}
+                  disabled={isStarting || !!error}
+                  className="w-16 h-16 rounded-full border-4 border-white/80 bg-white/20 hover:bg-[#00E0FF]/40 hover:border-[#00E0FF] disabled:opacity-30 transition-all"
+                  title="Capture"
+                />
+                <div className="w-10" />
+              </>
+            )}
+          </div>
+        </motion.div>
+      </motion.div>
+    </AnimatePresence>
+  );
+};
+
+export default CameraCapture;
@@ -0,0 +1,58 @@
+import React from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, FileText } from 'lucide-react';
+import { Citation } from '../types';
+import { describeCitation } from '../services/documents';
+
+interface CitationViewerProps {
+  citation: Citation | null;
+  // False once the document has been removed from the chat
+  isDocumentAvailable: boolean;
+  onClose: () => void;
+}
+
+/**
+ * The passage a reply cited, as it was sent to the model.
+ */
+const CitationViewer: React.FC<CitationViewerProps> = ({ citation, isDocumentAvailable, onClose }) => (
+  <AnimatePresence>
+    {citation && (
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        className="fixed inset-0 z-[70] flex items-center justify-center bg-black/80 backdrop-blur-sm p-4"
+        onClick={onClose}
+      >
+        <motion.div
+          initial={{ scale: 0.9, opacity: 0, y: 20 }}
+          animate={{ scale: 1, opacity: 1, y: 0 }}
+          exit={{ scale: 0.9, opacity: 0, y: 20 }}
+          className="w-full max-w-xl max-h-[80vh] bg-[#0D0221] border border-white/20 rounded-2xl shadow-2xl overflow-hidden flex flex-col"
+          onClick={(e) => e.stopPropagation()}
+        >
+          <div className="flex items-center justify-between gap-3 px-5 py-4 border-b border-white/10">
+            <h2 className="flex items-center gap-2 min-w-0 text-base font-poppins font-bold text-white">
+              <span className="shrink-0 px-1.5 rounded text-sm text-[#0D0221] bg-[#00E0FF]">{citation.marker}</span>
+              <FileText size={18} className="shrink-0 text-[#00E0FF]" />
+              <span className="truncate">{describeCitation(citation)}</span>
+            </h2>
+            <button onClick={onClose} className="text-white/40 hover:text-white transition-colors">
+              <X size={20} />
+            </button>
+          </div>
+          <div className="flex-1 p-5 overflow-y-auto">
+            <p className="text-sm text-gray-200 whitespace-pre-wrap leading-relaxed">{citation.text}</p>
+          </div>
+          {!isDocumentAvailable && (
+            <p className="px-5 py-3 border-t border-white/10 text-xs text-white/40">
+              This document has since been removed from the chat.
+            </p>
+          )}
+        </motion.div>
+      </motion.div>
+    )}
+  </AnimatePresence>
+);
+
+export default CitationViewer;
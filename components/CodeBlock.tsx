@@ -0,0 +1,96 @@
+import React, { useState, useEffect } from 'react';
+import { Copy, Check, Download, Loader2 } from 'lucide-react';
+import { codeFileName, renderMermaid } from '../services/markdown';
+import { downloadBlob } from '../services/transfer';
+
+interface CodeBlockProps {
+  language?: string;
+  code: string; // Plain source, for copying, downloading and drawing
+  isStreaming?: boolean; // Still being written; diagrams wait until it is complete
+  children: React.ReactNode; // The highlighted <code> element
+}
+
+const MermaidDiagram: React.FC<{ source: string; fallback: React.ReactNode }> = ({ source, fallback }) => {
+  const [svg, setSvg] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setSvg(null);
+    setError(null);
+    renderMermaid(source)
+      .then(result => { if (!cancelled) setSvg(result); })
+      .catch(err => { if (!cancelled) setError(err instanceof Error ? err.message : String(err)); });
+    return () => { cancelled = true; };
+  }, [source]);
+
+  if (error) {
+    return (
+      <>
+        <p className="px-3 pt-2 text-xs text-red-300">Couldn't draw this diagram: {error.split('\n')[0]}</p>
+        {fallback}
+      </>
+    );
+  }
+  if (!svg) {
+    return (
+      <p className="flex items-center gap-2 p-3 text-xs text-white/50">
+        <Loader2 size={12} className="animate-spin" /> Drawing diagram…
+      </p>
+    );
+  }
+  // Mermaid's strict mode sanitizes the SVG it returns
+  return <div className="p-3 overflow-x-auto flex justify-center [&_svg]:max-w-full" dangerouslySetInnerHTML={{ __html: svg }} />;
+};
+
+/**
+ * A fenced code block with its language and buttons to copy or download it. Mermaid blocks
+ * are drawn as diagrams once the reply is complete.
+ */
+const CodeBlock: React.FC<CodeBlockProps> = ({ language, code, isStreaming, children }) => {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(code);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error("Copy failed:", error);
+    }
+  };
+
+  const handleDownload = () => {
+    downloadBlob({ blob: new Blob([code], { type: 'text/plain;charset=utf-8' }), filename: codeFileName(language) });
+  };
+
+  const source = <pre className="p-3 overflow-x-auto text-[13px] leading-relaxed">{children}</pre>;
+
+  return (
+    <div className="my-3 rounded-xl overflow-hidden border border-white/10 bg-[#0a0118] select-text">
+      <div className="flex items-center justify-between gap-2 px-3 py-1 bg-white/5 border-b border-white/10 text-[11px] text-white/50">
+        <span className="font-mono">{language || 'text'}</span>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={handleCopy}
+            className="flex items-center gap-1 px-1.5 py-1 rounded hover:text-white hover:bg-white/10 transition-colors"
+            title="Copy code"
+          >
+            {copied ? <Check size={12} className="text-[#00E0FF]" /> : <Copy size={12} />}
+            {copied ? 'Copied' : 'Copy'}
+          </button>
+          <button
+            onClick={handleDownload}
+            className="flex items-center gap-1 px-1.5 py-1 rounded hover:text-white hover:bg-white/10 transition-colors"
+            title={`Download as ${codeFileName(language)}`}
+          >
+            <Download size={12} />
+          </button>
+        </div>
+      </div>
+      {language === 'mermaid' && !isStreaming ? <MermaidDiagram source={code} fallback={source} /> : source}
+    </div>
+  );
+};
+
+export default CodeBlock;
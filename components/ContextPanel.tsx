@@ -0,0 +1,137 @@
+import React from 'react';
+import { Gauge, X, Brain } from 'lucide-react';
+import { ContextPlan, ContextSettings, CONTEXT_BUDGETS, IMAGE_TURN_OPTIONS, formatTokens } from '../services/context';
+
+interface ContextPanelProps {
+  plan: ContextPlan;
+  totalMessages: number;
+  settings: ContextSettings;
+  onChange: (settings: ContextSettings) => void;
+  memoryEnabled: boolean; // For this chat
+  memoryCount: number;
+  onToggleMemory: () => void;
+  onManageMemories: () => void;
+  onClose: () => void;
+}
+
+/**
+ * How much of the current thread the model sees, and the settings that decide it.
+ */
+const ContextPanel: React.FC<ContextPanelProps> = ({
+  plan,
+  totalMessages,
+  settings,
+  onChange,
+  memoryEnabled,
+  memoryCount,
+  onToggleMemory,
+  onManageMemories,
+  onClose
+}) => {
+  const update = (patch: Partial<ContextSettings>) => onChange({ ...settings, ...patch });
+  const percent = Math.min(100, Math.round((plan.tokens / settings.budgetTokens) * 100));
+
+  let olderStatus = 'The whole conversation fits.';
+  if (plan.excluded.length > 0) {
+    if (!settings.summarize) olderStatus = `${plan.excluded.length} older messages aren't sent.`;
+    else if (plan.unsummarized.length > 0) olderStatus = `${plan.excluded.length} older messages will be summarized with your next message.`;
+    else olderStatus = `${plan.excluded.length} older messages are sent as a summary.`;
+  }
+
+  return (
+    <div
+      className="absolute right-0 top-12 z-30 w-72 bg-[#0D0221]/95 border border-white/15 rounded-xl shadow-[0_0_20px_rgba(0,224,255,0.1)] backdrop-blur-md p-4 text-sm animate-[fadeIn_0.2s_ease-out]"
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-2 text-[#00E0FF]">
+          <Gauge size={16} />
+          <span className="font-semibold">Context</span>
+        </div>
+        <button onClick={onClose} className="text-white/40 hover:text-white transition-colors">
+          <X size={14} />
+        </button>
+      </div>
+
+      <div className="mb-1 flex justify-between text-xs text-white/60">
+        <span>Xeno sees {plan.messages.length} of {totalMessages} messages</span>
+        <span>~{formatTokens(plan.tokens)} / {formatTokens(settings.budgetTokens)}</span>
+      </div>
+      <div className="h-1.5 mb-2 rounded-full bg-white/10 overflow-hidden">
+        <div
+          className={`h-full rounded-full ${percent > 90 ? 'bg-amber-400' : 'bg-[#00E0FF]'}`}
+          style={{ width: `${percent}%` }}
+        />
+      </div>
+      <p className="text-[11px] text-white/40 mb-1">{olderStatus}</p>
+      {plan.droppedImages > 0 && (
+        <p className="text-[11px] text-white/40 mb-1">{plan.droppedImages} older image(s) are mentioned by name only.</p>
+      )}
+
+      <label className="block text-xs text-white/50 mt-3 mb-1">Context budget</label>
+      <select
+        value={settings.budgetTokens}
+        onChange={(e) => update({ budgetTokens: Number(e.target.value) })}
+        className="w-full mb-3 bg-white/5 border border-white/10 rounded-lg px-2 py-1.5 focus:outline-none focus:border-[#00E0FF]/50"
+      >
+        {CONTEXT_BUDGETS.map(budget => (
+          <option key={budget} value={budget} className="bg-[#0D0221]">{formatTokens(budget)} tokens</option>
+        ))}
+      </select>
+
+      <label className="block text-xs text-white/50 mb-1">Send images from</label>
+      <select
+        value={settings.keepImagesForTurns}
+        onChange={(e) => update({ keepImagesForTurns: Number(e.target.value) })}
+        className="w-full mb-3 bg-white/5 border border-white/10 rounded-lg px-2 py-1.5 focus:outline-none focus:border-[#00E0FF]/50"
+      >
+        {IMAGE_TURN_OPTIONS.map(turns => (
+          <option key={turns} value={turns} className="bg-[#0D0221]">
+            {turns === 0 ? 'The whole conversation' : `The last ${turns} turn${turns === 1 ? '' : 's'}`}
+          </option>
+        ))}
+      </select>
+
+      <label className="flex items-start gap-2 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={settings.summarize}
+          onChange={(e) => update({ summarize: e.target.checked })}
+          className="mt-0.5 accent-[#00E0FF]"
+        />
+        <span>
+          <span className="block">Summarize older messages</span>
+          <span className="block text-[11px] text-white/40">
+            Messages that no longer fit are folded into a running summary that Xeno keeps seeing.
+          </span>
+        </span>
+      </label>
+
+      <div className="mt-3 pt-3 border-t border-white/10">
+        <label className="flex items-start gap-2 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={memoryEnabled}
+            onChange={onToggleMemory}
+            className="mt-0.5 accent-[#00E0FF]"
+          />
+          <span>
+            <span className="block">Use memory in this chat</span>
+            <span className="block text-[11px] text-white/40">
+              Xeno recalls what it learned about you in other chats and keeps learning here. Off for private chats.
+            </span>
+          </span>
+        </label>
+        <button
+          onClick={onManageMemories}
+          className="mt-2 flex items-center gap-1.5 text-xs text-white/50 hover:text-[#00E0FF] transition-colors"
+        >
+          <Brain size={14} />
+          Manage memories ({memoryCount})
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ContextPanel;
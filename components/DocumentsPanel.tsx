@@ -0,0 +1,151 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, FileSearch, FileText, Upload, Trash2, Loader2, AlertCircle } from 'lucide-react';
+import { SessionDocument } from '../types';
+import { formatBytes } from '../services/attachments';
+import { DOCUMENT_FILE_TYPES } from '../services/documents';
+
+interface DocumentsPanelProps {
+  isOpen: boolean;
+  documents: SessionDocument[];
+  // Resolves with the files that couldn't be added, explained
+  onAdd: (files: File[]) => Promise<string[]>;
+  onRemove: (documentId: string) => void;
+  onClose: () => void;
+}
+
+const DocumentStatusLine: React.FC<{ document: SessionDocument }> = ({ document }) => {
+  switch (document.status) {
+    case 'indexing':
+      return (
+        <span className="flex items-center gap-1 text-[#00E0FF]">
+          <Loader2 size={11} className="animate-spin" /> Indexing…
+        </span>
+      );
+    case 'error':
+      return (
+        <span className="flex items-center gap-1 text-red-300">
+          <AlertCircle size={11} /> {document.error || "Couldn't index this file."}
+        </span>
+      );
+    default:
+      return <span>{document.chunkCount} passages · {formatBytes(document.size)}</span>;
+  }
+};
+
+/**
+ * The files a chat answers from. They are indexed in the browser; each message then
+ * searches them and sends the best passages along.
+ */
+const DocumentsPanel: React.FC<DocumentsPanelProps> = ({ isOpen, documents, onAdd, onRemove, onClose }) => {
+  const [errors, setErrors] = useState<string[]>([]);
+  const [isDragging, setIsDragging] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (isOpen) setErrors([]);
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const addFiles = async (files: File[]) => {
+    if (files.length === 0) return;
+    setErrors(await onAdd(files));
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    addFiles(Array.from(e.dataTransfer.files));
+  };
+
+  return (
+    <AnimatePresence>
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        className="fixed inset-0 z-[70] flex items-center justify-center bg-black/80 backdrop-blur-sm p-4"
+      >
+        <motion.div
+          initial={{ scale: 0.9, opacity: 0, y: 20 }}
+          animate={{ scale: 1, opacity: 1, y: 0 }}
+          exit={{ scale: 0.9, opacity: 0, y: 20 }}
+          className="w-full max-w-xl max-h-[90vh] bg-[#0D0221] border border-white/20 rounded-2xl shadow-2xl overflow-hidden relative flex flex-col"
+        >
+          <div className="flex items-center justify-between px-5 py-4 border-b border-white/10">
+            <h2 className="flex items-center gap-2 text-lg font-poppins font-bold text-white">
+              <FileSearch size={20} className="text-[#00E0FF]" />
+              Chat documents
+            </h2>
+            <button onClick={onClose} className="text-white/40 hover:text-white transition-colors">
+              <X size={20} />
+            </button>
+          </div>
+
+          <div className="flex-1 p-5 space-y-3 overflow-y-auto">
+            <p className="text-xs text-white/50">
+              Xeno searches these files for every message in this chat and cites the passages it uses. They are indexed and stored only in this browser; the passages found are sent with your message.
+            </p>
+
+            <div
+              onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+              onDragLeave={() => setIsDragging(false)}
+              onDrop={handleDrop}
+              onClick={() => inputRef.current?.click()}
+              className={`flex flex-col items-center gap-2 p-6 rounded-xl border-2 border-dashed cursor-pointer transition-colors ${isDragging ? 'border-[#00E0FF] bg-[#00E0FF]/10' : 'border-white/15 hover:border-[#00E0FF]/50'}`}
+            >
+              <Upload size={24} className="text-[#00E0FF]" />
+              <p className="text-sm text-white/80">Drop PDFs or text files here, or click to choose</p>
+              <input
+                ref={inputRef}
+                type="file"
+                className="hidden"
+                accept={DOCUMENT_FILE_TYPES}
+                multiple
+                onChange={(e) => {
+                  const files = Array.from(e.target.files || []);
+                  e.target.value = '';
+                  addFiles(files);
+                }}
+              />
+            </div>
+
+            {errors.map(error => (
+              <p key={error} className="flex items-start gap-2 text-xs text-red-300">
+                <AlertCircle size={14} className="shrink-0 mt-0.5" />
+                {error}
+              </p>
+            ))}
+
+            {documents.length === 0 && (
+              <p className="text-sm text-white/40 text-center py-4">No documents in this chat yet.</p>
+            )}
+
+            {documents.map(document => (
+              <div key={document.id} className="flex items-start gap-3 p-3 rounded-lg bg-white/5 border border-white/10">
+                <FileText size={18} className="text-white/50 shrink-0 mt-0.5" />
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm text-white truncate" title={document.name}>{document.name}</p>
+                  <div className="text-[11px] text-white/40 mt-0.5">
+                    <DocumentStatusLine document={document} />
+                  </div>
+                </div>
+                <button
+                  onClick={() => onRemove(document.id)}
+                  disabled={document.status === 'indexing'}
+                  className="p-1.5 text-white/40 hover:text-red-400 rounded disabled:opacity-30"
+                  title="Remove"
+                >
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            ))}
+          </div>
+        </motion.div>
+      </motion.div>
+    </AnimatePresence>
+  );
+};
+
+export default DocumentsPanel;
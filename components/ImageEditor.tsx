@@ -0,0 +1,240 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, Brush, Eraser, Trash2, Wand2 } from 'lucide-react';
+import { MAX_EDIT_COUNT } from '../services/imageEdit';
+
+export interface ImageEditSubmission {
+  prompt: string;
+  mask?: string;
+  count: number;
+}
+
+interface ImageEditorProps {
+  isOpen: boolean;
+  imageUrl: string;
+  onClose: () => void;
+  onSubmit: (edit: ImageEditSubmission) => void;
+}
+
+const MASK_COLOR = '#00E0FF';
+
+/**
+ * Edit instructions for an image, with an optional mask painted over the region to change.
+ * The mask canvas matches the image's natural size so it lines up for the model.
+ */
+const ImageEditor: React.FC<ImageEditorProps> = ({ isOpen, imageUrl, onClose, onSubmit }) => {
+  const [prompt, setPrompt] = useState('');
+  const [count, setCount] = useState(1);
+  const [tool, setTool] = useState<'brush' | 'eraser'>('brush');
+  const [brushSize, setBrushSize] = useState(40);
+  const [hasMask, setHasMask] = useState(false);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const lastPointRef = useRef<{ x: number; y: number } | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setPrompt('');
+    setCount(1);
+    setTool('brush');
+    setHasMask(false);
+  }, [isOpen, imageUrl]);
+
+  const handleImageLoad = (e: React.SyntheticEvent<HTMLImageElement>) => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    canvas.width = e.currentTarget.naturalWidth;
+    canvas.height = e.currentTarget.naturalHeight;
+  };
+
+  // Pointer position in canvas pixels, plus the display-to-canvas scale
+  const toCanvasPoint = (e: React.PointerEvent) => {
+    const canvas = canvasRef.current!;
+    const rect = canvas.getBoundingClientRect();
+    const scale = canvas.width / rect.width;
+    return { x: (e.clientX - rect.left) * scale, y: (e.clientY - rect.top) * scale, scale };
+  };
+
+  const paint = (e: React.PointerEvent) => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    const { x, y, scale } = toCanvasPoint(e);
+    const from = lastPointRef.current || { x, y };
+    ctx.globalCompositeOperation = tool === 'eraser' ? 'destination-out' : 'source-over';
+    ctx.strokeStyle = MASK_COLOR;
+    ctx.lineWidth = brushSize * scale;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(x, y);
+    ctx.stroke();
+    lastPointRef.current = { x, y };
+    if (tool === 'brush') setHasMask(true);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    lastPointRef.current = null;
+    paint(e);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (lastPointRef.current) paint(e);
+  };
+
+  const handlePointerUp = () => {
+    lastPointRef.current = null;
+    // Erasing may have removed the whole mask
+    if (tool === 'eraser') setHasMask(isCanvasPainted());
+  };
+
+  const isCanvasPainted = () => {
+    const canvas = canvasRef.current;
+    if (!canvas || !canvas.width) return false;
+    const pixels = canvas.getContext('2d')!.getImageData(0, 0, canvas.width, canvas.height).data;
+    for (let i = 3; i < pixels.length; i += 4) {
+      if (pixels[i] > 0) return true;
+    }
+    return false;
+  };
+
+  const handleClearMask = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+    setHasMask(false);
+  };
+
+  const handleSubmit = () => {
+    if (!prompt.trim() && !hasMask) return;
+    onSubmit({
+      prompt: prompt.trim(),
+      mask: hasMask ? canvasRef.current!.toDataURL('image/png') : undefined,
+      count,
+    });
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <AnimatePresence>
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        className="fixed inset-0 z-[70] flex items-center justify-center bg-black/90 backdrop-blur-sm p-4"
+      >
+        <motion.div
+          initial={{ scale: 0.9, opacity: 0, y: 20 }}
+          animate={{ scale: 1, opacity: 1, y: 0 }}
+          exit={{ scale: 0.9, opacity: 0, y: 20 }}
+          className="w-full max-w-3xl bg-[#0D0221] border border-white/20 rounded-2xl shadow-2xl overflow-hidden relative"
+        >
+          <div className="flex items-center justify-between px-4 py-3 border-b border-white/10">
+            <div className="flex items-center gap-2 text-[#00E0FF]">
+              <Wand2 size={18} />
+              <span className="font-semibold text-sm">Edit image</span>
+            </div>
+            <button onClick={onClose} className="text-white/40 hover:text-white transition-colors">
+              <X size={20} />
+            </button>
+          </div>
+
+          {/* Image with the mask canvas laid over it */}
+          <div className="bg-black flex items-center justify-center p-2">
+            <div className="relative inline-block">
+              <img
+                src={imageUrl}
+                alt="Image to edit"
+                onLoad={handleImageLoad}
+                className="max-w-full max-h-[50vh] object-contain select-none pointer-events-none"
+                draggable={false}
+              />
+              <canvas
+                ref={canvasRef}
+                className="absolute inset-0 w-full h-full opacity-60 touch-none cursor-crosshair"
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerCancel={handlePointerUp}
+              />
+            </div>
+          </div>
+
+          <div className="p-4 space-y-3">
+            <div className="flex flex-wrap items-center gap-3 text-xs text-white/60">
+              <span>Paint over the area to change (optional):</span>
+              <div className="flex rounded-lg border border-white/10 overflow-hidden">
+                <button
+                  onClick={() => setTool('brush')}
+                  className={`p-1.5 ${tool === 'brush' ? 'bg-[#00E0FF]/20 text-[#00E0FF]' : 'hover:bg-white/10'}`}
+                  title="Brush"
+                >
+                  <Brush size={14} />
+                </button>
+                <button
+                  onClick={() => setTool('eraser')}
+                  className={`p-1.5 ${tool === 'eraser' ? 'bg-[#00E0FF]/20 text-[#00E0FF]' : 'hover:bg-white/10'}`}
+                  title="Eraser"
+                >
+                  <Eraser size={14} />
+                </button>
+              </div>
+              <label className="flex items-center gap-2">
+                Size
+                <input
+                  type="range"
+                  min={8}
+                  max={120}
+                  value={brushSize}
+                  onChange={(e) => setBrushSize(Number(e.target.value))}
+                  className="w-24 accent-[#00E0FF]"
+                />
+              </label>
+              <button
+                onClick={handleClearMask}
+                disabled={!hasMask}
+                className="flex items-center gap-1 hover:text-red-300 disabled:opacity-30 transition-colors"
+              >
+                <Trash2 size={12} />
+                Clear
+              </button>
+            </div>
+
+            <textarea
+              value={prompt}
+              onChange={(e) => setPrompt(e.target.value)}
+              placeholder={hasMask ? "What should go in the painted area? (leave empty to just clean it up)" : "Describe the change, e.g. \"make it a watercolor painting\""}
+              rows={2}
+              className="w-full bg-white/5 border border-white/10 rounded-xl px-3 py-2 text-sm text-white placeholder-white/30 focus:outline-none focus:border-[#00E0FF]/50 resize-none"
+            />
+
+            <div className="flex items-center justify-between gap-3">
+              <label className="flex items-center gap-2 text-xs text-white/60">
+                Results
+                <select
+                  value={count}
+                  onChange={(e) => setCount(Number(e.target.value))}
+                  className="bg-white/5 border border-white/10 rounded-lg px-2 py-1 focus:outline-none"
+                >
+                  {Array.from({ length: MAX_EDIT_COUNT }, (_, i) => i + 1).map(n => (
+                    <option key={n} value={n} className="bg-[#0D0221]">{n}</option>
+                  ))}
+                </select>
+              </label>
+              <button
+                onClick={handleSubmit}
+                disabled={!prompt.trim() && !hasMask}
+                className="flex items-center gap-2 px-4 py-2 rounded-xl text-sm bg-[#00E0FF] text-[#0D0221] font-medium shadow-[0_0_15px_#00E0FF] disabled:opacity-40 disabled:shadow-none transition-all"
+              >
+                <Wand2 size={16} />
+                {hasMask ? 'Inpaint' : 'Apply Edit'}
+              </button>
+            </div>
+          </div>
+        </motion.div>
+      </motion.div>
+    </AnimatePresence>
+  );
+};
+
+export default ImageEditor;
@@ -0,0 +1,79 @@
+import React from 'react';
+import { ImageGenerationOptions, ImageFormat } from '../types';
+import { ASPECT_RATIOS, IMAGE_FORMATS, MAX_IMAGE_COUNT, STYLE_PRESETS } from '../services/imageOptions';
+
+interface ImageOptionsPanelProps {
+  options: ImageGenerationOptions;
+  onChange: (options: ImageGenerationOptions) => void;
+}
+
+const chipClass = (active: boolean) =>
+  `px-2 py-1 rounded-md text-xs border transition-colors ${active
+    ? 'bg-[#00E0FF]/20 border-[#00E0FF]/60 text-[#00E0FF]'
+    : 'border-white/10 text-white/60 hover:text-white hover:bg-white/10'}`;
+
+/**
+ * Controls for the next generated image: shape, how many, file format, style and exclusions.
+ */
+const ImageOptionsPanel: React.FC<ImageOptionsPanelProps> = ({ options, onChange }) => {
+  const update = (patch: Partial<ImageGenerationOptions>) => onChange({ ...options, ...patch });
+
+  return (
+    <div className="space-y-2 text-xs text-white/60">
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-2">
+        <div className="flex items-center gap-1">
+          <span className="mr-1">Shape</span>
+          {ASPECT_RATIOS.map(ratio => (
+            <button key={ratio} onClick={() => update({ aspectRatio: ratio })} className={chipClass(options.aspectRatio === ratio)}>
+              {ratio}
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center gap-1">
+          <span className="mr-1">Images</span>
+          {Array.from({ length: MAX_IMAGE_COUNT }, (_, i) => i + 1).map(n => (
+            <button key={n} onClick={() => update({ count: n })} className={chipClass(options.count === n)}>
+              {n}
+            </button>
+          ))}
+        </div>
+        <label className="flex items-center gap-1">
+          <span className="mr-1">Format</span>
+          <select
+            value={options.format}
+            onChange={(e) => update({ format: e.target.value as ImageFormat })}
+            className="bg-white/5 border border-white/10 rounded-md px-2 py-1 focus:outline-none"
+          >
+            {IMAGE_FORMATS.map(format => (
+              <option key={format} value={format} className="bg-[#0D0221]">{format.toUpperCase()}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <div className="flex items-center gap-1 overflow-x-auto scrollbar-none">
+        <span className="mr-1 flex-shrink-0">Style</span>
+        {STYLE_PRESETS.map(preset => (
+          <button
+            key={preset.id}
+            onClick={() => update({ style: preset.id })}
+            className={`${chipClass(options.style === preset.id)} flex-shrink-0`}
+            title={preset.prompt || 'Use the description as typed'}
+          >
+            {preset.label}
+          </button>
+        ))}
+      </div>
+
+      <input
+        type="text"
+        value={options.negativePrompt || ''}
+        onChange={(e) => update({ negativePrompt: e.target.value || undefined })}
+        placeholder="Leave out… (e.g. text, watermarks, blurry)"
+        className="w-full bg-white/5 border border-white/10 rounded-md px-2 py-1.5 text-white placeholder-white/30 focus:outline-none focus:border-[#00E0FF]/50"
+      />
+    </div>
+  );
+};
+
+export default ImageOptionsPanel;
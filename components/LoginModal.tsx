@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { X, Mail, Lock } from 'lucide-react';
+import { X, Mail, Lock, AlertCircle } from 'lucide-react';
+import { loginWithPassword, startOidcLogin } from '../services/auth';
 
 interface LoginModalProps {
   isOpen: boolean;
@@ -12,23 +13,33 @@ const LoginModal: React.FC<LoginModalProps> = ({ isOpen, onClose, onLogin }) =>
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
 
-  const handleLoginSubmit = (e: React.FormEvent) => {
+  const handleLoginSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsLoading(true);
-    // Simulate network request
-    setTimeout(() => {
-      setIsLoading(false);
+    setError(null);
+    try {
+      await loginWithPassword(email, password);
+      setPassword('');
       onLogin();
-    }, 1000);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Login failed');
+    } finally {
+      setIsLoading(false);
+    }
   };
 
-  const handleGoogleLogin = () => {
+  const handleGoogleLogin = async () => {
       setIsLoading(true);
-      setTimeout(() => {
+      setError(null);
+      try {
+          // Navigates away; the app completes the login when the provider redirects back
+          await startOidcLogin();
+      } catch (err) {
+          setError(err instanceof Error ? err.message : 'Could not start login');
           setIsLoading(false);
-          onLogin();
-      }, 1000);
+      }
   }
 
   if (!isOpen) return null;
@@ -60,6 +71,13 @@ const LoginModal: React.FC<LoginModalProps> = ({ isOpen, onClose, onLogin }) =>
               <p className="text-white/60 text-sm">Log in to save your history and create magic.</p>
             </div>
 
+            {error && (
+              <div className="flex items-center gap-2 mb-4 p-3 rounded-xl bg-red-500/10 border border-red-500/30 text-red-300 text-sm">
+                <AlertCircle size={16} className="flex-shrink-0" />
+                <span>{error}</span>
+              </div>
+            )}
+
             {/* Google Button */}
             <button 
                 onClick={handleGoogleLogin}
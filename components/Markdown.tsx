@@ -0,0 +1,49 @@
+import React, { useId } from 'react';
+import ReactMarkdown, { Components } from 'react-markdown';
+import CodeBlock from './CodeBlock';
+import { REMARK_PLUGINS, REHYPE_PLUGINS, codeLanguage, nodeText } from '../services/markdown';
+
+interface MarkdownProps {
+  text: string;
+  isStreaming?: boolean; // The text is still arriving
+  components?: Components; // Overrides, e.g. for citation links
+}
+
+/**
+ * Message text as rich markdown (see services/markdown.ts for what is supported and how raw
+ * HTML is sanitized).
+ */
+const Markdown: React.FC<MarkdownProps> = ({ text, isStreaming, components }) => {
+  // Footnote ids are per message, so two replies' footnotes don't point at each other
+  const footnotePrefix = `${useId().replace(/[^\w-]/g, '')}-`;
+
+  return (
+    <ReactMarkdown
+      remarkPlugins={REMARK_PLUGINS}
+      rehypePlugins={REHYPE_PLUGINS}
+      remarkRehypeOptions={{ clobberPrefix: footnotePrefix }}
+      components={{
+        pre: ({ node, children }) => {
+          const code = node?.children.find(child => child.type === 'element' && child.tagName === 'code');
+          if (!code || code.type !== 'element') return <pre>{children}</pre>;
+          return (
+            <CodeBlock language={codeLanguage(code.properties.className)} code={nodeText(code).replace(/\n$/, '')} isStreaming={isStreaming}>
+              {children}
+            </CodeBlock>
+          );
+        },
+        // Wide tables scroll inside the bubble
+        table: ({ children }) => (
+          <div className="overflow-x-auto my-3">
+            <table>{children}</table>
+          </div>
+        ),
+        ...components,
+      }}
+    >
+      {text}
+    </ReactMarkdown>
+  );
+};
+
+export default Markdown;
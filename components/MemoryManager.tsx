@@ -0,0 +1,172 @@
+import React, { useState, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, Plus, Trash2, Pencil, Check, Brain } from 'lucide-react';
+import { ChatSession, Memory } from '../types';
+import { MAX_MEMORY_LENGTH, createMemory } from '../services/memory';
+
+interface MemoryManagerProps {
+  isOpen: boolean;
+  memories: Memory[];
+  sessions: ChatSession[];
+  onClose: () => void;
+  onChange: (memories: Memory[]) => void;
+}
+
+const inputClass = 'w-full bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-sm text-white placeholder-white/30 focus:outline-none focus:border-[#00E0FF]/50';
+
+/**
+ * Review what Xeno has learned about the user: edit, delete or add facts.
+ */
+const MemoryManager: React.FC<MemoryManagerProps> = ({ isOpen, memories, sessions, onClose, onChange }) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editText, setEditText] = useState('');
+  const [newText, setNewText] = useState('');
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setEditingId(null);
+    setNewText('');
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const sourceTitle = (memory: Memory) =>
+    memory.sourceSessionId ? sessions.find(s => s.id === memory.sourceSessionId)?.title : undefined;
+
+  const startEdit = (memory: Memory) => {
+    setEditingId(memory.id);
+    setEditText(memory.text);
+  };
+
+  const saveEdit = () => {
+    const text = editText.trim();
+    if (text) {
+      onChange(memories.map(m => m.id === editingId ? { ...m, text, updatedAt: Date.now() } : m));
+    }
+    setEditingId(null);
+  };
+
+  const handleAdd = () => {
+    if (!newText.trim()) return;
+    onChange([...memories, createMemory(newText)]);
+    setNewText('');
+  };
+
+  const handleClearAll = () => {
+    if (!window.confirm('Forget everything Xeno remembers about you?')) return;
+    onChange([]);
+  };
+
+  return (
+    <AnimatePresence>
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        className="fixed inset-0 z-[70] flex items-center justify-center bg-black/80 backdrop-blur-sm p-4"
+      >
+        <motion.div
+          initial={{ scale: 0.9, opacity: 0, y: 20 }}
+          animate={{ scale: 1, opacity: 1, y: 0 }}
+          exit={{ scale: 0.9, opacity: 0, y: 20 }}
+          className="w-full max-w-xl max-h-[90vh] bg-[#0D0221] border border-white/20 rounded-2xl shadow-2xl overflow-hidden relative flex flex-col"
+        >
+          <div className="flex items-center justify-between px-5 py-4 border-b border-white/10">
+            <h2 className="flex items-center gap-2 text-lg font-poppins font-bold text-white">
+              <Brain size={20} className="text-[#00E0FF]" />
+              Memories
+            </h2>
+            <button onClick={onClose} className="text-white/40 hover:text-white transition-colors">
+              <X size={20} />
+            </button>
+          </div>
+
+          <div className="flex-1 p-5 space-y-3 overflow-y-auto">
+            <p className="text-xs text-white/50">
+              Facts Xeno picked up about you in your chats. They are stored only in this browser and shared with the model in other chats. Turn memory off for a single chat from its context panel.
+            </p>
+
+            {memories.length === 0 && (
+              <p className="text-sm text-white/40 text-center py-6">Nothing remembered yet.</p>
+            )}
+
+            {memories.map(memory => (
+              <div key={memory.id} className="group flex items-start gap-2 p-3 rounded-lg bg-white/5 border border-white/10">
+                {editingId === memory.id ? (
+                  <>
+                    <input
+                      value={editText}
+                      onChange={(e) => setEditText(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') saveEdit();
+                        if (e.key === 'Escape') setEditingId(null);
+                      }}
+                      maxLength={MAX_MEMORY_LENGTH}
+                      autoFocus
+                      className={inputClass}
+                    />
+                    <button onClick={saveEdit} className="p-2 text-[#00E0FF] hover:bg-white/10 rounded-lg" title="Save">
+                      <Check size={16} />
+                    </button>
+                  </>
+                ) : (
+                  <>
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm text-white break-words">{memory.text}</p>
+                      <p className="text-[11px] text-white/30 mt-0.5">
+                        {sourceTitle(memory) ? `From "${sourceTitle(memory)}"` : memory.sourceSessionId ? 'From a deleted chat' : 'Added by you'}
+                        {' · '}{new Date(memory.updatedAt).toLocaleDateString()}
+                      </p>
+                    </div>
+                    <button onClick={() => startEdit(memory)} className="p-1.5 text-white/40 hover:text-white rounded" title="Edit">
+                      <Pencil size={14} />
+                    </button>
+                    <button
+                      onClick={() => onChange(memories.filter(m => m.id !== memory.id))}
+                      className="p-1.5 text-white/40 hover:text-red-400 rounded"
+                      title="Forget"
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  </>
+                )}
+              </div>
+            ))}
+          </div>
+
+          <div className="p-4 border-t border-white/10 space-y-3">
+            <div className="flex gap-2">
+              <input
+                value={newText}
+                onChange={(e) => setNewText(e.target.value)}
+                onKeyDown={(e) => { if (e.key === 'Enter') handleAdd(); }}
+                maxLength={MAX_MEMORY_LENGTH}
+                placeholder="Add something Xeno should know, e.g. I'm vegetarian"
+                className={inputClass}
+              />
+              <button
+                onClick={handleAdd}
+                disabled={!newText.trim()}
+                className="flex items-center gap-1 px-3 rounded-lg text-sm bg-[#00E0FF] text-[#0D0221] font-medium disabled:opacity-40 transition-all"
+              >
+                <Plus size={16} />
+                Add
+              </button>
+            </div>
+            {memories.length > 0 && (
+              <button
+                onClick={handleClearAll}
+                className="flex items-center gap-2 px-3 py-1.5 rounded-lg text-xs text-red-300 hover:bg-red-500/10 transition-colors"
+              >
+                <Trash2 size={14} />
+                Forget everything
+              </button>
+            )}
+          </div>
+        </motion.div>
+      </motion.div>
+    </AnimatePresence>
+  );
+};
+
+export default MemoryManager;
@@ -1,20 +1,92 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { ChatMessage, MessageRole, MessageType } from '../types';
-import { Bot, User, ZoomIn, Copy, ScanText, Check, X } from 'lucide-react';
+import { ChatMessage, MessageRole, MessageType, MessageRoute, RouteDecision, Citation, MessageFeedback, FeedbackRating } from '../types';
+import { Bot, User, ZoomIn, Copy, ScanText, Check, X, ChevronLeft, ChevronRight, Pencil, RotateCcw, Volume2, VolumeX, CornerLeftUp, MessageSquare, ImagePlus, Wand2, FileText, AlertTriangle, RotateCw, Clock, Languages, Trash2, ThumbsUp, ThumbsDown, Loader2 } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
-import ReactMarkdown from 'react-markdown';
+import { SiblingInfo } from '../services/thread';
+import AttachmentList from './AttachmentList';
+import ToolSteps from './ToolSteps';
+import Markdown from './Markdown';
+import { describeImageOptions } from '../services/imageOptions';
+import { ROUTES, ROUTE_LABELS } from '../services/intent';
+import { estimateMessageTokens } from '../services/context';
+import { CITATION_HREF_PREFIX, describeCitation, linkCitations } from '../services/documents';
+import { getTranslationLanguages } from '../services/translation';
+
+const ROUTE_ICONS: Record<MessageRoute, typeof MessageSquare> = {
+  chat: MessageSquare,
+  image: ImagePlus,
+  edit: Wand2,
+};
+
+const ROUTE_SOURCES: Record<RouteDecision['source'], string> = {
+  model: 'Chosen by the model',
+  keywords: 'Chosen by keyword rules (offline)',
+  user: 'Chosen by you',
+};
 
 interface MessageBubbleProps {
   message: ChatMessage;
-  onImageClick: (data: { url: string, isGenerated: boolean, prompt?: string }) => void;
+  // attachmentId is 'image' for the legacy imageUrl (see getMessageAttachments)
+  onImageClick: (data: { url: string, isGenerated: boolean, prompt?: string, messageId: string, attachmentId: string }) => void;
+  isHighlighted?: boolean; // Flashed after jumping here from a search result
+  siblingInfo?: SiblingInfo; // Position among alternative versions of this message
+  // Branch actions are omitted while a reply is being generated
+  onSelectSibling?: (messageId: string) => void;
+  onEdit?: (newText: string) => void;
+  onRegenerate?: () => void;
+  onSpeak?: () => void; // Read aloud; omitted when speech synthesis is unavailable
+  isSpeaking?: boolean;
+  onShowSource?: () => void; // Jump to the message holding the image this one was edited from
+  onReroute?: (route: MessageRoute) => void; // Answer a user message again via another route
+  avatar?: string; // Emoji of the chat's persona, shown instead of the bot icon on replies
+  isOutOfContext?: boolean; // Too old to be sent with the next request; drawn faded
+  onToolDecision?: (callId: string, approved: boolean) => void; // While a reply waits on tool approvals
+  onOpenCitation?: (citation: Citation) => void; // Show the document passage behind a [n] marker
+  onRetry?: () => void; // Try a failed reply again
+  onTranslate?: (language: string) => void;
+  isTranslating?: boolean;
+  onClearTranslation?: () => void;
+  onDelete?: () => void; // Also removes the replies that follow; the app confirms first
+  feedback?: MessageFeedback; // The user's rating of this reply
+  onFeedback?: (rating: FeedbackRating | null) => void; // Model replies only; null takes the rating back
+  onFeedbackComment?: (comment: string) => void;
 }
 
-const MessageBubble: React.FC<MessageBubbleProps> = ({ message, onImageClick }) => {
+const MessageBubble: React.FC<MessageBubbleProps> = ({
+  message,
+  onImageClick,
+  isHighlighted,
+  siblingInfo,
+  onSelectSibling,
+  onEdit,
+  onRegenerate,
+  onSpeak,
+  isSpeaking,
+  onShowSource,
+  onReroute,
+  avatar,
+  isOutOfContext,
+  onToolDecision,
+  onOpenCitation,
+  onRetry,
+  onTranslate,
+  isTranslating,
+  onClearTranslation,
+  onDelete,
+  feedback,
+  onFeedback,
+  onFeedbackComment
+}) => {
   const isUser = message.role === MessageRole.USER;
   const isGenerated = !isUser && message.type === MessageType.IMAGE;
   
   const [showMenu, setShowMenu] = useState(false);
+  const [showRouteMenu, setShowRouteMenu] = useState(false);
+  const [showTranslateMenu, setShowTranslateMenu] = useState(false);
+  const [commentDraft, setCommentDraft] = useState<string | null>(null); // Open while not null
   const [copied, setCopied] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(message.text);
   const textRef = useRef<HTMLDivElement>(null);
 
   // Close menu when clicking outside
@@ -28,6 +100,22 @@ const MessageBubble: React.FC<MessageBubbleProps> = ({ message, onImageClick })
     };
   }, [showMenu]);
 
+  useEffect(() => {
+    if (!showRouteMenu) return;
+    const handleClickOutside = () => setShowRouteMenu(false);
+    document.addEventListener('click', handleClickOutside);
+    return () => document.removeEventListener('click', handleClickOutside);
+  }, [showRouteMenu]);
+
+  useEffect(() => {
+    if (!showTranslateMenu) return;
+    const handleClickOutside = () => setShowTranslateMenu(false);
+    document.addEventListener('click', handleClickOutside);
+    return () => document.removeEventListener('click', handleClickOutside);
+  }, [showTranslateMenu]);
+
+  const RouteIcon = message.route ? ROUTE_ICONS[message.route.route] : null;
+
   const handleContextMenu = (e: React.MouseEvent) => {
     // Only trigger for text messages or text parts
     if (message.text) {
@@ -60,11 +148,70 @@ const MessageBubble: React.FC<MessageBubbleProps> = ({ message, onImageClick })
       }
   };
 
+  const handleStartEdit = () => {
+      setDraft(message.text);
+      setIsEditing(true);
+  };
+
+  const handleSubmitEdit = () => {
+      if (!onEdit || !draft.trim()) return;
+      setIsEditing(false);
+      if (draft !== message.text) onEdit(draft);
+  };
+
+  const handleEditKeyDown = (e: React.KeyboardEvent) => {
+      if (e.key === 'Enter' && !e.shiftKey) {
+          e.preventDefault();
+          handleSubmitEdit();
+      } else if (e.key === 'Escape') {
+          setIsEditing(false);
+      }
+  };
+
+  // Clicking the current rating takes it back; a new one offers to say why
+  const handleRate = (rating: FeedbackRating) => {
+      if (feedback?.rating === rating) {
+          onFeedback?.(null);
+          setCommentDraft(null);
+      } else {
+          onFeedback?.(rating);
+          setCommentDraft('');
+      }
+  };
+
+  const handleSubmitComment = () => {
+      if (commentDraft?.trim()) onFeedbackComment?.(commentDraft);
+      setCommentDraft(null);
+  };
+
+  const hasSiblings = !!siblingInfo && siblingInfo.count > 1;
+  const citations = message.citations || [];
+
+  // Citation markers arrive as #cite-n links (see linkCitations)
+  const markdownComponents = {
+      a: ({ href, children }: { href?: string; children?: React.ReactNode }) => {
+          const citation = href?.startsWith(CITATION_HREF_PREFIX)
+              ? citations.find(c => c.marker === Number(href.slice(CITATION_HREF_PREFIX.length)))
+              : undefined;
+          if (!citation) return <a href={href}>{children}</a>;
+          return (
+              <button
+                  onClick={() => onOpenCitation?.(citation)}
+                  className="mx-0.5 px-1 rounded text-[0.75em] align-super text-[#00E0FF] bg-[#00E0FF]/10 hover:bg-[#00E0FF]/25 transition-colors"
+                  title={describeCitation(citation)}
+              >
+                  {citation.marker}
+              </button>
+          );
+      },
+  };
+
   return (
     <motion.div 
+        id={`message-${message.id}`}
         initial={{ opacity: 0, y: 10 }}
-        animate={{ opacity: 1, y: 0 }}
-        className={`flex gap-3 mb-6 relative ${isUser ? 'flex-row-reverse' : 'flex-row'}`}
+        animate={{ opacity: isOutOfContext ? 0.5 : 1, y: 0 }}
+        className={`flex gap-3 mb-6 relative rounded-2xl transition-shadow duration-500 ${isUser ? 'flex-row-reverse' : 'flex-row'} ${isHighlighted ? 'ring-2 ring-[#00E0FF]/70 shadow-[0_0_25px_rgba(0,224,255,0.35)]' : ''}`}
     >
       {/* Avatar */}
       <div className={`
@@ -73,7 +220,9 @@ const MessageBubble: React.FC<MessageBubbleProps> = ({ message, onImageClick })
             ? 'bg-gradient-to-br from-purple-500 to-blue-600' 
             : 'bg-gradient-to-br from-[#00E0FF] to-blue-600 shadow-[0_0_10px_rgba(0,224,255,0.4)]'}
       `}>
-        {isUser ? <User size={20} className="text-white" /> : <Bot size={20} className="text-white" />}
+        {isUser
+            ? <User size={20} className="text-white" />
+            : avatar ? <span className="text-xl leading-none">{avatar}</span> : <Bot size={20} className="text-white" />}
       </div>
 
       {/* Content */}
@@ -120,7 +269,9 @@ const MessageBubble: React.FC<MessageBubbleProps> = ({ message, onImageClick })
                 onClick={() => onImageClick({ 
                     url: message.imageUrl!, 
                     isGenerated: isGenerated,
-                    prompt: message.originalPrompt 
+                    prompt: message.originalPrompt,
+                    messageId: message.id,
+                    attachmentId: 'image'
                 })}
             >
                 <img src={message.imageUrl} alt="Content" className="max-w-full h-auto max-h-80 rounded-lg object-cover" />
@@ -135,18 +286,75 @@ const MessageBubble: React.FC<MessageBubbleProps> = ({ message, onImageClick })
             </div>
         )}
 
-        {/* Text Content */}
-        {message.text && (
+        {/* Attached files */}
+        {message.attachments && (
+            <AttachmentList
+                attachments={message.attachments}
+                variant="message"
+                onImageClick={(image) => onImageClick({
+                    url: image.dataUrl,
+                    isGenerated,
+                    prompt: message.originalPrompt,
+                    messageId: message.id,
+                    attachmentId: image.id
+                })}
+            />
+        )}
+
+        {/* Settings a generated image was made with */}
+        {isGenerated && message.imageOptions && (
+            <div className="mb-2 px-1 text-[10px] text-[#00E0FF]/70">
+                Generated by Xeno AI 🎨 · {describeImageOptions(message.imageOptions)}
+            </div>
+        )}
+
+        {/* Tools the reply used */}
+        {message.toolCalls && message.toolCalls.length > 0 && (
+            <ToolSteps calls={message.toolCalls} onDecision={onToolDecision} />
+        )}
+
+        {/* Inline editor for resending a user message */}
+        {isEditing && (
+            <div className="w-full min-w-[260px] p-3 rounded-2xl bg-[#4316A1]/60 border border-[#00E0FF]/40 shadow-lg">
+                <textarea
+                    value={draft}
+                    onChange={(e) => setDraft(e.target.value)}
+                    onKeyDown={handleEditKeyDown}
+                    autoFocus
+                    rows={Math.min(8, Math.max(2, draft.split('\n').length))}
+                    className="w-full bg-transparent border-none focus:outline-none text-white text-sm md:text-base resize-none"
+                />
+                <div className="flex justify-end gap-2 mt-2">
+                    <button
+                        onClick={() => setIsEditing(false)}
+                        className="px-3 py-1 rounded-lg text-xs text-white/70 hover:bg-white/10 transition-colors"
+                    >
+                        Cancel
+                    </button>
+                    <button
+                        onClick={handleSubmitEdit}
+                        disabled={!draft.trim()}
+                        className="px-3 py-1 rounded-lg text-xs bg-[#00E0FF] text-[#0D0221] font-medium disabled:opacity-40 transition-colors"
+                    >
+                        Save & Send
+                    </button>
+                </div>
+            </div>
+        )}
+
+        {/* Text Content (also shown while a streamed reply is still arriving) */}
+        {!isEditing && (message.text || message.isGenerating) && (
             <div 
                 className={`
                     p-4 rounded-2xl shadow-lg text-sm md:text-base leading-relaxed select-text cursor-text
                     ${isUser 
                         ? 'bg-[#4316A1] text-white rounded-tr-sm border border-white/10' 
                         : 'bg-white/10 backdrop-blur-md text-gray-100 rounded-tl-sm border border-white/5'}
+                    ${message.isPending ? 'opacity-60 border-dashed border-white/40' : ''}
                 `}
                 onContextMenu={handleContextMenu}
             >
-                {message.isGenerating ? (
+                {message.isGenerating && !message.text ? (
                      <div className="flex gap-1 items-center h-6">
                         <span className="w-2 h-2 bg-[#00E0FF] rounded-full animate-bounce" style={{ animationDelay: '0ms' }}></span>
                         <span className="w-2 h-2 bg-[#00E0FF] rounded-full animate-bounce" style={{ animationDelay: '150ms' }}></span>
@@ -154,16 +362,274 @@ const MessageBubble: React.FC<MessageBubbleProps> = ({ message, onImageClick })
                      </div>
                 ) : (
                     <div className="markdown-content" ref={textRef}>
-                         <ReactMarkdown>{message.text}</ReactMarkdown>
+                         <Markdown text={linkCitations(message.text, citations)} isStreaming={message.isGenerating} components={markdownComponents} />
+                         {message.isGenerating && (
+                             <span className="inline-block w-2 h-4 ml-0.5 align-middle bg-[#00E0FF] animate-pulse"></span>
+                         )}
                     </div>
                 )}
             </div>
         )}
         
-        {/* Timestamp */}
-        <span className="text-[10px] text-white/30 mt-1 px-1 select-none">
-            {new Date(message.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
-        </span>
+        {/* Translation asked for from the action bar */}
+        {!isEditing && (message.translation || isTranslating) && (
+            <div className="w-full mt-2 p-3 rounded-xl bg-[#00E0FF]/5 border border-[#00E0FF]/20 text-sm text-gray-100">
+                <div className="flex items-center justify-between gap-2 mb-1 text-[10px] text-[#00E0FF]/80 select-none">
+                    <span className="flex items-center gap-1">
+                        {isTranslating ? <Loader2 size={10} className="animate-spin" /> : <Languages size={10} />}
+                        {isTranslating ? 'Translating…' : message.translation!.language}
+                    </span>
+                    {message.translation && !isTranslating && onClearTranslation && (
+                        <button onClick={onClearTranslation} className="text-white/40 hover:text-white" title="Hide translation">
+                            <X size={12} />
+                        </button>
+                    )}
+                </div>
+                {message.translation && !isTranslating && (
+                    <div className="markdown-content">
+                        <Markdown text={message.translation.text} />
+                    </div>
+                )}
+            </div>
+        )}
+
+        {/* Why the reply failed; whatever arrived before stays above */}
+        {message.error && (
+            <div
+                className="flex items-start gap-2 mt-2 p-3 rounded-xl border border-red-500/30 bg-red-500/10 text-sm text-red-200"
+                title={message.error.detail}
+            >
+                <AlertTriangle size={16} className="shrink-0 mt-0.5 text-red-400" />
+                <span className="flex-1">{message.error.message}</span>
+                {onRetry && (
+                    <button
+                        onClick={onRetry}
+                        className="flex items-center gap-1 px-2 py-1 rounded-lg text-xs text-white bg-white/10 hover:bg-white/20 transition-colors"
+                    >
+                        <RotateCw size={12} />
+                        Retry
+                    </button>
+                )}
+            </div>
+        )}
+
+        {/* Document passages the reply cites */}
+        {!isEditing && !message.isGenerating && citations.length > 0 && (
+            <div className="flex flex-wrap gap-1.5 mt-2">
+                {citations.map(citation => (
+                    <button
+                        key={citation.marker}
+                        onClick={() => onOpenCitation?.(citation)}
+                        className="flex items-center gap-1 max-w-[220px] px-2 py-0.5 rounded-full text-[11px] bg-white/5 border border-white/10 text-white/60 hover:text-[#00E0FF] hover:border-[#00E0FF]/40 transition-colors"
+                        title={citation.text.slice(0, 200)}
+                    >
+                        <span className="text-[#00E0FF]">{citation.marker}</span>
+                        <FileText size={11} className="shrink-0" />
+                        <span className="truncate">{describeCitation(citation)}</span>
+                    </button>
+                ))}
+            </div>
+        )}
+
+        {/* Timestamp, version switcher and the message's actions, always shown (no hover on touch screens) */}
+        <div className={`flex flex-wrap items-center gap-2 mt-1 px-1 select-none ${isUser ? 'flex-row-reverse' : 'flex-row'}`}>
+            <span className="text-[10px] text-white/30" title={`~${estimateMessageTokens(message)} tokens`}>
+                {new Date(message.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+            </span>
+            {message.isPending && (
+                <span className="flex items-center gap-1 text-[10px] text-amber-300/80" title="Sends automatically when you're back online">
+                    <Clock size={10} /> Waiting for connection
+                </span>
+            )}
+            {isUser && message.route && RouteIcon && (
+                <div className="relative">
+                    <button
+                        onClick={(e) => { e.stopPropagation(); setShowRouteMenu(prev => !prev); }}
+                        disabled={!onReroute}
+                        className="flex items-center gap-1 px-1.5 py-0.5 rounded-full text-[10px] bg-white/5 text-white/40 hover:text-[#00E0FF] hover:bg-white/10 disabled:hover:text-white/40 disabled:hover:bg-white/5 transition-colors"
+                        title={`${ROUTE_SOURCES[message.route.source]}${onReroute ? ' · click to change' : ''}`}
+                    >
+                        <RouteIcon size={10} />
+                        {ROUTE_LABELS[message.route.route]}
+                    </button>
+                    {showRouteMenu && onReroute && (
+                        <div className="absolute bottom-full right-0 mb-1 z-20 min-w-[150px] bg-[#0D0221] border border-white/20 rounded-lg shadow-xl py-1">
+                            <div className="px-3 py-1 text-[10px] text-white/40">Answer as…</div>
+                            {ROUTES.filter(route => route !== message.route!.route).map(route => {
+                                const Icon = ROUTE_ICONS[route];
+                                return (
+                                    <button
+                                        key={route}
+                                        onClick={() => { setShowRouteMenu(false); onReroute(route); }}
+                                        className="w-full flex items-center gap-2 px-3 py-1.5 text-xs text-white/80 hover:bg-white/10 hover:text-[#00E0FF] transition-colors"
+                                    >
+                                        <Icon size={12} />
+                                        {ROUTE_LABELS[route]}
+                                    </button>
+                                );
+                            })}
+                        </div>
+                    )}
+                </div>
+            )}
+            {hasSiblings && (
+                <div className="flex items-center gap-0.5 text-[10px] text-white/50">
+                    <button
+                        onClick={() => siblingInfo!.previousId && onSelectSibling?.(siblingInfo!.previousId)}
+                        disabled={!onSelectSibling || !siblingInfo!.previousId}
+                        className="p-0.5 rounded hover:bg-white/10 hover:text-white disabled:opacity-30 disabled:hover:bg-transparent"
+                        title="Previous version"
+                    >
+                        <ChevronLeft size={12} />
+                    </button>
+                    <span>{siblingInfo!.index + 1}/{siblingInfo!.count}</span>
+                    <button
+                        onClick={() => siblingInfo!.nextId && onSelectSibling?.(siblingInfo!.nextId)}
+                        disabled={!onSelectSibling || !siblingInfo!.nextId}
+                        className="p-0.5 rounded hover:bg-white/10 hover:text-white disabled:opacity-30 disabled:hover:bg-transparent"
+                        title="Next version"
+                    >
+                        <ChevronRight size={12} />
+                    </button>
+                </div>
+            )}
+            {onEdit && !isEditing && (
+                <button
+                    onClick={handleStartEdit}
+                    className="p-0.5 rounded text-white/30 hover:text-white hover:bg-white/10 transition-colors"
+                    title="Edit and resend"
+                >
+                    <Pencil size={12} />
+                </button>
+            )}
+            {onRegenerate && !message.isGenerating && (
+                <button
+                    onClick={onRegenerate}
+                    className="p-0.5 rounded text-white/30 hover:text-white hover:bg-white/10 transition-colors"
+                    title="Regenerate response"
+                >
+                    <RotateCcw size={12} />
+                </button>
+            )}
+            {onSpeak && !isUser && message.text && !message.isGenerating && (
+                <button
+                    onClick={onSpeak}
+                    className={`p-0.5 rounded hover:bg-white/10 transition-colors ${isSpeaking ? 'text-[#00E0FF] animate-pulse' : 'text-white/30 hover:text-white'}`}
+                    title={isSpeaking ? "Stop reading" : "Read aloud"}
+                >
+                    {isSpeaking ? <VolumeX size={12} /> : <Volume2 size={12} />}
+                </button>
+            )}
+            {onShowSource && (
+                <button
+                    onClick={onShowSource}
+                    className="flex items-center gap-0.5 p-0.5 rounded text-[10px] text-white/30 hover:text-[#00E0FF] hover:bg-white/10 transition-colors"
+                    title="Show the original image"
+                >
+                    <CornerLeftUp size={12} />
+                    Source image
+                </button>
+            )}
+            {message.text && !message.isGenerating && (
+                <button
+                    onClick={handleCopy}
+                    className="p-0.5 rounded text-white/30 hover:text-white hover:bg-white/10 transition-colors"
+                    title="Copy text"
+                >
+                    {copied ? <Check size={12} className="text-[#00E0FF]" /> : <Copy size={12} />}
+                </button>
+            )}
+            {onTranslate && message.text && !message.isGenerating && (
+                <div className="relative">
+                    <button
+                        onClick={(e) => { e.stopPropagation(); setShowTranslateMenu(prev => !prev); }}
+                        disabled={isTranslating}
+                        className="p-0.5 rounded text-white/30 hover:text-white hover:bg-white/10 disabled:opacity-30 transition-colors"
+                        title="Translate"
+                    >
+                        <Languages size={12} />
+                    </button>
+                    {showTranslateMenu && (
+                        <div className={`absolute bottom-full mb-1 z-20 min-w-[170px] max-h-64 overflow-y-auto bg-[#0D0221] border border-white/20 rounded-lg shadow-xl py-1 ${isUser ? 'right-0' : 'left-0'}`}>
+                            <div className="px-3 py-1 text-[10px] text-white/40">Translate into…</div>
+                            {getTranslationLanguages().map(language => (
+                                <button
+                                    key={language}
+                                    onClick={() => { setShowTranslateMenu(false); onTranslate(language); }}
+                                    className="w-full px-3 py-1.5 text-left text-xs text-white/80 hover:bg-white/10 hover:text-[#00E0FF] transition-colors"
+                                >
+                                    {language}
+                                </button>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            )}
+            {onFeedback && !message.isGenerating && (
+                <>
+                    <button
+                        onClick={() => handleRate('up')}
+                        className={`p-0.5 rounded hover:bg-white/10 transition-colors ${feedback?.rating === 'up' ? 'text-[#00E0FF]' : 'text-white/30 hover:text-white'}`}
+                        title={feedback?.rating === 'up' ? 'Take back rating' : 'Good reply'}
+                    >
+                        <ThumbsUp size={12} />
+                    </button>
+                    <button
+                        onClick={() => handleRate('down')}
+                        className={`p-0.5 rounded hover:bg-white/10 transition-colors ${feedback?.rating === 'down' ? 'text-red-300' : 'text-white/30 hover:text-white'}`}
+                        title={feedback?.rating === 'down' ? 'Take back rating' : 'Bad reply'}
+                    >
+                        <ThumbsDown size={12} />
+                    </button>
+                </>
+            )}
+            {onDelete && (
+                <button
+                    onClick={onDelete}
+                    className="p-0.5 rounded text-white/30 hover:text-red-400 hover:bg-white/10 transition-colors"
+                    title="Delete"
+                >
+                    <Trash2 size={12} />
+                </button>
+            )}
+        </div>
+
+        {/* Optional comment after rating a reply */}
+        {commentDraft !== null && feedback && (
+            <div className="w-full min-w-[240px] mt-2 p-2 rounded-xl bg-white/5 border border-white/10">
+                <textarea
+                    value={commentDraft}
+                    onChange={(e) => setCommentDraft(e.target.value)}
+                    onKeyDown={(e) => {
+                        if (e.key === 'Enter' && !e.shiftKey) {
+                            e.preventDefault();
+                            handleSubmitComment();
+                        } else if (e.key === 'Escape') {
+                            setCommentDraft(null);
+                        }
+                    }}
+                    autoFocus
+                    rows={2}
+                    placeholder={feedback.rating === 'up' ? 'What was good about it? (optional)' : 'What went wrong? (optional)'}
+                    className="w-full bg-transparent border-none focus:outline-none text-white text-xs resize-none placeholder-white/30"
+                />
+                <div className="flex justify-end gap-2">
+                    <button
+                        onClick={() => setCommentDraft(null)}
+                        className="px-2 py-1 rounded-lg text-[11px] text-white/60 hover:bg-white/10 transition-colors"
+                    >
+                        Skip
+                    </button>
+                    <button
+                        onClick={handleSubmitComment}
+                        disabled={!commentDraft.trim()}
+                        className="px-2 py-1 rounded-lg text-[11px] bg-[#00E0FF] text-[#0D0221] font-medium disabled:opacity-40 transition-colors"
+                    >
+                        Send
+                    </button>
+                </div>
+            </div>
+        )}
       </div>
     </motion.div>
   );
@@ -0,0 +1,42 @@
+import React from 'react';
+import { Cpu } from 'lucide-react';
+import { ProviderId } from '../types';
+import { listProviders } from '../services/providers';
+
+interface ModelPickerProps {
+  providerId: ProviderId;
+  model: string;
+  onChange: (providerId: ProviderId, model: string) => void;
+}
+
+const ModelPicker: React.FC<ModelPickerProps> = ({ providerId, model, onChange }) => {
+  const handleChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    // Option values are "<providerId>::<model>"; model names may themselves contain ':'
+    const [nextProvider, ...rest] = e.target.value.split('::');
+    onChange(nextProvider as ProviderId, rest.join('::'));
+  };
+
+  return (
+    <label className="flex items-center gap-2 bg-white/5 border border-white/10 rounded-lg px-2 py-1 text-xs text-white/70 hover:border-[#00E0FF]/40 transition-colors">
+      <Cpu size={14} className="text-[#00E0FF]" />
+      <select
+        value={`${providerId}::${model}`}
+        onChange={handleChange}
+        className="bg-transparent focus:outline-none max-w-[160px] truncate cursor-pointer"
+        title="Model for this chat"
+      >
+        {listProviders().map(provider => (
+          <optgroup key={provider.id} label={provider.label} className="bg-[#0D0221]">
+            {provider.chatModels.map(m => (
+              <option key={m} value={`${provider.id}::${m}`} className="bg-[#0D0221]">
+                {m}
+              </option>
+            ))}
+          </optgroup>
+        ))}
+      </select>
+    </label>
+  );
+};
+
+export default ModelPicker;
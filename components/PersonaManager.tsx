@@ -0,0 +1,237 @@
+import React, { useState, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, Plus, Copy, Trash2, Save, Lock } from 'lucide-react';
+import { Persona, ProviderId } from '../types';
+import { PERSONA_LANGUAGES, createPersona } from '../services/personas';
+import { listProviders } from '../services/providers';
+
+interface PersonaManagerProps {
+  isOpen: boolean;
+  personas: Persona[];
+  initialPersonaId?: string;
+  onClose: () => void;
+  onSave: (persona: Persona) => void;
+  onDelete: (id: string) => void;
+}
+
+const inputClass = 'w-full bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-sm text-white placeholder-white/30 focus:outline-none focus:border-[#00E0FF]/50 disabled:opacity-60';
+
+/**
+ * Create, edit, duplicate and delete personas. The built-in persona can only be duplicated.
+ */
+const PersonaManager: React.FC<PersonaManagerProps> = ({ isOpen, personas, initialPersonaId, onClose, onSave, onDelete }) => {
+  const [draft, setDraft] = useState<Persona | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setDraft(personas.find(p => p.id === initialPersonaId) || personas[0]);
+    setError(null);
+  }, [isOpen]);
+
+  if (!isOpen || !draft) return null;
+
+  const isSaved = personas.some(p => p.id === draft.id);
+  const update = (patch: Partial<Persona>) => setDraft({ ...draft, ...patch });
+
+  const handleSelect = (persona: Persona) => {
+    setDraft(persona);
+    setError(null);
+  };
+
+  const handleModelChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    // Same "<providerId>::<model>" encoding as the model picker; empty keeps the chat default
+    const [providerId, ...rest] = e.target.value.split('::');
+    update(e.target.value
+      ? { providerId: providerId as ProviderId, model: rest.join('::') }
+      : { providerId: undefined, model: undefined });
+  };
+
+  const handleSave = () => {
+    if (!draft.name.trim()) return setError('Give the persona a name.');
+    if (!draft.systemPrompt.trim()) return setError('Describe how the persona should behave.');
+    setError(null);
+    onSave({ ...draft, name: draft.name.trim(), avatar: draft.avatar.trim() || '✨' });
+  };
+
+  const handleDelete = () => {
+    if (!window.confirm(`Delete "${draft.name}"? Chats using it will switch to Xeno.`)) return;
+    onDelete(draft.id);
+    setDraft(personas[0]);
+  };
+
+  return (
+    <AnimatePresence>
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        className="fixed inset-0 z-[70] flex items-center justify-center bg-black/80 backdrop-blur-sm p-4"
+      >
+        <motion.div
+          initial={{ scale: 0.9, opacity: 0, y: 20 }}
+          animate={{ scale: 1, opacity: 1, y: 0 }}
+          exit={{ scale: 0.9, opacity: 0, y: 20 }}
+          className="w-full max-w-3xl max-h-[90vh] bg-[#0D0221] border border-white/20 rounded-2xl shadow-2xl overflow-hidden relative flex flex-col"
+        >
+          <div className="flex items-center justify-between px-5 py-4 border-b border-white/10">
+            <h2 className="text-lg font-poppins font-bold text-white">Personas</h2>
+            <button onClick={onClose} className="text-white/40 hover:text-white transition-colors">
+              <X size={20} />
+            </button>
+          </div>
+
+          <div className="flex flex-col md:flex-row min-h-0 flex-1">
+            {/* Persona list */}
+            <div className="md:w-56 border-b md:border-b-0 md:border-r border-white/10 p-3 flex md:flex-col gap-2 overflow-x-auto md:overflow-y-auto">
+              {personas.map(persona => (
+                <button
+                  key={persona.id}
+                  onClick={() => handleSelect(persona)}
+                  className={`flex items-center gap-2 px-3 py-2 rounded-lg text-sm text-left flex-shrink-0 transition-colors ${persona.id === draft.id ? 'bg-[#4316A1] text-white' : 'text-white/70 hover:bg-white/10'}`}
+                >
+                  <span className="text-lg">{persona.avatar}</span>
+                  <span className="truncate">{persona.name}</span>
+                  {persona.builtIn && <Lock size={12} className="ml-auto text-white/40 flex-shrink-0" />}
+                </button>
+              ))}
+              <button
+                onClick={() => handleSelect(createPersona())}
+                className="flex items-center gap-2 px-3 py-2 rounded-lg text-sm text-[#00E0FF] hover:bg-[#00E0FF]/10 flex-shrink-0 transition-colors"
+              >
+                <Plus size={16} />
+                New persona
+              </button>
+            </div>
+
+            {/* Editor */}
+            <div className="flex-1 p-5 space-y-4 overflow-y-auto">
+              {draft.builtIn && (
+                <p className="text-xs text-white/50">The built-in persona can't be changed. Duplicate it to make your own version.</p>
+              )}
+              <div className="flex gap-3">
+                <label className="w-20">
+                  <span className="block text-xs text-white/50 mb-1">Avatar</span>
+                  <input
+                    value={draft.avatar}
+                    onChange={(e) => update({ avatar: e.target.value })}
+                    disabled={draft.builtIn}
+                    maxLength={4}
+                    className={`${inputClass} text-center text-lg`}
+                  />
+                </label>
+                <label className="flex-1">
+                  <span className="block text-xs text-white/50 mb-1">Name</span>
+                  <input
+                    value={draft.name}
+                    onChange={(e) => update({ name: e.target.value })}
+                    disabled={draft.builtIn}
+                    placeholder="e.g. Code Guru"
+                    className={inputClass}
+                  />
+                </label>
+              </div>
+
+              <label className="block">
+                <span className="block text-xs text-white/50 mb-1">System prompt</span>
+                <textarea
+                  value={draft.systemPrompt}
+                  onChange={(e) => update({ systemPrompt: e.target.value })}
+                  disabled={draft.builtIn}
+                  rows={7}
+                  placeholder="You are a patient tutor who explains things step by step…"
+                  className={`${inputClass} resize-none`}
+                />
+              </label>
+
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                <label>
+                  <span className="block text-xs text-white/50 mb-1">Reply language</span>
+                  <select
+                    value={draft.language}
+                    onChange={(e) => update({ language: e.target.value })}
+                    disabled={draft.builtIn}
+                    className={inputClass}
+                  >
+                    {PERSONA_LANGUAGES.map(language => (
+                      <option key={language.code} value={language.code} className="bg-[#0D0221]">{language.label}</option>
+                    ))}
+                  </select>
+                </label>
+                <label>
+                  <span className="block text-xs text-white/50 mb-1">Model for new chats</span>
+                  <select
+                    value={draft.providerId && draft.model ? `${draft.providerId}::${draft.model}` : ''}
+                    onChange={handleModelChange}
+                    disabled={draft.builtIn}
+                    className={inputClass}
+                  >
+                    <option value="" className="bg-[#0D0221]">Default</option>
+                    {listProviders().map(provider => (
+                      <optgroup key={provider.id} label={provider.label} className="bg-[#0D0221]">
+                        {provider.chatModels.map(m => (
+                          <option key={m} value={`${provider.id}::${m}`} className="bg-[#0D0221]">{m}</option>
+                        ))}
+                      </optgroup>
+                    ))}
+                  </select>
+                </label>
+              </div>
+
+              <label className="block">
+                <span className="flex justify-between text-xs text-white/50 mb-1">
+                  <span>Temperature</span>
+                  <span>{draft.temperature.toFixed(1)} · {draft.temperature < 0.5 ? 'focused' : draft.temperature > 1.2 ? 'creative' : 'balanced'}</span>
+                </span>
+                <input
+                  type="range"
+                  min={0}
+                  max={2}
+                  step={0.1}
+                  value={draft.temperature}
+                  onChange={(e) => update({ temperature: Number(e.target.value) })}
+                  disabled={draft.builtIn}
+                  className="w-full accent-[#00E0FF]"
+                />
+              </label>
+
+              {error && <p className="text-sm text-red-300">{error}</p>}
+
+              <div className="flex items-center gap-2 pt-2">
+                {!draft.builtIn && (
+                  <button
+                    onClick={handleSave}
+                    className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm bg-[#00E0FF] text-[#0D0221] font-medium hover:shadow-[0_0_15px_#00E0FF] transition-all"
+                  >
+                    <Save size={16} />
+                    Save
+                  </button>
+                )}
+                {isSaved && (
+                  <button
+                    onClick={() => handleSelect(createPersona(draft))}
+                    className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm bg-white/10 text-white hover:bg-white/20 transition-colors"
+                  >
+                    <Copy size={16} />
+                    Duplicate
+                  </button>
+                )}
+                {isSaved && !draft.builtIn && (
+                  <button
+                    onClick={handleDelete}
+                    className="ml-auto flex items-center gap-2 px-3 py-2 rounded-lg text-sm text-red-300 hover:bg-red-500/10 transition-colors"
+                  >
+                    <Trash2 size={16} />
+                    Delete
+                  </button>
+                )}
+              </div>
+            </div>
+          </div>
+        </motion.div>
+      </motion.div>
+    </AnimatePresence>
+  );
+};
+
+export default PersonaManager;
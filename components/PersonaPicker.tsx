@@ -0,0 +1,40 @@
+import React from 'react';
+import { Settings2 } from 'lucide-react';
+import { Persona } from '../types';
+
+interface PersonaPickerProps {
+  personas: Persona[];
+  selectedId: string;
+  onSelect: (id: string) => void;
+  onManage: () => void;
+}
+
+/**
+ * Persona chips shown when starting a chat.
+ */
+const PersonaPicker: React.FC<PersonaPickerProps> = ({ personas, selectedId, onSelect, onManage }) => (
+  <div className="flex flex-wrap items-center justify-center gap-2">
+    {personas.map(persona => (
+      <button
+        key={persona.id}
+        onClick={() => onSelect(persona.id)}
+        className={`flex items-center gap-1.5 px-3 py-1.5 rounded-full text-sm border transition-all ${persona.id === selectedId
+          ? 'bg-[#4316A1] border-[#00E0FF]/60 text-white shadow-[0_0_10px_rgba(0,224,255,0.3)]'
+          : 'bg-white/5 border-white/10 text-white/70 hover:bg-white/10'}`}
+      >
+        <span>{persona.avatar}</span>
+        <span className="max-w-[120px] truncate">{persona.name}</span>
+      </button>
+    ))}
+    <button
+      onClick={onManage}
+      className="flex items-center gap-1 px-3 py-1.5 rounded-full text-xs text-white/50 hover:text-[#00E0FF] transition-colors"
+      title="Create and edit personas"
+    >
+      <Settings2 size={14} />
+      Manage
+    </button>
+  </div>
+);
+
+export default PersonaPicker;
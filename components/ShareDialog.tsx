@@ -0,0 +1,241 @@
+import React, { useState, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, Link2, Bot, User, Eye, EyeOff, Copy, Check, Trash2, Loader2, AlertCircle, Paperclip } from 'lucide-react';
+import { ChatMessage, ChatSession, MessageRole, ShareLink } from '../types';
+import { getMessageAttachments } from '../services/attachments';
+import { ShareRedactions, attachmentKey, buildShareSnapshot, publishShare, listShares, revokeShare, getShareUrl, describeShareError } from '../services/share';
+
+interface ShareDialogProps {
+  isOpen: boolean;
+  session: ChatSession | undefined;
+  thread: ChatMessage[]; // The conversation on screen, which is what gets shared
+  onClose: () => void;
+}
+
+const toggle = (set: Set<string>, key: string): Set<string> => {
+  const next = new Set(set);
+  if (!next.delete(key)) next.add(key);
+  return next;
+};
+
+/**
+ * Publishes the chat on screen as a read-only link, with chosen messages and images hidden,
+ * and lists the links published so far so they can be revoked.
+ */
+const ShareDialog: React.FC<ShareDialogProps> = ({ isOpen, session, thread, onClose }) => {
+  const [redactions, setRedactions] = useState<ShareRedactions>({ messageIds: new Set(), attachmentKeys: new Set() });
+  const [isPublishing, setIsPublishing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [links, setLinks] = useState<ShareLink[] | null>(null);
+  const [newLinkId, setNewLinkId] = useState<string | null>(null);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setRedactions({ messageIds: new Set(), attachmentKeys: new Set() });
+    setError(null);
+    setNewLinkId(null);
+    setLinks(null);
+    listShares()
+      .then(setLinks)
+      .catch(err => setError(`Couldn't load your shared chats: ${describeShareError(err)}`));
+  }, [isOpen]);
+
+  if (!isOpen || !session) return null;
+
+  const messages = thread.filter(m => !m.isGenerating && !m.isPending);
+
+  const handlePublish = async () => {
+    setIsPublishing(true);
+    setError(null);
+    try {
+      const link = await publishShare(buildShareSnapshot(session, thread, redactions));
+      setLinks(prev => [link, ...(prev || [])]);
+      setNewLinkId(link.id);
+    } catch (err) {
+      setError(`Couldn't create the link: ${describeShareError(err)}`);
+    } finally {
+      setIsPublishing(false);
+    }
+  };
+
+  const handleRevoke = async (id: string) => {
+    setError(null);
+    try {
+      await revokeShare(id);
+      setLinks(prev => prev?.filter(link => link.id !== id) || null);
+      if (newLinkId === id) setNewLinkId(null);
+    } catch (err) {
+      setError(`Couldn't revoke the link: ${describeShareError(err)}`);
+    }
+  };
+
+  const handleCopy = async (id: string) => {
+    try {
+      await navigator.clipboard.writeText(getShareUrl(id));
+      setCopiedId(id);
+      setTimeout(() => setCopiedId(current => current === id ? null : current), 2000);
+    } catch (err) {
+      setError("Couldn't copy the link.");
+    }
+  };
+
+  return (
+    <AnimatePresence>
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        className="fixed inset-0 z-[70] flex items-center justify-center bg-black/80 backdrop-blur-sm p-4"
+      >
+        <motion.div
+          initial={{ scale: 0.9, opacity: 0, y: 20 }}
+          animate={{ scale: 1, opacity: 1, y: 0 }}
+          exit={{ scale: 0.9, opacity: 0, y: 20 }}
+          className="w-full max-w-xl max-h-[90vh] bg-[#0D0221] border border-white/20 rounded-2xl shadow-2xl overflow-hidden relative flex flex-col"
+        >
+          <div className="flex items-center justify-between px-5 py-4 border-b border-white/10">
+            <h2 className="flex items-center gap-2 text-lg font-poppins font-bold text-white">
+              <Link2 size={20} className="text-[#00E0FF]" />
+              Share chat
+            </h2>
+            <button onClick={onClose} className="text-white/40 hover:text-white transition-colors">
+              <X size={20} />
+            </button>
+          </div>
+
+          <div className="flex-1 p-5 space-y-4 overflow-y-auto">
+            <p className="text-xs text-white/50">
+              Anyone with the link can read this conversation as it is now, the branch on screen only; later messages aren't added. Hide anything private before creating the link.
+            </p>
+
+            <div className="space-y-2">
+              {messages.map(message => {
+                const isHidden = redactions.messageIds.has(message.id);
+                const files = getMessageAttachments(message);
+                return (
+                  <div
+                    key={message.id}
+                    className={`flex items-start gap-3 p-3 rounded-lg border transition-colors ${isHidden ? 'bg-white/[0.02] border-white/5' : 'bg-white/5 border-white/10'}`}
+                  >
+                    {message.role === MessageRole.USER
+                      ? <User size={16} className="text-white/50 shrink-0 mt-0.5" />
+                      : <Bot size={16} className="text-[#00E0FF] shrink-0 mt-0.5" />}
+                    <div className={`flex-1 min-w-0 ${isHidden ? 'opacity-40' : ''}`}>
+                      <p className={`text-sm text-white/80 line-clamp-2 break-words ${isHidden ? 'line-through' : ''}`}>
+                        {message.text || (files.length > 0 ? 'Attachments only' : 'Empty message')}
+                      </p>
+                      {files.length > 0 && !isHidden && (
+                        <div className="flex flex-wrap gap-2 mt-2">
+                          {files.map(file => {
+                            const key = attachmentKey(message.id, file.id);
+                            const isFileHidden = redactions.attachmentKeys.has(key);
+                            const onToggle = () => setRedactions(prev => ({ ...prev, attachmentKeys: toggle(prev.attachmentKeys, key) }));
+                            if (file.kind !== 'image') {
+                              return (
+                                <button
+                                  key={file.id}
+                                  onClick={onToggle}
+                                  className={`flex items-center gap-1.5 max-w-[12rem] px-2 py-1 rounded-md border border-white/10 hover:border-[#00E0FF]/50 text-xs ${isFileHidden ? 'text-white/30 line-through' : 'text-white/70'}`}
+                                  title={isFileHidden ? 'Show this file' : 'Hide this file'}
+                                >
+                                  {isFileHidden ? <EyeOff size={12} className="shrink-0" /> : <Paperclip size={12} className="shrink-0" />}
+                                  <span className="truncate">{file.name}</span>
+                                </button>
+                              );
+                            }
+                            return (
+                              <button
+                                key={file.id}
+                                onClick={onToggle}
+                                className="relative w-14 h-14 rounded-md overflow-hidden border border-white/10 hover:border-[#00E0FF]/50"
+                                title={isFileHidden ? 'Show this image' : 'Hide this image'}
+                              >
+                                <img src={file.dataUrl} alt={file.name} className={`w-full h-full object-cover ${isFileHidden ? 'opacity-20' : ''}`} />
+                                {isFileHidden && <EyeOff size={16} className="absolute inset-0 m-auto text-white" />}
+                              </button>
+                            );
+                          })}
+                        </div>
+                      )}
+                    </div>
+                    <button
+                      onClick={() => setRedactions(prev => ({ ...prev, messageIds: toggle(prev.messageIds, message.id) }))}
+                      className={`p-1.5 rounded transition-colors ${isHidden ? 'text-amber-300' : 'text-white/40 hover:text-white'}`}
+                      title={isHidden ? 'Show this message' : 'Hide this message'}
+                    >
+                      {isHidden ? <EyeOff size={14} /> : <Eye size={14} />}
+                    </button>
+                  </div>
+                );
+              })}
+            </div>
+
+            {error && (
+              <p className="flex items-start gap-2 text-xs text-red-300">
+                <AlertCircle size={14} className="shrink-0 mt-0.5" />
+                {error}
+              </p>
+            )}
+
+            <button
+              onClick={handlePublish}
+              disabled={isPublishing || messages.length === 0}
+              className="w-full flex items-center justify-center gap-2 py-2.5 rounded-xl bg-gradient-to-r from-[#3B0A94] to-[#4316A1] text-sm font-semibold hover:shadow-[0_0_15px_rgba(59,10,148,0.6)] transition-all disabled:opacity-40"
+            >
+              {isPublishing ? <Loader2 size={16} className="animate-spin" /> : <Link2 size={16} />}
+              {isPublishing ? 'Creating link…' : 'Create link'}
+            </button>
+
+            <div>
+              <h3 className="text-xs font-semibold text-white/60 uppercase tracking-wider mb-2">Your shared chats</h3>
+              {links === null && !error && (
+                <p className="flex items-center gap-2 text-xs text-white/40"><Loader2 size={12} className="animate-spin" /> Loading…</p>
+              )}
+              {links?.length === 0 && (
+                <p className="text-xs text-white/40">You haven't shared any chats yet.</p>
+              )}
+              <div className="space-y-2">
+                {links?.map(link => (
+                  <div
+                    key={link.id}
+                    className={`flex items-center gap-3 p-3 rounded-lg border ${link.id === newLinkId ? 'bg-[#00E0FF]/10 border-[#00E0FF]/40' : 'bg-white/5 border-white/10'}`}
+                  >
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm text-white truncate" title={link.title}>
+                        {link.title}
+                        {link.sessionId === session.id && <span className="ml-2 text-[10px] text-[#00E0FF]">this chat</span>}
+                      </p>
+                      <p className="text-[11px] text-white/40 mt-0.5">
+                        {link.messageCount} messages · {new Date(link.createdAt).toLocaleDateString()}
+                      </p>
+                      {link.id === newLinkId && (
+                        <p className="text-[11px] text-[#00E0FF] truncate mt-0.5">{getShareUrl(link.id)}</p>
+                      )}
+                    </div>
+                    <button
+                      onClick={() => handleCopy(link.id)}
+                      className="p-1.5 text-white/40 hover:text-[#00E0FF] rounded"
+                      title="Copy link"
+                    >
+                      {copiedId === link.id ? <Check size={14} /> : <Copy size={14} />}
+                    </button>
+                    <button
+                      onClick={() => handleRevoke(link.id)}
+                      className="p-1.5 text-white/40 hover:text-red-400 rounded"
+                      title="Revoke: the link stops working"
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+        </motion.div>
+      </motion.div>
+    </AnimatePresence>
+  );
+};
+
+export default ShareDialog;
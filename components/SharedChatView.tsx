@@ -0,0 +1,105 @@
+import React, { useState, useEffect } from 'react';
+import { Link2, MessageSquarePlus, X, Loader2, AlertCircle } from 'lucide-react';
+import { SharedChat } from '../types';
+import MessageBubble from './MessageBubble';
+import { loadSharedChat, describeShareError } from '../services/share';
+
+interface SharedChatViewProps {
+  shareId: string;
+  canContinue: boolean; // False until the user's own chats are loaded
+  onContinue: (shared: SharedChat) => void;
+  onClose: () => void;
+}
+
+/**
+ * A chat someone shared, read-only. "Continue this chat" copies it into the reader's own
+ * chats, where it can be carried on like any other.
+ */
+const SharedChatView: React.FC<SharedChatViewProps> = ({ shareId, canContinue, onContinue, onClose }) => {
+  const [shared, setShared] = useState<SharedChat | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setShared(null);
+    setError(null);
+    loadSharedChat(shareId, controller.signal)
+      .then(setShared)
+      .catch(err => {
+        if (!controller.signal.aborted) setError(describeShareError(err));
+      });
+    return () => controller.abort();
+  }, [shareId]);
+
+  return (
+    <div className="flex flex-col h-screen bg-[#0D0221] font-sans text-white">
+      <header className="h-16 border-b border-white/10 flex items-center justify-between gap-3 px-4 bg-[#0D0221]/80 backdrop-blur-md sticky top-0 z-20">
+        <div className="flex items-center gap-3 min-w-0">
+          <Link2 size={20} className="text-[#00E0FF] shrink-0" />
+          <div className="min-w-0">
+            <h1 className="font-poppins font-semibold truncate">{shared?.title || 'Shared chat'}</h1>
+            <p className="text-[11px] text-white/40">
+              Read-only{shared ? ` · shared ${new Date(shared.createdAt).toLocaleDateString()}` : ''}
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center gap-2 shrink-0">
+          {shared && (
+            <button
+              onClick={() => onContinue(shared)}
+              disabled={!canContinue}
+              className="flex items-center gap-2 px-3 py-2 rounded-xl bg-gradient-to-r from-[#3B0A94] to-[#4316A1] text-sm font-semibold hover:shadow-[0_0_15px_rgba(59,10,148,0.6)] transition-all disabled:opacity-40"
+              title="Copy this chat into your own chats and carry on"
+            >
+              <MessageSquarePlus size={16} />
+              <span className="hidden sm:inline">Continue this chat</span>
+            </button>
+          )}
+          <button
+            onClick={onClose}
+            className="p-2 rounded-lg text-white/60 hover:text-white hover:bg-white/10 transition-colors"
+            title="Go to your chats"
+          >
+            <X size={20} />
+          </button>
+        </div>
+      </header>
+
+      <main className="flex-1 overflow-y-auto">
+        <div className="max-w-3xl mx-auto px-4 py-6">
+          {!shared && !error && (
+            <p className="flex items-center justify-center gap-2 py-20 text-white/50">
+              <Loader2 size={18} className="animate-spin" /> Loading the shared chat…
+            </p>
+          )}
+          {error && (
+            <div className="flex flex-col items-center gap-3 py-20 text-center">
+              <AlertCircle size={28} className="text-red-300" />
+              <p className="text-white/80">{error}</p>
+              <button onClick={onClose} className="text-sm text-[#00E0FF] hover:underline">Go to your chats</button>
+            </div>
+          )}
+          {shared?.session.messages.map(message => (
+            <MessageBubble
+              key={message.id}
+              message={message}
+              onImageClick={({ url }) => setPreviewUrl(url)}
+            />
+          ))}
+        </div>
+      </main>
+
+      {previewUrl && (
+        <div
+          className="fixed inset-0 z-[60] bg-black/90 backdrop-blur-sm flex items-center justify-center p-4"
+          onClick={() => setPreviewUrl(null)}
+        >
+          <img src={previewUrl} alt="Shared" className="max-w-full max-h-full rounded-lg shadow-2xl" />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SharedChatView;
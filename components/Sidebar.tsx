@@ -1,7 +1,15 @@
-import React, { useState } from 'react';
-import { ChatSession } from '../types';
-import { MessageSquare, Plus, Trash2, Pin, Moon, Edit2, X, Search } from 'lucide-react';
+import React, { useState, useRef, useMemo } from 'react';
+import { ChatSession, UserProfile, MessageRole, SyncStatus } from '../types';
+import { MessageSquare, Plus, Trash2, Pin, Moon, Edit2, X, Search, LogIn, LogOut, Download, Upload, AlertCircle, SlidersHorizontal, Brain, Image as ImageIcon, Cloud, CloudOff, RefreshCw, ThumbsUp } from 'lucide-react';
 import { motion } from 'framer-motion';
+import { ExportFormat, ImportMode, ImportResult, parseImportFile } from '../services/transfer';
+import { SearchFilters, SearchResult } from '../services/search';
+
+const EXPORT_FORMATS: { format: ExportFormat; label: string; hint: string }[] = [
+  { format: 'json', label: 'JSON', hint: 'Backup, can be imported again' },
+  { format: 'markdown', label: 'Markdown', hint: 'Images included as files' },
+  { format: 'html', label: 'HTML', hint: 'Standalone styled page' },
+];
 
 interface SidebarProps {
   isOpen: boolean;
@@ -13,8 +21,58 @@ interface SidebarProps {
   onDeleteSession: (id: string) => void;
   onPinSession: (id: string) => void;
   onClearAll: () => void;
+  user: UserProfile | null;
+  onLogin: () => void;
+  onLogout: () => void;
+  syncStatus: SyncStatus;
+  onSyncNow: () => void;
+  onExportSessions: (sessionIds: string[] | null, format: ExportFormat) => void; // null exports every chat
+  onImportSessions: (imported: ChatSession[], mode: ImportMode) => Promise<ImportResult>;
+  feedbackCount: number; // Replies the user has rated
+  onExportFeedback: () => void;
+  searchMessages: (query: string, filters: SearchFilters) => SearchResult[];
+  searchVersion: number; // Changes whenever the message index does
+  onOpenSearchResult: (sessionId: string, messageId: string) => void;
+  onOpenMemories: () => void;
+}
+
+interface FilterState {
+  role: '' | MessageRole;
+  from: string; // yyyy-mm-dd from <input type="date">
+  to: string;
+  hasImage: boolean;
 }
 
+const EMPTY_FILTERS: FilterState = { role: '', from: '', to: '', hasImage: false };
+
+const formatTime = (timestamp: number) => new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+/**
+ * Where this device's chats stand with the account; click to sync right away.
+ */
+const SyncIndicator: React.FC<{ status: SyncStatus; onSyncNow: () => void }> = ({ status, onSyncNow }) => {
+  const { state, lastSyncedAt, error } = status;
+  if (state === 'off') return null;
+  const [Icon, label, color] = {
+    syncing: [RefreshCw, 'Syncing…', 'text-[#00E0FF]'],
+    synced: [Cloud, lastSyncedAt ? `Synced at ${formatTime(lastSyncedAt)}` : 'Synced', 'text-white/50'],
+    offline: [CloudOff, 'Offline, changes sync later', 'text-amber-300'],
+    error: [AlertCircle, "Couldn't sync, click to retry", 'text-red-300'],
+  }[state] as [typeof Cloud, string, string];
+
+  return (
+    <button
+      onClick={onSyncNow}
+      disabled={state === 'syncing'}
+      className={`w-full flex items-center gap-2 mb-3 px-2 py-1.5 rounded-lg text-xs hover:bg-white/5 transition-colors disabled:hover:bg-transparent ${color}`}
+      title={error || 'Chats sync to your account. Click to sync now.'}
+    >
+      <Icon size={14} className={state === 'syncing' ? 'animate-spin' : ''} />
+      <span className="truncate">{label}</span>
+    </button>
+  );
+};
+
 const Sidebar: React.FC<SidebarProps> = ({
   isOpen,
   onClose,
@@ -24,9 +82,75 @@ const Sidebar: React.FC<SidebarProps> = ({
   onNewChat,
   onDeleteSession,
   onPinSession,
-  onClearAll
+  onClearAll,
+  user,
+  onLogin,
+  onLogout,
+  syncStatus,
+  onSyncNow,
+  onExportSessions,
+  onImportSessions,
+  feedbackCount,
+  onExportFeedback,
+  searchMessages,
+  searchVersion,
+  onOpenSearchResult,
+  onOpenMemories
 }) => {
   const [searchTerm, setSearchTerm] = useState('');
+  const [showFilters, setShowFilters] = useState(false);
+  const [filters, setFilters] = useState<FilterState>(EMPTY_FILTERS);
+  // Chats the export panel is open for; null means all chats
+  const [exportTarget, setExportTarget] = useState<{ sessionIds: string[] | null; label: string } | null>(null);
+  const [pendingImport, setPendingImport] = useState<ChatSession[] | null>(null);
+  const [importStatus, setImportStatus] = useState<{ error: boolean; text: string } | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const handleExport = (format: ExportFormat) => {
+    if (!exportTarget) return;
+    onExportSessions(exportTarget.sessionIds, format);
+    setExportTarget(null);
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow picking the same file again
+    if (!file) return;
+    setExportTarget(null);
+    try {
+      const imported = parseImportFile(await file.text());
+      if (imported.length === 0) throw new Error('The export contains no chats');
+      setPendingImport(imported);
+      setImportStatus(null);
+    } catch (error) {
+      setPendingImport(null);
+      setImportStatus({ error: true, text: error instanceof Error ? error.message : 'Import failed' });
+    }
+  };
+
+  const handleConfirmImport = async (mode: ImportMode) => {
+    if (!pendingImport) return;
+    const result = await onImportSessions(pendingImport, mode);
+    setPendingImport(null);
+    const parts = [`${result.added} imported`];
+    if (result.renamed) parts.push(`${result.renamed} kept as copies`);
+    if (result.skipped) parts.push(`${result.skipped} already present`);
+    setImportStatus({ error: false, text: parts.join(', ') });
+  };
+
+  const filtersActive = !!(filters.role || filters.from || filters.to || filters.hasImage);
+
+  const messageResults = useMemo(() => {
+    if (!searchTerm.trim() && !filtersActive) return [];
+    return searchMessages(searchTerm, {
+      role: filters.role || undefined,
+      from: filters.from ? new Date(`${filters.from}T00:00:00`).getTime() : undefined,
+      to: filters.to ? new Date(`${filters.to}T23:59:59.999`).getTime() : undefined,
+      hasImage: filters.hasImage || undefined,
+    });
+  }, [searchTerm, filters, filtersActive, searchVersion]);
+
+  const sessionTitles = useMemo(() => new Map(sessions.map(s => [s.id, s.title])), [sessions]);
 
   const filteredSessions = sessions.filter(s => 
     s.title.toLowerCase().includes(searchTerm.toLowerCase())
@@ -71,12 +195,69 @@ const Sidebar: React.FC<SidebarProps> = ({
             <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-white/40" size={16} />
             <input 
               type="text"
-              placeholder="Search chats..."
+              placeholder="Search chats & messages..."
               value={searchTerm}
               onChange={(e) => setSearchTerm(e.target.value)}
-              className="w-full bg-white/5 border border-white/10 rounded-lg pl-10 pr-4 py-2 text-sm text-white focus:outline-none focus:border-[#00E0FF]/50 transition-colors"
+              className="w-full bg-white/5 border border-white/10 rounded-lg pl-10 pr-10 py-2 text-sm text-white focus:outline-none focus:border-[#00E0FF]/50 transition-colors"
             />
+            <button
+              onClick={() => setShowFilters(!showFilters)}
+              className={`absolute right-2 top-1/2 -translate-y-1/2 p-1 rounded transition-colors ${filtersActive || showFilters ? 'text-[#00E0FF]' : 'text-white/40 hover:text-white'}`}
+              title="Message filters"
+            >
+              <SlidersHorizontal size={14} />
+            </button>
           </div>
+
+          {/* Message filters */}
+          {showFilters && (
+            <div className="mt-2 p-2 rounded-lg bg-white/5 border border-white/10 space-y-2 text-xs text-white/70">
+              <div className="flex gap-1">
+                {([['', 'All'], [MessageRole.USER, 'You'], [MessageRole.MODEL, 'Xeno']] as const).map(([role, label]) => (
+                  <button
+                    key={label}
+                    onClick={() => setFilters({ ...filters, role })}
+                    className={`flex-1 py-1 rounded ${filters.role === role ? 'bg-[#00E0FF]/20 text-[#00E0FF]' : 'hover:bg-white/10'}`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+              <div className="flex items-center gap-1">
+                <input
+                  type="date"
+                  value={filters.from}
+                  onChange={(e) => setFilters({ ...filters, from: e.target.value })}
+                  className="flex-1 min-w-0 bg-transparent border border-white/10 rounded px-1 py-0.5 [color-scheme:dark]"
+                  title="From"
+                />
+                <span>–</span>
+                <input
+                  type="date"
+                  value={filters.to}
+                  onChange={(e) => setFilters({ ...filters, to: e.target.value })}
+                  className="flex-1 min-w-0 bg-transparent border border-white/10 rounded px-1 py-0.5 [color-scheme:dark]"
+                  title="To"
+                />
+              </div>
+              <div className="flex items-center justify-between">
+                <label className="flex items-center gap-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={filters.hasImage}
+                    onChange={(e) => setFilters({ ...filters, hasImage: e.target.checked })}
+                    className="accent-[#00E0FF]"
+                  />
+                  Has image
+                </label>
+                {filtersActive && (
+                  <button onClick={() => setFilters(EMPTY_FILTERS)} className="text-white/40 hover:text-white">
+                    Reset
+                  </button>
+                )}
+              </div>
+            </div>
+          )}
         </div>
 
         {/* Chat List */}
@@ -110,6 +291,13 @@ const Sidebar: React.FC<SidebarProps> = ({
                     
                     {/* Actions (visible on hover or active) */}
                     <div className="flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                        <button 
+                            onClick={(e) => { e.stopPropagation(); setPendingImport(null); setExportTarget({ sessionIds: [session.id], label: session.title }); }}
+                            className="p-1.5 rounded hover:bg-white/10 text-white/50 hover:text-white"
+                            title="Export chat"
+                        >
+                            <Download size={14} />
+                        </button>
                         <button 
                             onClick={(e) => { e.stopPropagation(); onPinSession(session.id); }}
                             className={`p-1.5 rounded hover:bg-white/10 ${session.isPinned ? 'text-[#00E0FF] opacity-100' : 'text-white/50'}`}
@@ -126,16 +314,178 @@ const Sidebar: React.FC<SidebarProps> = ({
                 </div>
             ))}
 
-            {filteredSessions.length === 0 && (
+            {filteredSessions.length === 0 && messageResults.length === 0 && (
                 <div className="text-center text-white/30 py-8 text-sm">
                     No chats found
                 </div>
             )}
+
+            {/* Message search results */}
+            {messageResults.length > 0 && (
+                <div className="pt-4">
+                    <p className="px-3 pb-2 text-[10px] uppercase tracking-wider text-white/40">Messages</p>
+                    {messageResults.map(({ document, snippet }) => (
+                        <button
+                            key={document.messageId}
+                            onClick={() => { onOpenSearchResult(document.sessionId, document.messageId); onClose(); }}
+                            className="w-full text-left p-3 rounded-lg hover:bg-white/5 transition-colors"
+                        >
+                            <div className="flex items-center gap-2 text-[10px] text-white/40 mb-1">
+                                <span className={document.role === MessageRole.USER ? 'text-purple-300' : 'text-[#00E0FF]'}>
+                                    {document.role === MessageRole.USER ? 'You' : 'Xeno'}
+                                </span>
+                                <span className="truncate flex-1">{sessionTitles.get(document.sessionId)}</span>
+                                {document.hasImage && <ImageIcon size={10} />}
+                                <span>{new Date(document.timestamp).toLocaleDateString()}</span>
+                            </div>
+                            <p className="text-xs text-white/70 line-clamp-3 break-words">
+                                {snippet.map((segment, i) => segment.match
+                                    ? <mark key={i} className="bg-[#00E0FF]/30 text-white rounded px-0.5">{segment.text}</mark>
+                                    : <span key={i}>{segment.text}</span>
+                                )}
+                            </p>
+                        </button>
+                    ))}
+                </div>
+            )}
         </div>
 
+        {/* Export format picker */}
+        {exportTarget && (
+          <div className="mx-2 mb-2 p-3 rounded-xl bg-[#0D0221] border border-[#00E0FF]/30 shadow-[0_0_20px_rgba(0,224,255,0.1)]">
+            <div className="flex items-center justify-between mb-2">
+              <span className="text-xs text-white/70 truncate">Export “{exportTarget.label}”</span>
+              <button onClick={() => setExportTarget(null)} className="text-white/40 hover:text-white">
+                <X size={14} />
+              </button>
+            </div>
+            <div className="space-y-1">
+              {EXPORT_FORMATS.map(({ format, label, hint }) => (
+                <button
+                  key={format}
+                  onClick={() => handleExport(format)}
+                  className="w-full flex items-center justify-between p-2 rounded-lg hover:bg-white/10 text-left transition-colors"
+                >
+                  <span className="text-sm text-white">{label}</span>
+                  <span className="text-[10px] text-white/40">{hint}</span>
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Import confirmation / result */}
+        {pendingImport && (
+          <div className="mx-2 mb-2 p-3 rounded-xl bg-[#0D0221] border border-[#00E0FF]/30">
+            <p className="text-sm text-white mb-1">Import {pendingImport.length} chat{pendingImport.length === 1 ? '' : 's'}?</p>
+            <p className="text-[10px] text-white/40 mb-3">Merge keeps your chats; chats with the same id are kept as copies. Replace deletes all current chats first.</p>
+            <div className="flex gap-2">
+              <button
+                onClick={() => handleConfirmImport('merge')}
+                className="flex-1 p-2 rounded-lg bg-[#00E0FF]/20 hover:bg-[#00E0FF]/30 text-[#00E0FF] text-xs transition-colors"
+              >
+                Merge
+              </button>
+              <button
+                onClick={() => handleConfirmImport('replace')}
+                className="flex-1 p-2 rounded-lg bg-red-500/10 hover:bg-red-500/20 text-red-400 text-xs transition-colors"
+              >
+                Replace All
+              </button>
+              <button
+                onClick={() => setPendingImport(null)}
+                className="p-2 rounded-lg bg-white/5 hover:bg-white/10 text-white/60 text-xs transition-colors"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        )}
+        {importStatus && !pendingImport && (
+          <div className={`mx-2 mb-2 p-2 rounded-lg flex items-center gap-2 text-xs ${importStatus.error ? 'bg-red-500/10 text-red-300' : 'bg-[#00E0FF]/10 text-[#00E0FF]'}`}>
+            {importStatus.error && <AlertCircle size={14} className="flex-shrink-0" />}
+            <span className="flex-1">{importStatus.text}</span>
+            <button onClick={() => setImportStatus(null)} className="opacity-60 hover:opacity-100">
+              <X size={12} />
+            </button>
+          </div>
+        )}
+
         {/* Footer */}
         <div className="p-4 border-t border-white/10">
+          {/* Account */}
+          {user ? (
+            <div className="flex items-center gap-3 mb-3">
+              {user.picture ? (
+                <img src={user.picture} alt={user.name} className="w-8 h-8 rounded-full object-cover" />
+              ) : (
+                <div className="w-8 h-8 rounded-full bg-gradient-to-br from-purple-500 to-blue-600 flex items-center justify-center text-sm font-semibold">
+                  {user.name.charAt(0).toUpperCase()}
+                </div>
+              )}
+              <div className="flex-1 overflow-hidden">
+                <p className="truncate text-sm text-white">{user.name}</p>
+                <p className="truncate text-xs text-white/40">{user.email}</p>
+              </div>
+              <button
+                onClick={onLogout}
+                className="p-1.5 rounded hover:bg-white/10 text-white/50 hover:text-white"
+                title="Log out"
+              >
+                <LogOut size={16} />
+              </button>
+            </div>
+          ) : (
+            <button
+              onClick={onLogin}
+              className="w-full flex items-center justify-center gap-2 p-2 mb-3 rounded-lg bg-[#4316A1]/50 hover:bg-[#4316A1] text-white text-sm transition-colors"
+            >
+              <LogIn size={16} />
+              Log In
+            </button>
+          )}
+          {user && <SyncIndicator status={syncStatus} onSyncNow={onSyncNow} />}
+          <div className="flex gap-2 mb-2">
+            <button 
+                onClick={() => { setPendingImport(null); setExportTarget({ sessionIds: null, label: 'All chats' }); }}
+                disabled={sessions.length === 0}
+                className="flex-1 flex items-center justify-center gap-2 p-2 rounded-lg bg-white/5 hover:bg-white/10 text-white/60 hover:text-white text-xs transition-colors disabled:opacity-40"
+            >
+                <Download size={14} />
+                Export
+            </button>
+            <button 
+                onClick={() => importInputRef.current?.click()}
+                className="flex-1 flex items-center justify-center gap-2 p-2 rounded-lg bg-white/5 hover:bg-white/10 text-white/60 hover:text-white text-xs transition-colors"
+            >
+                <Upload size={14} />
+                Import
+            </button>
+            <button 
+                onClick={onExportFeedback}
+                disabled={feedbackCount === 0}
+                className="flex-1 flex items-center justify-center gap-2 p-2 rounded-lg bg-white/5 hover:bg-white/10 text-white/60 hover:text-white text-xs transition-colors disabled:opacity-40"
+                title={`Download your ${feedbackCount} reply ratings as JSON Lines`}
+            >
+                <ThumbsUp size={14} />
+                Ratings
+            </button>
+            <input
+                type="file"
+                ref={importInputRef}
+                className="hidden"
+                accept="application/json,.json"
+                onChange={handleImportFile}
+            />
+          </div>
           <div className="flex gap-2">
+            <button 
+                onClick={() => { onOpenMemories(); onClose(); }}
+                className="flex-1 flex items-center justify-center gap-2 p-2 rounded-lg bg-white/5 hover:bg-white/10 text-white/60 hover:text-white text-xs transition-colors"
+            >
+                <Brain size={14} />
+                Memories
+            </button>
             <button 
                 onClick={onClearAll}
                 className="flex-1 flex items-center justify-center gap-2 p-2 rounded-lg bg-white/5 hover:bg-red-500/10 hover:text-red-400 text-white/60 text-xs transition-colors"
@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import { Wrench, ChevronDown, ChevronRight, Check, X, Loader2, ShieldAlert, Ban } from 'lucide-react';
+import { ToolCall, ToolCallStatus } from '../types';
+import { getTool } from '../services/tools';
+
+interface ToolStepsProps {
+  calls: ToolCall[];
+  // Only while the reply is being generated; approves or denies a pending call
+  onDecision?: (callId: string, approved: boolean) => void;
+}
+
+const STATUS_LABELS: Record<ToolCallStatus, string> = {
+  pending: 'Needs your approval',
+  running: 'Running…',
+  done: 'Done',
+  error: 'Failed',
+  denied: 'Not allowed',
+};
+
+const StatusIcon: React.FC<{ status: ToolCallStatus }> = ({ status }) => {
+  switch (status) {
+    case 'pending': return <ShieldAlert size={12} className="text-amber-300" />;
+    case 'running': return <Loader2 size={12} className="text-[#00E0FF] animate-spin" />;
+    case 'done': return <Check size={12} className="text-green-400" />;
+    case 'error': return <X size={12} className="text-red-400" />;
+    case 'denied': return <Ban size={12} className="text-white/40" />;
+  }
+};
+
+const formatValue = (value: unknown): string =>
+  typeof value === 'string' ? value : JSON.stringify(value, null, 2);
+
+const ToolStep: React.FC<{ call: ToolCall; onDecision?: ToolStepsProps['onDecision'] }> = ({ call, onDecision }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const tool = getTool(call.name);
+  const awaitingApproval = call.status === 'pending' && !!onDecision;
+  const expanded = isOpen || awaitingApproval;
+
+  return (
+    <div className={`rounded-lg border text-xs ${awaitingApproval ? 'border-amber-300/40 bg-amber-300/5' : 'border-white/10 bg-black/20'}`}>
+      <button
+        onClick={() => setIsOpen(prev => !prev)}
+        className="w-full flex items-center gap-2 px-2.5 py-1.5 text-left text-white/70 hover:text-white transition-colors"
+      >
+        {expanded ? <ChevronDown size={12} /> : <ChevronRight size={12} />}
+        <Wrench size={12} className="text-[#00E0FF]" />
+        <span className="font-medium">{tool?.label || call.name}</span>
+        <span className="ml-auto flex items-center gap-1 text-white/40">
+          <StatusIcon status={call.status} />
+          {STATUS_LABELS[call.status]}
+        </span>
+      </button>
+      {expanded && (
+        <div className="px-2.5 pb-2.5 space-y-2">
+          <div>
+            <p className="text-[10px] uppercase tracking-wide text-white/30 mb-1">Input</p>
+            <pre className="whitespace-pre-wrap break-words bg-black/30 rounded p-2 text-white/70 max-h-48 overflow-auto">{formatValue(call.args)}</pre>
+          </div>
+          {call.error !== undefined && (
+            <div>
+              <p className="text-[10px] uppercase tracking-wide text-white/30 mb-1">Error</p>
+              <pre className="whitespace-pre-wrap break-words bg-red-500/10 rounded p-2 text-red-300 max-h-48 overflow-auto">{call.error}</pre>
+            </div>
+          )}
+          {call.result !== undefined && (
+            <div>
+              <p className="text-[10px] uppercase tracking-wide text-white/30 mb-1">Result</p>
+              <pre className="whitespace-pre-wrap break-words bg-black/30 rounded p-2 text-white/70 max-h-48 overflow-auto">{formatValue(call.result)}</pre>
+            </div>
+          )}
+          {awaitingApproval && (
+            <div className="flex items-center gap-2">
+              <span className="text-white/60 flex-1">Xeno wants to do this. Allow it?</span>
+              <button
+                onClick={() => onDecision!(call.id, false)}
+                className="px-3 py-1 rounded-lg bg-white/10 text-white/80 hover:bg-white/20 transition-colors"
+              >
+                Deny
+              </button>
+              <button
+                onClick={() => onDecision!(call.id, true)}
+                className="px-3 py-1 rounded-lg bg-[#00E0FF] text-[#0D0221] font-medium hover:shadow-[0_0_10px_#00E0FF] transition-all"
+              >
+                Allow
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+/**
+ * The tools a reply used, as collapsible steps above its text.
+ */
+const ToolSteps: React.FC<ToolStepsProps> = ({ calls, onDecision }) => (
+  <div className="w-full min-w-[240px] flex flex-col gap-1.5 mb-2">
+    {calls.map(call => <ToolStep key={call.id} call={call} onDecision={onDecision} />)}
+  </div>
+);
+
+export default ToolSteps;
@@ -0,0 +1,122 @@
+import React, { useEffect, useState } from 'react';
+import { AudioLines, Play, X } from 'lucide-react';
+import {
+  VoiceSettings as VoiceSettingsValue,
+  SPEECH_LANGUAGES,
+  listVoices,
+  speak,
+  getSpeechRecognizer,
+  isSpeechSynthesisSupported,
+} from '../services/speech';
+
+interface VoiceSettingsProps {
+  settings: VoiceSettingsValue;
+  onChange: (settings: VoiceSettingsValue) => void;
+  onClose: () => void;
+}
+
+// Voices for the languages we support first, then everything else the browser offers
+const isPreferredVoice = (voice: SpeechSynthesisVoice) => /^(hi|en)[-_]IN/i.test(voice.lang);
+
+const VoiceSettings: React.FC<VoiceSettingsProps> = ({ settings, onChange, onClose }) => {
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([]);
+  const canListen = getSpeechRecognizer().isSupported();
+  const canSpeak = isSpeechSynthesisSupported();
+
+  useEffect(() => {
+    listVoices().then(available => {
+      setVoices([...available].sort((a, b) =>
+        Number(isPreferredVoice(b)) - Number(isPreferredVoice(a)) || a.lang.localeCompare(b.lang)
+      ));
+    });
+  }, []);
+
+  const update = (patch: Partial<VoiceSettingsValue>) => onChange({ ...settings, ...patch });
+
+  return (
+    <div
+      className="absolute right-0 top-12 z-30 w-72 bg-[#0D0221]/95 border border-white/15 rounded-xl shadow-[0_0_20px_rgba(0,224,255,0.1)] backdrop-blur-md p-4 text-sm animate-[fadeIn_0.2s_ease-out]"
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-2 text-[#00E0FF]">
+          <AudioLines size={16} />
+          <span className="font-semibold">Voice</span>
+        </div>
+        <button onClick={onClose} className="text-white/40 hover:text-white transition-colors">
+          <X size={14} />
+        </button>
+      </div>
+
+      <label className="block text-xs text-white/50 mb-1">Speech input language</label>
+      <select
+        value={settings.inputLang}
+        onChange={(e) => update({ inputLang: e.target.value })}
+        disabled={!canListen}
+        className="w-full mb-3 bg-white/5 border border-white/10 rounded-lg px-2 py-1.5 focus:outline-none focus:border-[#00E0FF]/50 disabled:opacity-40"
+      >
+        {SPEECH_LANGUAGES.map(lang => (
+          <option key={lang.code} value={lang.code} className="bg-[#0D0221]">{lang.label}</option>
+        ))}
+      </select>
+      {!canListen && (
+        <p className="text-[11px] text-white/40 -mt-2 mb-3">Speech input isn't supported in this browser.</p>
+      )}
+
+      <label className="block text-xs text-white/50 mb-1">Reading voice</label>
+      <div className="flex gap-2 mb-3">
+        <select
+          value={settings.voiceURI || ''}
+          onChange={(e) => update({ voiceURI: e.target.value || undefined })}
+          disabled={!canSpeak}
+          className="flex-1 min-w-0 bg-white/5 border border-white/10 rounded-lg px-2 py-1.5 focus:outline-none focus:border-[#00E0FF]/50 truncate disabled:opacity-40"
+        >
+          <option value="" className="bg-[#0D0221]">Automatic (match language)</option>
+          {voices.map(voice => (
+            <option key={voice.voiceURI} value={voice.voiceURI} className="bg-[#0D0221]">
+              {voice.name} ({voice.lang})
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={() => speak('Namaste! Main Xeno hoon. नमस्ते, मैं आपकी मदद कर सकता हूँ।', settings)}
+          disabled={!canSpeak}
+          className="p-2 rounded-lg bg-white/5 border border-white/10 text-white/60 hover:text-[#00E0FF] disabled:opacity-40 transition-colors"
+          title="Preview voice"
+        >
+          <Play size={14} />
+        </button>
+      </div>
+
+      <label className="block text-xs text-white/50 mb-1">Speed · {settings.rate.toFixed(1)}×</label>
+      <input
+        type="range"
+        min={0.5}
+        max={2}
+        step={0.1}
+        value={settings.rate}
+        onChange={(e) => update({ rate: Number(e.target.value) })}
+        disabled={!canSpeak}
+        className="w-full mb-3 accent-[#00E0FF]"
+      />
+
+      <label className="flex items-start gap-2 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={settings.autoSpeak}
+          onChange={(e) => update({ autoSpeak: e.target.checked })}
+          disabled={!canSpeak}
+          className="mt-0.5 accent-[#00E0FF]"
+        />
+        <span>
+          <span className="block">Conversation mode</span>
+          <span className="block text-[11px] text-white/40">
+            Replies are read aloud. Spoken messages send when you pause, and the mic reopens after Xeno answers.
+          </span>
+        </span>
+      </label>
+    </div>
+  );
+};
+
+export default VoiceSettings;
@@ -0,0 +1,131 @@
+// Stub of the Gemini REST API for developing and testing the API server without a real key
+// or quota. Run it, then start the server against it:
+//
+//   npm run mock-gemini
+//   GEMINI_UPSTREAM_URL=http://localhost:4100 GEMINI_API_KEY=test npm run proxy
+//
+// Replies echo the last user message. Put a marker in a message to exercise the failure paths:
+//   [fail:429], [fail:500], ...   answer with that status (429 asks for a 2 s wait)
+//   [block]                      the prompt is blocked by the safety filters
+//   [slow]                       stream one word per second
+//
+// MOCK_GEMINI_PORT changes the port.
+
+import http from 'node:http';
+
+const PORT = Number(process.env.MOCK_GEMINI_PORT || 4100);
+const EMBEDDING_DIMENSIONS = 768;
+// 1x1 PNG, for image generation and edits
+const PIXEL_PNG = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk4D9TDwAEXgGGm7Ho8wAAAABJRU5ErkJggg==';
+
+const STATUS_NAMES = { 400: 'INVALID_ARGUMENT', 403: 'PERMISSION_DENIED', 429: 'RESOURCE_EXHAUSTED', 500: 'INTERNAL', 503: 'UNAVAILABLE' };
+
+const send = (res, status, body, headers = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+const sendError = (res, code) => send(res, code, {
+  error: {
+    code,
+    message: `Mock failure (${code})`,
+    status: STATUS_NAMES[code] || 'UNKNOWN',
+    details: code === 429 ? [{ '@type': 'type.googleapis.com/google.rpc.RetryInfo', retryDelay: '2s' }] : undefined,
+  },
+});
+
+const readBody = (req) => new Promise((resolve) => {
+  let raw = '';
+  req.on('data', chunk => { raw += chunk; });
+  req.on('end', () => {
+    try { resolve(JSON.parse(raw || '{}')); } catch { resolve({}); }
+  });
+});
+
+const lastUserText = (body) => {
+  const turn = [...(body.contents || [])].reverse().find(content => content.role === 'user');
+  return (turn?.parts || []).map(part => part.text || '').join(' ').trim();
+};
+
+// Any input text, whether chat contents, an image prompt or texts to embed
+const requestText = (body) =>
+  lastUserText(body) || body.instances?.[0]?.prompt || (body.requests || []).map(r => r.content?.parts?.[0]?.text || '').join(' ');
+
+const candidate = (parts, finishReason) => ({ candidates: [{ content: { role: 'model', parts }, finishReason, index: 0 }] });
+
+/**
+ * The reply to a generateContent request: JSON for structured output, an image when one
+ * was asked for, otherwise an echo.
+ */
+const replyParts = (body) => {
+  const text = lastUserText(body);
+  const config = body.generationConfig || {};
+  if (config.responseMimeType === 'application/json') {
+    const route = /\b(draw|image|picture|photo)\b/i.test(text) ? 'image' : 'chat';
+    return [{ text: JSON.stringify(route === 'image' ? { route, imagePrompt: text } : { route }) }];
+  }
+  if ((config.responseModalities || []).includes('IMAGE')) {
+    return [{ inlineData: { mimeType: 'image/png', data: PIXEL_PNG } }];
+  }
+  return [{ text: `Mock reply to: ${text || '(no text)'}` }];
+};
+
+// Deterministic vectors, so the same text always embeds the same way
+const embed = (text) => {
+  const values = new Array(EMBEDDING_DIMENSIONS).fill(0);
+  for (const word of text.toLowerCase().split(/\W+/).filter(Boolean)) {
+    let hash = 0;
+    for (const char of word) hash = (hash * 31 + char.charCodeAt(0)) % EMBEDDING_DIMENSIONS;
+    values[hash] += 1;
+  }
+  return { values };
+};
+
+const sleep = (ms) => new Promise(resolve => setTimeout(resolve, ms));
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url, `http://localhost:${PORT}`);
+  const match = url.pathname.match(/^\/v1beta\/models\/([^:]+):(\w+)$/);
+  console.log(req.method, url.pathname);
+  if (req.method !== 'POST' || !match) return sendError(res, 404);
+
+  const [, , method] = match;
+  const body = await readBody(req);
+  const text = requestText(body);
+
+  const failure = text.match(/\[fail:(\d{3})\]/);
+  if (failure) return sendError(res, Number(failure[1]));
+  if (text.includes('[block]')) {
+    return send(res, 200, { promptFeedback: { blockReason: 'SAFETY', blockReasonMessage: 'Mock safety block' } });
+  }
+
+  switch (method) {
+    case 'generateContent':
+      return send(res, 200, candidate(replyParts(body), 'STOP'));
+
+    case 'streamGenerateContent': {
+      res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+      const words = replyParts(body)[0].text?.split(' ') || [];
+      for (const [index, word] of words.entries()) {
+        if (text.includes('[slow]')) await sleep(1000);
+        const last = index === words.length - 1;
+        res.write(`data: ${JSON.stringify(candidate([{ text: (index ? ' ' : '') + word }], last ? 'STOP' : undefined))}\n\n`);
+      }
+      return res.end();
+    }
+
+    case 'predict': {
+      const count = body.parameters?.sampleCount || 1;
+      const mimeType = body.parameters?.outputOptions?.mimeType || 'image/png';
+      return send(res, 200, { predictions: Array.from({ length: count }, () => ({ bytesBase64Encoded: PIXEL_PNG, mimeType })) });
+    }
+
+    case 'batchEmbedContents':
+      return send(res, 200, { embeddings: (body.requests || []).map(r => embed(r.content?.parts?.map(p => p.text).join(' ') || '')) });
+
+    default:
+      return sendError(res, 404);
+  }
+});
+
+server.listen(PORT, () => console.log(`Mock Gemini API listening on http://localhost:${PORT}`));
@@ -0,0 +1,165 @@
+// Local mock identity provider for developing and testing the auth flows.
+// Implements the email/password endpoints expected by services/auth.ts plus a minimal
+// OpenID Connect provider (discovery, authorize, token with PKCE, userinfo, end_session).
+//
+//   npm run mock-idp          # listens on http://localhost:4000
+//   demo@xeno.ai / password123
+//
+// MOCK_IDP_PORT and MOCK_IDP_TOKEN_TTL (seconds) can be set to change the defaults; a short
+// TTL is handy for exercising token refresh.
+
+import http from 'node:http';
+import crypto from 'node:crypto';
+
+const PORT = Number(process.env.MOCK_IDP_PORT || 4000);
+const TOKEN_TTL = Number(process.env.MOCK_IDP_TOKEN_TTL || 300);
+const ISSUER = `http://localhost:${PORT}`;
+
+const USERS = {
+  'demo@xeno.ai': { id: 'user-demo', email: 'demo@xeno.ai', name: 'Demo User', password: 'password123' },
+};
+
+const codes = new Map(); // code -> { user, challenge, redirectUri, clientId }
+const accessTokens = new Map(); // token -> { user, expiresAt }
+const refreshTokens = new Map(); // token -> user
+
+const randomToken = () => crypto.randomBytes(24).toString('base64url');
+
+const profile = ({ password, ...user }) => user;
+
+const issueTokens = (user) => {
+  const accessToken = randomToken();
+  const refreshToken = randomToken();
+  accessTokens.set(accessToken, { user, expiresAt: Date.now() + TOKEN_TTL * 1000 });
+  refreshTokens.set(refreshToken, user);
+  return {
+    access_token: accessToken,
+    refresh_token: refreshToken,
+    // Not a signed JWT; the client only echoes it back as id_token_hint
+    id_token: randomToken(),
+    token_type: 'Bearer',
+    expires_in: TOKEN_TTL,
+    user: profile(user),
+  };
+};
+
+const send = (res, status, body, headers = {}) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    ...headers,
+  });
+  res.end(body === undefined ? '' : JSON.stringify(body));
+};
+
+const readBody = (req) => new Promise((resolve) => {
+  let raw = '';
+  req.on('data', chunk => { raw += chunk; });
+  req.on('end', () => {
+    if ((req.headers['content-type'] || '').includes('application/json')) {
+      try { resolve(JSON.parse(raw || '{}')); } catch { resolve({}); }
+    } else {
+      resolve(Object.fromEntries(new URLSearchParams(raw)));
+    }
+  });
+});
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url, ISSUER);
+  console.log(req.method, url.pathname);
+
+  if (req.method === 'OPTIONS') return send(res, 204);
+
+  // --- Email / password ---
+  if (req.method === 'POST' && url.pathname === '/auth/login') {
+    const { email, password } = await readBody(req);
+    const user = USERS[email];
+    if (!user || user.password !== password) {
+      return send(res, 401, { error: 'invalid_grant', error_description: 'Invalid email or password' });
+    }
+    return send(res, 200, issueTokens(user));
+  }
+
+  if (req.method === 'POST' && url.pathname === '/auth/refresh') {
+    const { refresh_token } = await readBody(req);
+    const user = refreshTokens.get(refresh_token);
+    if (!user) return send(res, 401, { error: 'invalid_grant', error_description: 'Refresh token expired' });
+    refreshTokens.delete(refresh_token);
+    return send(res, 200, issueTokens(user));
+  }
+
+  if (req.method === 'POST' && url.pathname === '/auth/logout') {
+    const { refresh_token } = await readBody(req);
+    refreshTokens.delete(refresh_token);
+    return send(res, 204);
+  }
+
+  // --- OpenID Connect ---
+  if (req.method === 'GET' && url.pathname === '/.well-known/openid-configuration') {
+    return send(res, 200, {
+      issuer: ISSUER,
+      authorization_endpoint: `${ISSUER}/authorize`,
+      token_endpoint: `${ISSUER}/token`,
+      userinfo_endpoint: `${ISSUER}/userinfo`,
+      end_session_endpoint: `${ISSUER}/logout`,
+      code_challenge_methods_supported: ['S256'],
+    });
+  }
+
+  if (req.method === 'GET' && url.pathname === '/authorize') {
+    // Auto-approve as the demo user
+    const params = url.searchParams;
+    if (params.get('code_challenge_method') !== 'S256' || !params.get('code_challenge')) {
+      return send(res, 400, { error: 'invalid_request', error_description: 'PKCE (S256) is required' });
+    }
+    const code = randomToken();
+    codes.set(code, {
+      user: USERS['demo@xeno.ai'],
+      challenge: params.get('code_challenge'),
+      redirectUri: params.get('redirect_uri'),
+      clientId: params.get('client_id'),
+    });
+    const redirect = new URL(params.get('redirect_uri'));
+    redirect.searchParams.set('code', code);
+    redirect.searchParams.set('state', params.get('state') || '');
+    return send(res, 302, undefined, { Location: redirect.toString() });
+  }
+
+  if (req.method === 'POST' && url.pathname === '/token') {
+    const body = await readBody(req);
+    if (body.grant_type === 'authorization_code') {
+      const pending = codes.get(body.code);
+      codes.delete(body.code);
+      const challenge = crypto.createHash('sha256').update(body.code_verifier || '').digest('base64url');
+      if (!pending || pending.redirectUri !== body.redirect_uri || pending.clientId !== body.client_id || pending.challenge !== challenge) {
+        return send(res, 400, { error: 'invalid_grant', error_description: 'Invalid authorization code or verifier' });
+      }
+      return send(res, 200, issueTokens(pending.user));
+    }
+    if (body.grant_type === 'refresh_token') {
+      const user = refreshTokens.get(body.refresh_token);
+      if (!user) return send(res, 400, { error: 'invalid_grant', error_description: 'Refresh token expired' });
+      refreshTokens.delete(body.refresh_token);
+      return send(res, 200, issueTokens(user));
+    }
+    return send(res, 400, { error: 'unsupported_grant_type' });
+  }
+
+  if (req.method === 'GET' && url.pathname === '/userinfo') {
+    const token = (req.headers.authorization || '').replace(/^Bearer /, '');
+    const entry = accessTokens.get(token);
+    if (!entry || entry.expiresAt < Date.now()) return send(res, 401, { error: 'invalid_token' });
+    const { id, email, name } = entry.user;
+    return send(res, 200, { sub: id, email, name });
+  }
+
+  if (req.method === 'GET' && url.pathname === '/logout') {
+    const redirect = url.searchParams.get('post_logout_redirect_uri');
+    return redirect ? send(res, 302, undefined, { Location: redirect }) : send(res, 204);
+  }
+
+  send(res, 404, { error: 'not_found' });
+});
+
+server.listen(PORT, () => console.log(`Mock identity provider listening on ${ISSUER}`));
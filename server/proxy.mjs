@@ -0,0 +1,345 @@
+// API server for the browser app. It holds GEMINI_API_KEY and OPENAI_API_KEY and makes the
+// model calls the app used to make directly, so the keys never reach the client bundle.
+//
+//   npm run proxy             # listens on http://localhost:8787
+//
+// Every request but reading a shared chat needs a signed-in user: the bearer token is checked against the identity
+// provider's userinfo endpoint (the mock IdP by default). Each user gets PROXY_RATE_LIMIT
+// requests per minute, and every request is logged as one JSON line on stdout.
+//
+// Endpoints (POST, JSON in and out):
+//   /api/chat          generateContent, for replies, routing and image edits
+//   /api/chat/stream   generateContentStream, as newline-delimited JSON chunks
+//   /api/images        generateImages (Imagen)
+//   /api/embed         embedContent, for document search
+//   /api/openai/...    passed on to OPENAI_BASE_URL as it is (chat/completions, embeddings,
+//                      images/generations, images/edits, images/variations)
+//   /api/sync/push     store a device's changed sessions and messages (see sync.mjs)
+//   /api/sync/pull     what other devices changed since a revision
+//   /api/shares/create publish a read-only snapshot of a chat (see shares.mjs)
+//   /api/shares/list   the signed-in user's published chats
+//   /api/shares/revoke take one of them down
+//
+// and GET /api/shares/{id}, which anyone with the link may call, for the snapshot itself.
+//
+// Settings come from the environment or .env.local: GEMINI_API_KEY, GEMINI_UPSTREAM_URL (to
+// run against a stub such as `npm run mock-gemini`), OPENAI_BASE_URL, OPENAI_API_KEY, AUTH_USERINFO_URL, PROXY_PORT,
+// PROXY_RATE_LIMIT, PROXY_ALLOWED_ORIGIN, SYNC_DATA_DIR, SHARE_DATA_DIR, SHARE_LIMIT and
+// SHARE_MAX_BYTES.
+
+import http from 'node:http';
+import { GoogleGenAI } from '@google/genai';
+import { pushChanges, pullChanges } from './sync.mjs';
+import { createShare, listShares, revokeShare, readShare, ShareLimitError } from './shares.mjs';
+
+try {
+  process.loadEnvFile('.env.local');
+} catch {
+  // No .env.local; use the environment as is
+}
+
+const PORT = Number(process.env.PROXY_PORT || 8787);
+const API_KEY = process.env.GEMINI_API_KEY;
+const UPSTREAM_URL = process.env.GEMINI_UPSTREAM_URL;
+// Any server speaking the OpenAI REST dialect (llama.cpp server, Ollama, vLLM, ...)
+const OPENAI_BASE_URL = (process.env.OPENAI_BASE_URL || 'http://localhost:11434/v1').replace(/\/$/, '');
+const OPENAI_API_KEY = process.env.OPENAI_API_KEY;
+const USERINFO_URL = process.env.AUTH_USERINFO_URL
+  || `${(process.env.OIDC_ISSUER || process.env.AUTH_BASE_URL || 'http://localhost:4000').replace(/\/$/, '')}/userinfo`;
+const RATE_LIMIT = Number(process.env.PROXY_RATE_LIMIT || 30);
+const RATE_WINDOW_MS = 60 * 1000;
+const ALLOWED_ORIGIN = process.env.PROXY_ALLOWED_ORIGIN || '*';
+// Chat requests carry attachments and image edits carry the image, inline as base64
+const MAX_BODY_BYTES = 25 * 1024 * 1024;
+// How long a verified token is trusted before asking the identity provider again
+const USER_CACHE_MS = 60 * 1000;
+
+// The OpenAI-compatible endpoints the app uses; nothing else is reachable through /api/openai
+const OPENAI_PATHS = ['chat/completions', 'embeddings', 'images/generations', 'images/edits', 'images/variations'];
+
+// Only these config fields are passed on. Anything else (httpOptions in particular, which
+// can change where the request and its key are sent) is dropped.
+const CONFIG_FIELDS = {
+  chat: ['systemInstruction', 'temperature', 'tools', 'responseMimeType', 'responseJsonSchema', 'responseModalities'],
+  images: ['numberOfImages', 'outputMimeType', 'aspectRatio'],
+  embed: ['taskType', 'outputDimensionality'],
+};
+
+if (!API_KEY) {
+  console.error('GEMINI_API_KEY is not set. Add it to .env.local or the environment.');
+  process.exit(1);
+}
+
+const ai = new GoogleGenAI({ apiKey: API_KEY, httpOptions: UPSTREAM_URL ? { baseUrl: UPSTREAM_URL } : undefined });
+
+class HttpError extends Error {
+  constructor(status, message, retryAfterSeconds) {
+    super(message);
+    this.status = status;
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+// --- Auth ---
+
+const userCache = new Map(); // token -> { user, expiresAt }
+
+const authenticate = async (req) => {
+  const token = (req.headers.authorization || '').replace(/^Bearer /, '');
+  if (!token) throw new HttpError(401, 'Sign in first.');
+
+  const cached = userCache.get(token);
+  if (cached && cached.expiresAt > Date.now()) return cached.user;
+
+  const response = await fetch(USERINFO_URL, { headers: { Authorization: `Bearer ${token}` } })
+    .catch(() => { throw new HttpError(502, 'Could not reach the identity provider.'); });
+  if (response.status === 401 || response.status === 403) throw new HttpError(401, 'Your session has expired. Sign in again.');
+  if (!response.ok) throw new HttpError(502, `The identity provider answered ${response.status}.`);
+  const claims = await response.json();
+  const user = { id: claims.sub, email: claims.email };
+
+  if (userCache.size > 1000) {
+    for (const [key, entry] of userCache) if (entry.expiresAt <= Date.now()) userCache.delete(key);
+  }
+  userCache.set(token, { user, expiresAt: Date.now() + USER_CACHE_MS });
+  return user;
+};
+
+// --- Rate limiting ---
+
+const windows = new Map(); // user id -> { start, count }
+
+/**
+ * Fixed one-minute windows per user. Over the limit, the client is told when the window ends.
+ */
+const checkRateLimit = (userId) => {
+  const now = Date.now();
+  let window = windows.get(userId);
+  if (!window || now - window.start >= RATE_WINDOW_MS) {
+    if (windows.size > 1000) {
+      for (const [key, entry] of windows) if (now - entry.start >= RATE_WINDOW_MS) windows.delete(key);
+    }
+    window = { start: now, count: 0 };
+    windows.set(userId, window);
+  }
+  window.count++;
+  if (window.count > RATE_LIMIT) {
+    const retryAfter = Math.ceil((window.start + RATE_WINDOW_MS - now) / 1000);
+    throw new HttpError(429, `Rate limit of ${RATE_LIMIT} requests per minute reached.`, retryAfter);
+  }
+};
+
+// --- Requests ---
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': ALLOWED_ORIGIN,
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  'Access-Control-Expose-Headers': 'Retry-After',
+};
+
+const send = (res, status, body, headers = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...corsHeaders, ...headers });
+  res.end(body === undefined ? '' : JSON.stringify(body));
+};
+
+const readBody = (req) => new Promise((resolve, reject) => {
+  const chunks = [];
+  let size = 0;
+  req.on('data', chunk => {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      reject(new HttpError(413, 'The request is too large.'));
+      req.destroy();
+      return;
+    }
+    chunks.push(chunk);
+  });
+  req.on('end', () => resolve(Buffer.concat(chunks)));
+  req.on('error', reject);
+});
+
+const readJson = async (req) => {
+  const body = await readBody(req);
+  try {
+    return JSON.parse(body.toString('utf8') || '{}');
+  } catch {
+    throw new HttpError(400, 'The request body is not valid JSON.');
+  }
+};
+
+const pick = (config = {}, fields) =>
+  Object.fromEntries(fields.filter(field => config[field] !== undefined).map(field => [field, config[field]]));
+
+/**
+ * The SDK call for an endpoint, from the request body: the model, its input and the config
+ * fields allowed for it. `abortSignal` stops the upstream call when the client goes away.
+ */
+const upstreamParams = (endpoint, body, abortSignal) => {
+  if (typeof body.model !== 'string' || !body.model) throw new HttpError(400, 'A model is required.');
+  const config = { ...pick(body.config, CONFIG_FIELDS[endpoint]), abortSignal };
+  if (endpoint === 'images') {
+    if (typeof body.prompt !== 'string' || !body.prompt.trim()) throw new HttpError(400, 'A prompt is required.');
+    return { model: body.model, prompt: body.prompt, config };
+  }
+  if (!Array.isArray(body.contents) || body.contents.length === 0) throw new HttpError(400, 'Contents are required.');
+  return { model: body.model, contents: body.contents, config };
+};
+
+// The SDK adds the upstream response headers; they stay here
+const toBody = ({ sdkHttpResponse, ...response }) => response;
+
+// Gemini says how long to wait in the error body, e.g. "retryDelay": "17s"
+const retryDelaySeconds = (message) => {
+  const match = message.match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/);
+  return match ? Math.ceil(Number(match[1])) : undefined;
+};
+
+/**
+ * Upstream failures keep their status, so the app can tell a rate limit or a blocked key
+ * from an outage. The message is passed on; it never contains the key.
+ */
+const toHttpError = (error) => {
+  if (error instanceof HttpError) return error;
+  const message = error instanceof Error ? error.message : String(error);
+  // A rejected key is this server's problem, not the user's sign-in
+  if (error?.status === 401 || error?.status === 403) return new HttpError(502, `Gemini rejected the server's API key: ${message}`);
+  if (typeof error?.status === 'number') return new HttpError(error.status, message, retryDelaySeconds(message));
+  return new HttpError(502, `Gemini request failed: ${message}`);
+};
+
+const errorBody = (error) => ({ error: { code: error.status, message: error.message } });
+
+const handlers = {
+  chat: async (params, res) => send(res, 200, toBody(await ai.models.generateContent(params))),
+  images: async (params, res) => send(res, 200, toBody(await ai.models.generateImages(params))),
+  embed: async (params, res) => send(res, 200, toBody(await ai.models.embedContent(params))),
+  // The status is only sent once the upstream stream is open, so opening failures still get
+  // theirs; a failure after that arrives as a final { error } line.
+  'chat/stream': async (params, res) => {
+    const stream = await ai.models.generateContentStream(params);
+    res.writeHead(200, { 'Content-Type': 'application/x-ndjson', 'Cache-Control': 'no-cache', ...corsHeaders });
+    try {
+      for await (const chunk of stream) res.write(`${JSON.stringify(toBody(chunk))}\n`);
+    } catch (error) {
+      if (!params.config.abortSignal.aborted) res.write(`${JSON.stringify(errorBody(toHttpError(error)))}\n`);
+    }
+    res.end();
+  },
+};
+
+/**
+ * Passes a request on to the OpenAI-compatible server with this server's key, and its reply
+ * back as it comes (chat streams are server-sent events). Image edits are multipart forms, so
+ * the body is forwarded untouched along with its content type.
+ */
+const forwardToOpenAI = async (path, { body, contentType }, res, abortSignal) => {
+  const response = await fetch(`${OPENAI_BASE_URL}/${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': contentType, ...(OPENAI_API_KEY ? { Authorization: `Bearer ${OPENAI_API_KEY}` } : {}) },
+    body,
+    signal: abortSignal,
+  }).catch(error => {
+    if (abortSignal.aborted) throw error;
+    throw new HttpError(502, `Could not reach the OpenAI-compatible server: ${error.message}`);
+  });
+  if (!response.ok) {
+    const message = await response.text();
+    // A rejected key is this server's problem, not the user's sign-in
+    if (response.status === 401 || response.status === 403) throw new HttpError(502, `The OpenAI-compatible server rejected the server's API key: ${message}`);
+    throw new HttpError(response.status, message, Number(response.headers.get('retry-after')) || undefined);
+  }
+  res.writeHead(200, { 'Content-Type': response.headers.get('content-type') || 'application/json', 'Cache-Control': 'no-cache', ...corsHeaders });
+  for await (const chunk of response.body) res.write(chunk);
+  res.end();
+};
+
+// The model named in a JSON body, for the request log
+const jsonModel = ({ body, contentType }) => {
+  if (!contentType.startsWith('application/json')) return undefined;
+  try {
+    return JSON.parse(body.toString('utf8')).model;
+  } catch {
+    throw new HttpError(400, 'The request body is not valid JSON.');
+  }
+};
+
+// Store endpoints that write; they get their own per-user budget, so syncing a large history
+// never uses up a user's model requests
+const RATE_LIMITED_STORE_ENDPOINTS = ['sync/push', 'shares/create'];
+
+// Endpoints backed by this server's own stores rather than Gemini
+const storeHandlers = {
+  'sync/push': pushChanges,
+  'sync/pull': pullChanges,
+  'shares/create': async (userId, body) => {
+    const share = await createShare(userId, body).catch(error => {
+      throw error instanceof ShareLimitError ? new HttpError(error.status, error.message) : error;
+    });
+    if (!share) throw new HttpError(400, 'A chat to share is required.');
+    return share;
+  },
+  'shares/list': listShares,
+  'shares/revoke': async (userId, body) => {
+    if (!(await revokeShare(userId, body))) throw new HttpError(404, 'You have no shared chat with that link.');
+    return { ok: true };
+  },
+};
+
+const log = (entry) => console.log(JSON.stringify({ time: new Date().toISOString(), ...entry }));
+
+const server = http.createServer(async (req, res) => {
+  const startedAt = Date.now();
+  const { pathname } = new URL(req.url, 'http://localhost');
+  const endpoint = pathname.replace(/^\/api\//, '');
+  let user;
+  let model;
+
+  // The client closing the connection (a stopped reply) cancels the upstream call
+  const upstream = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) upstream.abort();
+    log({ user: user?.id, method: req.method, path: pathname, model, status: res.statusCode, ms: Date.now() - startedAt, aborted: upstream.signal.aborted || undefined });
+  });
+
+  if (req.method === 'OPTIONS') return send(res, 204);
+  if (req.method === 'GET' && pathname === '/api/health') return send(res, 200, { ok: true });
+  const sharedChatId = req.method === 'GET' && pathname.match(/^\/api\/shares\/([^/]+)$/)?.[1];
+
+  try {
+    if (sharedChatId) {
+      const share = await readShare(sharedChatId)
+        .catch(error => { throw new HttpError(500, `Reading the shared chat failed: ${error.message}`); });
+      if (!share) throw new HttpError(404, 'This shared chat was taken down or never existed.');
+      // Never kept anywhere, so a revoked link stops working right away
+      return send(res, 200, share, { 'Cache-Control': 'no-store' });
+    }
+    const openAIPath = endpoint.startsWith('openai/') && endpoint.slice('openai/'.length);
+    const isKnown = handlers[endpoint] || storeHandlers[endpoint] || OPENAI_PATHS.includes(openAIPath);
+    if (req.method !== 'POST' || !pathname.startsWith('/api/') || !isKnown) throw new HttpError(404, 'Not found.');
+    user = await authenticate(req);
+    if (storeHandlers[endpoint]) {
+      if (RATE_LIMITED_STORE_ENDPOINTS.includes(endpoint)) checkRateLimit(`${user.id}:store`);
+      const result = await storeHandlers[endpoint](user.id, await readJson(req))
+        .catch(error => { throw error instanceof HttpError ? error : new HttpError(500, `${endpoint} failed: ${error.message}`); });
+      return send(res, 200, result);
+    }
+    checkRateLimit(user.id);
+    if (openAIPath) {
+      const request = { body: await readBody(req), contentType: req.headers['content-type'] || 'application/json' };
+      model = jsonModel(request);
+      return await forwardToOpenAI(openAIPath, request, res, upstream.signal);
+    }
+    const body = await readJson(req);
+    model = body.model;
+    await handlers[endpoint](upstreamParams(endpoint === 'chat/stream' ? 'chat' : endpoint, body, upstream.signal), res);
+  } catch (error) {
+    if (upstream.signal.aborted) return;
+    const httpError = toHttpError(error);
+    if (httpError.status >= 500) console.error(`${pathname}:`, error);
+    if (res.headersSent) return res.end();
+    send(res, httpError.status, errorBody(httpError), httpError.retryAfterSeconds ? { 'Retry-After': String(httpError.retryAfterSeconds) } : {});
+  }
+});
+
+server.listen(PORT, () => console.log(`Xeno API server listening on http://localhost:${PORT}${UPSTREAM_URL ? ` (Gemini at ${UPSTREAM_URL})` : ''}`));
@@ -0,0 +1,122 @@
+// Share store for the API server: read-only snapshots of chats, published by their owner and
+// readable by anyone who has the link. One JSON file per share under SHARE_DATA_DIR, named by
+// its id, plus one index file per owner listing their shares so they can be revoked.
+//
+// Share ids are random and long enough not to be guessed; the link is the only credential.
+// Revoking deletes the snapshot, so the link stops working at once.
+//
+// Each user may keep SHARE_LIMIT links (default 100) of at most SHARE_MAX_BYTES each
+// (default 10 MB), so no one can fill the disk.
+
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import crypto from 'node:crypto';
+
+const DATA_DIR = path.resolve(process.env.SHARE_DATA_DIR || '.data/shares');
+const SHARE_ID_PATTERN = /^[A-Za-z0-9_-]{22}$/;
+const SHARE_LIMIT = Number(process.env.SHARE_LIMIT || 100);
+const SHARE_MAX_BYTES = Number(process.env.SHARE_MAX_BYTES || 10 * 1024 * 1024);
+
+// A share refused for going over a limit; the server answers with its status
+export class ShareLimitError extends Error {
+  constructor(status, message) {
+    super(message);
+    this.status = status;
+  }
+}
+
+const writes = new Map(); // owner id -> Promise of the last index write, so writes never overlap
+
+const shareFile = (id) => path.join(DATA_DIR, `${id}.json`);
+const indexFile = (ownerId) =>
+  path.join(DATA_DIR, 'owners', `${crypto.createHash('sha256').update(ownerId).digest('hex').slice(0, 32)}.json`);
+
+const readJsonFile = (file, fallback) => fs.readFile(file, 'utf8')
+  .then(raw => JSON.parse(raw))
+  .catch(error => {
+    if (error.code !== 'ENOENT') throw error;
+    return fallback;
+  });
+
+// Write then rename, so a crash never leaves half a file
+const writeJsonFile = async (file, value) => {
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(`${file}.tmp`, JSON.stringify(value));
+  await fs.rename(`${file}.tmp`, file);
+};
+
+/**
+ * Changes an owner's list of shares. Updates for one owner run one after another.
+ */
+const updateIndex = (ownerId, update) => {
+  const write = (writes.get(ownerId) || Promise.resolve()).then(async () => {
+    const file = indexFile(ownerId);
+    await writeJsonFile(file, update(await readJsonFile(file, [])));
+  });
+  writes.set(ownerId, write.catch(() => {}));
+  return write;
+};
+
+const isValidSession = (session) =>
+  session && typeof session === 'object' && typeof session.id === 'string' && typeof session.title === 'string' && Array.isArray(session.messages);
+
+/**
+ * Publishes a snapshot of a chat and resolves with its link entry. Returns null for a body
+ * without a usable session, which the server answers with 400, and throws a ShareLimitError
+ * for one that is too large or over the owner's number of links.
+ */
+export const createShare = async (ownerId, { session }) => {
+  if (!isValidSession(session)) return null;
+  if (Buffer.byteLength(JSON.stringify(session)) > SHARE_MAX_BYTES) {
+    throw new ShareLimitError(413, `A shared chat can be at most ${Math.round(SHARE_MAX_BYTES / 1024 / 1024)} MB. Hide some images or files and try again.`);
+  }
+  const share = {
+    id: crypto.randomBytes(16).toString('base64url'),
+    sessionId: session.id,
+    title: session.title,
+    createdAt: Date.now(),
+    messageCount: session.messages.length,
+  };
+  await writeJsonFile(shareFile(share.id), { ...share, ownerId, session });
+  try {
+    // Counted in the index update, so two requests at once can't both take the last slot
+    await updateIndex(ownerId, shares => {
+      if (shares.length >= SHARE_LIMIT) {
+        throw new ShareLimitError(409, `You can have at most ${SHARE_LIMIT} shared chats. Revoke one to share another.`);
+      }
+      return [share, ...shares];
+    });
+  } catch (error) {
+    await fs.rm(shareFile(share.id), { force: true });
+    throw error;
+  }
+  return share;
+};
+
+export const listShares = async (ownerId) => ({ shares: await readJsonFile(indexFile(ownerId), []) });
+
+/**
+ * Deletes one of the owner's shares. Resolves with false when they have no share by that id.
+ */
+export const revokeShare = async (ownerId, { id }) => {
+  let found = false;
+  await updateIndex(ownerId, shares => shares.filter(share => {
+    if (share.id !== id) return true;
+    found = true;
+    return false;
+  }));
+  if (found) await fs.rm(shareFile(id), { force: true });
+  return found;
+};
+
+/**
+ * The snapshot behind a link, without who published it. Null when it doesn't exist
+ * (anymore).
+ */
+export const readShare = async (id) => {
+  if (!SHARE_ID_PATTERN.test(id)) return null;
+  const stored = await readJsonFile(shareFile(id), null);
+  if (!stored) return null;
+  const { ownerId, sessionId, messageCount, ...share } = stored;
+  return share;
+};
@@ -0,0 +1,122 @@
+// Session sync store for the API server: one JSON file per user under SYNC_DATA_DIR.
+//
+// Sessions (without their messages) and messages are stored as separate entries, so edits to
+// different messages of a chat never conflict. Each entry keeps the time it was last changed
+// on a device; a change only replaces an entry it is newer than (last writer wins, per
+// entry). Deletions are kept as tombstones so devices that were offline learn about them.
+// Every accepted change gets the next revision number, and devices pull what changed after
+// the last revision they saw.
+
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import crypto from 'node:crypto';
+
+const DATA_DIR = path.resolve(process.env.SYNC_DATA_DIR || '.data/sync');
+// Roughly how much one pull returns; devices ask again while there is more
+const PULL_BUDGET_BYTES = 4 * 1024 * 1024;
+
+const stores = new Map(); // user id -> Promise of { revision, sessions, messages }
+const writes = new Map(); // user id -> Promise of the last write, so writes never overlap
+
+const storeFile = (userId) =>
+  path.join(DATA_DIR, `${crypto.createHash('sha256').update(userId).digest('hex').slice(0, 32)}.json`);
+
+const loadStore = (userId) => {
+  if (!stores.has(userId)) {
+    stores.set(userId, fs.readFile(storeFile(userId), 'utf8')
+      .then(raw => JSON.parse(raw))
+      .catch(error => {
+        if (error.code === 'ENOENT') return { revision: 0, sessions: {}, messages: {} };
+        // Not cached, so the next request reads the file again instead of failing the same way
+        stores.delete(userId);
+        throw error;
+      }));
+  }
+  return stores.get(userId);
+};
+
+const saveStore = (userId, store) => {
+  const write = (writes.get(userId) || Promise.resolve()).then(async () => {
+    await fs.mkdir(DATA_DIR, { recursive: true });
+    // Write then rename, so a crash never leaves half a file
+    const file = storeFile(userId);
+    await fs.writeFile(`${file}.tmp`, JSON.stringify(store));
+    await fs.rename(`${file}.tmp`, file);
+  });
+  writes.set(userId, write.catch(() => {}));
+  return write;
+};
+
+// A tombstone wins a tie, so a delete and an edit made in the same millisecond end deleted
+const isNewer = (incoming, existing) =>
+  !existing || incoming.updatedAt > existing.updatedAt || (incoming.updatedAt === existing.updatedAt && !!incoming.deleted && !existing.deleted);
+
+const isValidChange = (change) =>
+  change && typeof change.id === 'string' && typeof change.updatedAt === 'number' && (change.deleted || (change.data && typeof change.data === 'object'));
+
+/**
+ * Applies a device's changes and resolves with how many were newer than what was stored.
+ * Deleting a session also deletes the messages it had; later changes to them are ignored.
+ */
+export const pushChanges = async (userId, { deviceId, sessions = [], messages = [] }) => {
+  const store = await loadStore(userId);
+  let accepted = 0;
+  const write = (collection, change) => {
+    collection[change.id] = {
+      id: change.id,
+      sessionId: change.sessionId,
+      updatedAt: change.updatedAt,
+      deleted: change.deleted || undefined,
+      data: change.deleted ? undefined : change.data,
+      revision: ++store.revision,
+      origin: deviceId,
+    };
+    accepted++;
+  };
+
+  for (const change of sessions.filter(isValidChange)) {
+    if (!isNewer(change, store.sessions[change.id])) continue;
+    write(store.sessions, change);
+    if (!change.deleted) continue;
+    Object.values(store.messages)
+      .filter(message => message.sessionId === change.id && !message.deleted)
+      .forEach(message => write(store.messages, { id: message.id, sessionId: message.sessionId, updatedAt: change.updatedAt, deleted: true }));
+  }
+  for (const change of messages.filter(isValidChange)) {
+    if (typeof change.sessionId !== 'string' || store.sessions[change.sessionId]?.deleted) continue;
+    if (isNewer(change, store.messages[change.id])) write(store.messages, change);
+  }
+
+  if (accepted > 0) await saveStore(userId, store);
+  return { revision: store.revision, accepted };
+};
+
+/**
+ * Entries changed after revision `since`, oldest first, leaving out the asking device's own
+ * changes. `cursor` is where the next pull starts; `more` says whether to pull again now.
+ */
+export const pullChanges = async (userId, { deviceId, since = 0 }) => {
+  const store = await loadStore(userId);
+  const changed = [
+    ...Object.values(store.sessions).map(entry => ({ entry, isSession: true })),
+    ...Object.values(store.messages).map(entry => ({ entry, isSession: false })),
+  ]
+    .filter(({ entry }) => entry.revision > since)
+    .sort((a, b) => a.entry.revision - b.entry.revision);
+
+  const sessions = [];
+  const messages = [];
+  let cursor = store.revision;
+  let bytes = 0;
+  for (const { entry, isSession } of changed) {
+    if (bytes > PULL_BUDGET_BYTES) {
+      cursor = entry.revision - 1;
+      break;
+    }
+    if (entry.origin === deviceId) continue;
+    const { revision, origin, ...change } = entry;
+    bytes += JSON.stringify(change).length;
+    (isSession ? sessions : messages).push(change);
+  }
+  return { cursor, more: cursor < store.revision, sessions, messages };
+};
@@ -0,0 +1,57 @@
+// Offline support. The build (see vite.config.ts) replaces the placeholders below with the
+// list of bundled files and a version derived from their hashed names, so each deploy gets
+// a fresh cache and the previous one is dropped once the new worker takes over.
+
+const PRECACHE_URLS = self.__PRECACHE_URLS__ || [];
+const CACHE_NAME = `xeno-${self.__CACHE_VERSION__ || 'dev'}`;
+
+self.addEventListener('install', event => {
+  event.waitUntil(
+    caches.open(CACHE_NAME)
+      .then(cache => cache.addAll(PRECACHE_URLS))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(key => key.startsWith('xeno-') && key !== CACHE_NAME).map(key => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+const cacheFirst = async request => {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) {
+    const cache = await caches.open(CACHE_NAME);
+    cache.put(request, response.clone());
+  }
+  return response;
+};
+
+// Pages come from the network when possible so a new deploy shows up, else from the cache
+const networkFirstPage = async request => {
+  try {
+    return await fetch(request);
+  } catch (error) {
+    return (await caches.match('/index.html')) || (await caches.match('/')) || Response.error();
+  }
+};
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+  // Our API server is never cached: a revoked shared chat must stop showing at once
+  if (url.origin === self.location.origin && url.pathname.startsWith('/api/')) return;
+
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirstPage(request));
+  } else if (url.origin === self.location.origin) {
+    event.respondWith(cacheFirst(request));
+  }
+  // Everything else (model APIs, auth) goes straight to the network
+});
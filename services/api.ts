@@ -0,0 +1,36 @@
+import { getValidAccessToken } from "./auth";
+import { httpError } from "./errors";
+
+// Our API server (server/proxy.mjs): model calls, chat sync and shared chats. Same origin by default;
+// the dev server forwards /api to it.
+const API_BASE_URL = (process.env.API_BASE_URL || '').replace(/\/$/, '');
+
+/**
+ * POSTs JSON (or a multipart form, sent as it is) to the API server as the signed-in user.
+ * A failed response is thrown as a typed ProviderError.
+ */
+export const postToApi = async (path: string, body: unknown, signal?: AbortSignal): Promise<Response> => {
+  const token = await getValidAccessToken();
+  const isForm = body instanceof FormData;
+  const response = await fetch(`${API_BASE_URL}/api/${path}`, {
+    method: 'POST',
+    headers: {
+      // The browser sets a form's multipart boundary
+      ...(isForm ? {} : { 'Content-Type': 'application/json' }),
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    },
+    body: isForm ? body : JSON.stringify(body),
+    signal,
+  });
+  if (!response.ok) throw await httpError(response);
+  return response;
+};
+
+/**
+ * GETs a public resource from the API server; no sign-in needed.
+ */
+export const getFromApi = async (path: string, signal?: AbortSignal): Promise<Response> => {
+  const response = await fetch(`${API_BASE_URL}/api/${path}`, { signal });
+  if (!response.ok) throw await httpError(response);
+  return response;
+};
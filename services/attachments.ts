@@ -0,0 +1,174 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Attachment, AttachmentKind, ChatMessage } from "../types";
+
+// Files attached to user messages: classification, size limits, reading into data URIs,
+// and helpers the providers use to turn attachments into request parts.
+
+export const MAX_ATTACHMENTS = 10;
+// Gemini rejects requests whose inline data exceeds 20 MB
+export const MAX_TOTAL_BYTES = 20 * 1024 * 1024;
+
+const MB = 1024 * 1024;
+
+export const MAX_BYTES: Record<AttachmentKind, number> = {
+  image: 10 * MB,
+  pdf: 20 * MB,
+  audio: 20 * MB,
+  text: 1 * MB,
+};
+
+// Browsers report an empty or vendor-specific type for most source files, so go by extension
+const TEXT_EXTENSIONS = [
+  'txt', 'md', 'csv', 'tsv', 'json', 'xml', 'yaml', 'yml', 'log', 'ini', 'toml',
+  'js', 'jsx', 'ts', 'tsx', 'py', 'java', 'kt', 'swift', 'c', 'h', 'cpp', 'hpp', 'cs',
+  'go', 'rs', 'rb', 'php', 'html', 'css', 'scss', 'sql', 'sh',
+];
+
+export const ACCEPTED_FILE_TYPES = [
+  'image/*',
+  'application/pdf',
+  'audio/*',
+  'text/*',
+  ...TEXT_EXTENSIONS.map(ext => `.${ext}`),
+].join(',');
+
+const extensionOf = (name: string) => name.split('.').pop()?.toLowerCase() || '';
+
+export const classifyFile = (file: { name: string; type: string }): AttachmentKind | null => {
+  if (file.type.startsWith('image/')) return 'image';
+  if (file.type === 'application/pdf' || extensionOf(file.name) === 'pdf') return 'pdf';
+  if (file.type.startsWith('audio/')) return 'audio';
+  if (file.type.startsWith('text/') || file.type === 'application/json' || TEXT_EXTENSIONS.includes(extensionOf(file.name))) {
+    return 'text';
+  }
+  return null;
+};
+
+const mimeTypeFor = (kind: AttachmentKind, file: { type: string }) => {
+  switch (kind) {
+    case 'pdf': return 'application/pdf';
+    case 'text': return file.type.startsWith('text/') ? file.type : 'text/plain';
+    default: return file.type;
+  }
+};
+
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < MB) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / MB).toFixed(1)} MB`;
+};
+
+// --- Data URIs ---
+
+export const dataUrlMimeType = (dataUrl: string): string =>
+  dataUrl.match(/^data:([^;,]+)/)?.[1] || 'application/octet-stream';
+
+/**
+ * The raw base64 payload, without the "data:...;base64," header.
+ */
+export const dataUrlBase64 = (dataUrl: string): string => dataUrl.slice(dataUrl.indexOf(',') + 1);
+
+const dataUrlSize = (dataUrl: string) => {
+  const base64 = dataUrlBase64(dataUrl);
+  return Math.floor(base64.length * 3 / 4) - (base64.endsWith('==') ? 2 : base64.endsWith('=') ? 1 : 0);
+};
+
+export const decodeTextAttachment = (attachment: Attachment): string => {
+  const binary = atob(dataUrlBase64(attachment.dataUrl));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new TextDecoder().decode(bytes);
+};
+
+const readAsBase64 = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(dataUrlBase64(reader.result as string));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+// --- Validation ---
+
+/**
+ * Why a file can't be added next to the ones already attached, or null if it can.
+ */
+export const checkAttachmentLimits = (
+  existing: Attachment[],
+  candidate: { name: string; kind: AttachmentKind; size: number }
+): string | null => {
+  if (existing.length >= MAX_ATTACHMENTS) {
+    return `You can attach up to ${MAX_ATTACHMENTS} files per message.`;
+  }
+  if (candidate.size > MAX_BYTES[candidate.kind]) {
+    return `"${candidate.name}" is ${formatBytes(candidate.size)}; ${candidate.kind} files can be up to ${formatBytes(MAX_BYTES[candidate.kind])}.`;
+  }
+  const total = existing.reduce((sum, a) => sum + a.size, 0) + candidate.size;
+  if (total > MAX_TOTAL_BYTES) {
+    return `"${candidate.name}" would take this message over the ${formatBytes(MAX_TOTAL_BYTES)} limit.`;
+  }
+  return null;
+};
+
+/**
+ * Reads files as attachments after `existing`, skipping (and explaining) any that are
+ * unsupported or over the limits.
+ */
+export const readAttachments = async (
+  files: File[],
+  existing: Attachment[]
+): Promise<{ attachments: Attachment[]; errors: string[] }> => {
+  const attachments: Attachment[] = [];
+  const errors: string[] = [];
+  for (const file of files) {
+    const kind = classifyFile(file);
+    if (!kind) {
+      errors.push(`"${file.name}" isn't a supported file type.`);
+      continue;
+    }
+    const limitError = checkAttachmentLimits([...existing, ...attachments], { name: file.name, kind, size: file.size });
+    if (limitError) {
+      errors.push(limitError);
+      continue;
+    }
+    try {
+      const mimeType = mimeTypeFor(kind, file);
+      // Rebuild the header so files with an empty browser-reported type still carry one
+      const dataUrl = `data:${mimeType};base64,${await readAsBase64(file)}`;
+      attachments.push({ id: uuidv4(), kind, name: file.name || `${kind}-${Date.now()}`, mimeType, size: file.size, dataUrl });
+    } catch (error) {
+      console.error(`Failed to read ${file.name}:`, error);
+      errors.push(`Couldn't read "${file.name}".`);
+    }
+  }
+  return { attachments, errors };
+};
+
+export const createImageAttachment = (dataUrl: string, name: string): Attachment => ({
+  id: uuidv4(),
+  kind: 'image',
+  name,
+  mimeType: dataUrlMimeType(dataUrl),
+  size: dataUrlSize(dataUrl),
+  dataUrl,
+});
+
+/**
+ * Everything attached to a message, including the single imageUrl that messages saved
+ * before attachments existed (and generated images) carry.
+ */
+export const getMessageAttachments = (message: ChatMessage): Attachment[] => {
+  const attachments = message.attachments || [];
+  if (!message.imageUrl) return attachments;
+  return [
+    {
+      id: 'image',
+      kind: 'image',
+      name: message.originalPrompt || 'image',
+      mimeType: dataUrlMimeType(message.imageUrl),
+      size: dataUrlSize(message.imageUrl),
+      dataUrl: message.imageUrl,
+    },
+    ...attachments,
+  ];
+};
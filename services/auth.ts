@@ -0,0 +1,339 @@
+import { AuthSession, AuthTokens, UserProfile } from "../types";
+
+// Authentication against a configurable backend:
+// - email/password via AUTH_BASE_URL (POST /auth/login, /auth/refresh, /auth/logout)
+// - "Continue with Google" (or any OpenID Connect provider) via the authorization code flow with PKCE
+
+const AUTH_BASE_URL = (process.env.AUTH_BASE_URL || 'http://localhost:4000').replace(/\/$/, '');
+const OIDC_ISSUER = (process.env.OIDC_ISSUER || AUTH_BASE_URL).replace(/\/$/, '');
+const OIDC_CLIENT_ID = process.env.OIDC_CLIENT_ID || 'xeno-ai';
+const OIDC_SCOPE = process.env.OIDC_SCOPE || 'openid profile email offline_access';
+
+const SESSION_KEY = 'xeno_auth_session';
+const PKCE_KEY = 'xeno_auth_pkce';
+
+// Refresh a little before the access token actually expires
+const EXPIRY_MARGIN_MS = 60 * 1000;
+
+interface TokenResponse {
+  access_token: string;
+  refresh_token?: string;
+  id_token?: string;
+  expires_in?: number;
+  user?: UserProfile;
+}
+
+interface OidcConfiguration {
+  authorization_endpoint: string;
+  token_endpoint: string;
+  userinfo_endpoint: string;
+  end_session_endpoint?: string;
+}
+
+interface PendingPkce {
+  state: string;
+  verifier: string;
+  redirectUri: string;
+}
+
+// --- Session storage & change notifications ---
+
+type AuthListener = (session: AuthSession | null) => void;
+const listeners = new Set<AuthListener>();
+
+let currentSession: AuthSession | null = null;
+
+const setSession = (session: AuthSession | null) => {
+  currentSession = session;
+  if (session) {
+    localStorage.setItem(SESSION_KEY, JSON.stringify(session));
+  } else {
+    localStorage.removeItem(SESSION_KEY);
+  }
+  listeners.forEach(listener => listener(session));
+};
+
+export const onAuthChange = (listener: AuthListener): (() => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+export const getCurrentUser = (): UserProfile | null => currentSession?.user || null;
+
+const isExpired = (tokens: AuthTokens) => Date.now() >= tokens.expiresAt - EXPIRY_MARGIN_MS;
+
+const toTokens = (response: TokenResponse, previous?: AuthTokens): AuthTokens => ({
+  accessToken: response.access_token,
+  // Refresh tokens are not always rotated; keep the old one if none was returned
+  refreshToken: response.refresh_token || previous?.refreshToken,
+  idToken: response.id_token || previous?.idToken,
+  expiresAt: Date.now() + (response.expires_in ?? 3600) * 1000,
+});
+
+// A response from the auth backend that wasn't OK (network failures stay plain TypeErrors)
+class AuthRequestError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'AuthRequestError';
+    this.status = status;
+  }
+}
+
+const postJson = async <T>(url: string, body: unknown): Promise<T> => {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  if (!response.ok) {
+    const data = await response.json().catch(() => null);
+    throw new AuthRequestError(data?.error_description || data?.error || `Request failed (${response.status})`, response.status);
+  }
+  return response.json();
+};
+
+// --- Email / password ---
+
+export const loginWithPassword = async (email: string, password: string): Promise<AuthSession> => {
+  const response = await postJson<TokenResponse>(`${AUTH_BASE_URL}/auth/login`, { email, password });
+  if (!response.user) throw new Error('Login response did not include a user profile');
+
+  const session: AuthSession = { method: 'password', tokens: toTokens(response), user: response.user };
+  setSession(session);
+  return session;
+};
+
+// --- OpenID Connect (authorization code + PKCE) ---
+
+let oidcConfigPromise: Promise<OidcConfiguration> | null = null;
+
+const getOidcConfiguration = (): Promise<OidcConfiguration> => {
+  if (!oidcConfigPromise) {
+    oidcConfigPromise = fetch(`${OIDC_ISSUER}/.well-known/openid-configuration`)
+      .then(res => {
+        if (!res.ok) throw new Error(`Could not reach the identity provider (${res.status})`);
+        return res.json();
+      })
+      .catch(error => {
+        oidcConfigPromise = null; // Allow retrying after a network failure
+        throw error;
+      });
+  }
+  return oidcConfigPromise;
+};
+
+const base64UrlEncode = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const randomString = (byteLength = 32) => base64UrlEncode(crypto.getRandomValues(new Uint8Array(byteLength)));
+
+const pkceChallenge = async (verifier: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(verifier));
+  return base64UrlEncode(new Uint8Array(digest));
+};
+
+/**
+ * Redirects the browser to the identity provider. The flow resumes in completeOidcLogin
+ * when the provider sends the user back with an authorization code.
+ */
+export const startOidcLogin = async (): Promise<void> => {
+  const config = await getOidcConfiguration();
+  const pending: PendingPkce = {
+    state: randomString(16),
+    verifier: randomString(32),
+    redirectUri: `${window.location.origin}${window.location.pathname}`,
+  };
+  sessionStorage.setItem(PKCE_KEY, JSON.stringify(pending));
+
+  const params = new URLSearchParams({
+    response_type: 'code',
+    client_id: OIDC_CLIENT_ID,
+    redirect_uri: pending.redirectUri,
+    scope: OIDC_SCOPE,
+    state: pending.state,
+    code_challenge: await pkceChallenge(pending.verifier),
+    code_challenge_method: 'S256',
+  });
+  window.location.assign(`${config.authorization_endpoint}?${params}`);
+};
+
+const fetchUserInfo = async (accessToken: string): Promise<UserProfile> => {
+  const config = await getOidcConfiguration();
+  const response = await fetch(config.userinfo_endpoint, {
+    headers: { Authorization: `Bearer ${accessToken}` },
+  });
+  if (!response.ok) throw new Error(`Could not load user profile (${response.status})`);
+  const claims = await response.json();
+  return {
+    id: claims.sub,
+    email: claims.email,
+    name: claims.name || claims.email,
+    picture: claims.picture,
+  };
+};
+
+const postForm = async (url: string, params: Record<string, string>): Promise<TokenResponse> => {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams(params),
+  });
+  if (!response.ok) {
+    const data = await response.json().catch(() => null);
+    throw new AuthRequestError(data?.error_description || data?.error || `Token request failed (${response.status})`, response.status);
+  }
+  return response.json();
+};
+
+/**
+ * Finishes an OIDC redirect if the current URL carries one. Resolves with null when there is
+ * nothing to complete.
+ */
+export const completeOidcLogin = async (): Promise<AuthSession | null> => {
+  const url = new URL(window.location.href);
+  const code = url.searchParams.get('code');
+  const state = url.searchParams.get('state');
+  const error = url.searchParams.get('error');
+  const errorDescription = url.searchParams.get('error_description');
+  if (!code && !error) return null;
+
+  // Strip the callback parameters so a reload doesn't replay them
+  ['code', 'state', 'error', 'error_description', 'session_state', 'iss'].forEach(p => url.searchParams.delete(p));
+  window.history.replaceState(null, '', url.toString());
+
+  const stored = sessionStorage.getItem(PKCE_KEY);
+  sessionStorage.removeItem(PKCE_KEY);
+
+  if (error) throw new Error(errorDescription || error);
+  if (!stored) throw new Error('No login in progress');
+  const pending: PendingPkce = JSON.parse(stored);
+  if (pending.state !== state) throw new Error('Login state mismatch, please try again');
+
+  const config = await getOidcConfiguration();
+  const response = await postForm(config.token_endpoint, {
+    grant_type: 'authorization_code',
+    code: code!,
+    redirect_uri: pending.redirectUri,
+    client_id: OIDC_CLIENT_ID,
+    code_verifier: pending.verifier,
+  });
+  const tokens = toTokens(response);
+  const session: AuthSession = { method: 'oidc', tokens, user: await fetchUserInfo(tokens.accessToken) };
+  setSession(session);
+  return session;
+};
+
+// --- Refresh, restore & logout ---
+
+let refreshPromise: Promise<AuthSession | null> | null = null;
+
+// The backend turned the refresh token down (invalid_grant and the like), as opposed to
+// being unreachable or failing
+const isRejectedRefresh = (error: unknown) =>
+  error instanceof AuthRequestError && (error.status === 400 || error.status === 401);
+
+/**
+ * Exchanges the refresh token for new tokens. Concurrent callers share one request.
+ * Signs the user out if the refresh token is missing or rejected. When the backend can't be
+ * reached (offline, say) the session is kept with its expired tokens, and the next call tries
+ * again.
+ */
+export const refreshSession = (): Promise<AuthSession | null> => {
+  if (refreshPromise) return refreshPromise;
+  const session = currentSession;
+  if (!session?.tokens.refreshToken) {
+    setSession(null);
+    return Promise.resolve(null);
+  }
+
+  const refreshToken = session.tokens.refreshToken;
+  refreshPromise = (async () => {
+    try {
+      const response = session.method === 'oidc'
+        ? await postForm((await getOidcConfiguration()).token_endpoint, {
+            grant_type: 'refresh_token',
+            refresh_token: refreshToken,
+            client_id: OIDC_CLIENT_ID,
+          })
+        : await postJson<TokenResponse>(`${AUTH_BASE_URL}/auth/refresh`, { refresh_token: refreshToken });
+
+      const refreshed: AuthSession = {
+        ...session,
+        tokens: toTokens(response, session.tokens),
+        user: response.user || session.user,
+      };
+      setSession(refreshed);
+      return refreshed;
+    } catch (error) {
+      console.error("Token refresh failed:", error);
+      if (!isRejectedRefresh(error)) return session;
+      setSession(null);
+      return null;
+    } finally {
+      refreshPromise = null;
+    }
+  })();
+  return refreshPromise;
+};
+
+/**
+ * Returns an access token that is valid for at least a minute, refreshing if needed.
+ */
+export const getValidAccessToken = async (): Promise<string | null> => {
+  if (!currentSession) return null;
+  if (!isExpired(currentSession.tokens)) return currentSession.tokens.accessToken;
+  const refreshed = await refreshSession();
+  // Still expired when the refresh couldn't get through
+  return refreshed && !isExpired(refreshed.tokens) ? refreshed.tokens.accessToken : null;
+};
+
+/**
+ * Restores the saved session on startup (completing an OIDC redirect first if there is one).
+ */
+export const restoreSession = async (): Promise<AuthSession | null> => {
+  const redirected = await completeOidcLogin();
+  if (redirected) return redirected;
+
+  // The simulated login used to store a bare flag; it carries no identity, so drop it
+  localStorage.removeItem('xeno_auth');
+
+  const stored = localStorage.getItem(SESSION_KEY);
+  if (!stored) return null;
+  try {
+    currentSession = JSON.parse(stored);
+  } catch {
+    setSession(null);
+    return null;
+  }
+  if (isExpired(currentSession!.tokens)) return refreshSession();
+  return currentSession;
+};
+
+export const logout = async (): Promise<void> => {
+  const session = currentSession;
+  setSession(null);
+  if (!session) return;
+
+  try {
+    if (session.method === 'password') {
+      await postJson(`${AUTH_BASE_URL}/auth/logout`, { refresh_token: session.tokens.refreshToken });
+    } else {
+      const config = await getOidcConfiguration();
+      if (config.end_session_endpoint && session.tokens.idToken) {
+        const params = new URLSearchParams({
+          id_token_hint: session.tokens.idToken,
+          post_logout_redirect_uri: `${window.location.origin}${window.location.pathname}`,
+        });
+        window.location.assign(`${config.end_session_endpoint}?${params}`);
+      }
+    }
+  } catch (error) {
+    // The local session is already gone; a failed server-side revoke shouldn't block logout
+    console.error("Logout request failed:", error);
+  }
+};
@@ -0,0 +1,132 @@
+// Arithmetic for the calculator tool: a small recursive-descent parser, so expressions from
+// the model are never passed to eval.
+//
+//   expression := term (('+' | '-') term)*
+//   term       := unary (('*' | '/' | '%') unary)*
+//   unary      := ('-' | '+') unary | power
+//   power      := call ('^' unary)?
+//   call       := name '(' expression (',' expression)* ')' | name | number | '(' expression ')'
+
+const FUNCTIONS: Record<string, (...args: number[]) => number> = {
+  sqrt: Math.sqrt,
+  cbrt: Math.cbrt,
+  abs: Math.abs,
+  round: Math.round,
+  floor: Math.floor,
+  ceil: Math.ceil,
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+  asin: Math.asin,
+  acos: Math.acos,
+  atan: Math.atan,
+  ln: Math.log,
+  log: Math.log10,
+  log2: Math.log2,
+  exp: Math.exp,
+  min: Math.min,
+  max: Math.max,
+  pow: Math.pow,
+};
+
+const CONSTANTS: Record<string, number> = {
+  pi: Math.PI,
+  e: Math.E,
+};
+
+const TOKEN = /\s*(\d+(?:\.\d*)?(?:e[+-]?\d+)?|\.\d+(?:e[+-]?\d+)?|[a-z_][a-z0-9_]*|\*\*|[-+*/%^(),])/iy;
+
+const tokenize = (expression: string): string[] => {
+  const tokens: string[] = [];
+  TOKEN.lastIndex = 0;
+  while (TOKEN.lastIndex < expression.length) {
+    const start = TOKEN.lastIndex;
+    const match = TOKEN.exec(expression);
+    if (!match) {
+      if (!expression.slice(start).trim()) break;
+      throw new Error(`Unexpected "${expression.slice(start).trim()[0]}" at position ${start + 1}`);
+    }
+    // "**" is accepted as another spelling of "^"
+    tokens.push(match[1] === '**' ? '^' : match[1].toLowerCase());
+  }
+  return tokens;
+};
+
+/**
+ * Evaluates an arithmetic expression such as "2^10 / (3 + sqrt(16))". Supports + - * / % ^,
+ * parentheses, pi and e, and the functions in FUNCTIONS. Throws on anything else.
+ */
+export const evaluateExpression = (expression: string): number => {
+  const tokens = tokenize(expression.replace(/×/g, '*').replace(/÷/g, '/'));
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const take = (expected?: string) => {
+    const token = tokens[position];
+    if (expected !== undefined && token !== expected) {
+      throw new Error(token === undefined ? `Expected "${expected}" at the end` : `Expected "${expected}" but found "${token}"`);
+    }
+    position++;
+    return token;
+  };
+
+  const parseExpression = (): number => {
+    let value = parseTerm();
+    while (peek() === '+' || peek() === '-') {
+      value = take() === '+' ? value + parseTerm() : value - parseTerm();
+    }
+    return value;
+  };
+
+  const parseTerm = (): number => {
+    let value = parseUnary();
+    while (peek() === '*' || peek() === '/' || peek() === '%') {
+      const operator = take();
+      const right = parseUnary();
+      value = operator === '*' ? value * right : operator === '/' ? value / right : value % right;
+    }
+    return value;
+  };
+
+  // Unary minus binds looser than ^, so -2^2 is -4 and 2^-1 is 0.5
+  const parseUnary = (): number => {
+    if (peek() === '-') { take(); return -parseUnary(); }
+    if (peek() === '+') { take(); return parseUnary(); }
+    return parsePower();
+  };
+
+  const parsePower = (): number => {
+    const base = parseCall();
+    if (peek() !== '^') return base;
+    take();
+    return Math.pow(base, parseUnary());
+  };
+
+  const parseCall = (): number => {
+    const token = take();
+    if (token === undefined) throw new Error('The expression ends too early');
+    if (token === '(') {
+      const value = parseExpression();
+      take(')');
+      return value;
+    }
+    if (/^[\d.]/.test(token)) return Number(token);
+    if (token in CONSTANTS) return CONSTANTS[token];
+    if (token in FUNCTIONS) {
+      take('(');
+      const args = [parseExpression()];
+      while (peek() === ',') {
+        take();
+        args.push(parseExpression());
+      }
+      take(')');
+      return FUNCTIONS[token](...args);
+    }
+    throw new Error(`Unknown name "${token}"`);
+  };
+
+  const result = parseExpression();
+  if (position < tokens.length) throw new Error(`Unexpected "${tokens[position]}"`);
+  if (Number.isNaN(result)) throw new Error('The result is not a number');
+  return result;
+};
@@ -0,0 +1,197 @@
+import { Attachment, ChatMessage, ChatProvider, ContextSummary, MessageRole } from "../types";
+import { getMessageAttachments } from "./attachments";
+import { SUMMARY_INSTRUCTION, EMPTY_REPLY } from "./prompts";
+
+// Keeping chat requests inside a token budget: per-message token estimates, sending old
+// images as placeholders, and a rolling summary that stands in for turns that no longer fit.
+
+export interface ContextSettings {
+  budgetTokens: number;
+  keepImagesForTurns: number; // Images older than this many user turns aren't sent; 0 keeps them all
+  summarize: boolean; // Summarize turns that fall out of the budget instead of just dropping them
+}
+
+export const CONTEXT_BUDGETS = [8000, 16000, 32000, 64000, 128000];
+export const IMAGE_TURN_OPTIONS = [1, 2, 4, 8, 0];
+
+const SETTINGS_KEY = 'xeno_context_settings';
+
+export const DEFAULT_CONTEXT_SETTINGS: ContextSettings = {
+  budgetTokens: 32000,
+  keepImagesForTurns: 4,
+  summarize: true,
+};
+
+export const loadContextSettings = (): ContextSettings => {
+  try {
+    const stored = localStorage.getItem(SETTINGS_KEY);
+    return stored ? { ...DEFAULT_CONTEXT_SETTINGS, ...JSON.parse(stored) } : DEFAULT_CONTEXT_SETTINGS;
+  } catch {
+    return DEFAULT_CONTEXT_SETTINGS;
+  }
+};
+
+export const saveContextSettings = (settings: ContextSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+// --- Token estimates ---
+
+// Kept free for the system prompt, the new message's overhead and the reply
+const RESERVED_TOKENS = 2048;
+const MESSAGE_OVERHEAD_TOKENS = 4;
+// Gemini counts an image as 258 tokens per 768px tile; one tile is a fair average
+const IMAGE_TOKENS = 258;
+// Cap on the transcript handed to the summarizer in one go (~12k tokens)
+const MAX_SUMMARY_INPUT_CHARS = 48000;
+const MAX_TURN_CHARS = 4000;
+
+/**
+ * Rough token count: about 4 characters per token for Latin script, 2 for Devanagari.
+ */
+export const estimateTextTokens = (text: string): number => {
+  const devanagari = (text.match(/[ऀ-ॿ]/g) || []).length;
+  return Math.ceil((text.length - devanagari) / 4 + devanagari / 2);
+};
+
+export const formatTokens = (tokens: number): string =>
+  tokens >= 1000 ? `${(tokens / 1000).toFixed(tokens >= 10000 ? 0 : 1)}k` : String(tokens);
+
+const estimateAttachmentTokens = (attachment: Attachment): number => {
+  switch (attachment.kind) {
+    case 'image': return IMAGE_TOKENS;
+    case 'pdf': return Math.ceil(attachment.size / 50000) * IMAGE_TOKENS; // ~50 KB and 258 tokens a page
+    case 'audio': return Math.ceil(attachment.size / 500); // 32 tokens a second at ~16 KB/s
+    case 'text': return Math.ceil(attachment.size / 4);
+  }
+};
+
+export const estimateMessageTokens = (message: ChatMessage): number =>
+  MESSAGE_OVERHEAD_TOKENS +
+  estimateTextTokens(message.text) +
+  getMessageAttachments(message).reduce((sum, a) => sum + estimateAttachmentTokens(a), 0);
+
+/**
+ * The message as sent once its images are too old: the images become a note in the text.
+ */
+const withoutImages = (message: ChatMessage): ChatMessage => {
+  const images = getMessageAttachments(message).filter(a => a.kind === 'image');
+  if (images.length === 0) return message;
+  const what = images.length === 1 ? 'An image' : `${images.length} images`;
+  return {
+    ...message,
+    imageUrl: undefined,
+    attachments: message.attachments?.filter(a => a.kind !== 'image'),
+    text: `${message.text}\n[${what} from earlier in the chat, no longer attached: ${images.map(i => i.name).join(', ')}]`,
+  };
+};
+
+// --- Planning a request ---
+
+export interface ContextPlan {
+  messages: ChatMessage[]; // History to send, oldest first, with old images removed
+  excluded: ChatMessage[]; // Older messages that didn't fit
+  summary?: ContextSummary; // The session summary, when it belongs to this thread
+  unsummarized: ChatMessage[]; // Excluded messages the summary doesn't cover yet
+  tokens: number; // Estimate for what is sent, summary included
+  droppedImages: number;
+}
+
+/**
+ * Picks the newest messages of `thread` that fit the budget next to the summary and
+ * `reserveTokens` (the new message). The oldest message sent is always a user turn.
+ * Failed replies are never sent.
+ */
+export const planContext = (
+  thread: ChatMessage[],
+  settings: ContextSettings,
+  summary?: ContextSummary,
+  reserveTokens = 0
+): ContextPlan => {
+  const history = thread.filter(m => !m.error);
+  const summaryIndex = summary ? history.findIndex(m => m.id === summary.throughMessageId) : -1;
+  const validSummary = settings.summarize && summaryIndex >= 0 ? summary : undefined;
+  const summaryTokens = validSummary ? estimateTextTokens(validSummary.text) : 0;
+  const budget = settings.budgetTokens - RESERVED_TOKENS - reserveTokens - summaryTokens;
+
+  // Walk back from the newest message; a message belongs to the turn of the user message before it
+  const included: ChatMessage[] = [];
+  let tokens = 0;
+  let turn = 0;
+  let droppedImages = 0;
+  for (let i = history.length - 1; i >= 0; i--) {
+    const original = history[i];
+    const messageTurn = original.role === MessageRole.USER ? ++turn : turn + 1;
+    const keepImages = settings.keepImagesForTurns === 0 || messageTurn <= settings.keepImagesForTurns;
+    const message = keepImages ? original : withoutImages(original);
+    if (message !== original) {
+      droppedImages += getMessageAttachments(original).filter(a => a.kind === 'image').length;
+    }
+    const messageTokens = estimateMessageTokens(message);
+    if (tokens + messageTokens > budget) break;
+    tokens += messageTokens;
+    included.unshift(message);
+  }
+  while (included.length > 0 && included[0].role !== MessageRole.USER) {
+    tokens -= estimateMessageTokens(included.shift()!);
+  }
+
+  const excluded = history.slice(0, history.length - included.length);
+  return {
+    messages: included,
+    excluded,
+    summary: validSummary,
+    unsummarized: settings.summarize ? excluded.slice(summaryIndex + 1) : [],
+    tokens: tokens + summaryTokens,
+    droppedImages,
+  };
+};
+
+// --- Rolling summary ---
+
+const toTranscriptLine = (message: ChatMessage): string => {
+  const speaker = message.role === MessageRole.USER ? 'User' : 'Assistant';
+  const text = message.text.length > MAX_TURN_CHARS ? `${message.text.slice(0, MAX_TURN_CHARS)}…` : message.text;
+  const files = getMessageAttachments(message).map(a => a.name);
+  return `${speaker}: ${text}${files.length > 0 ? ` [attached: ${files.join(', ')}]` : ''}`;
+};
+
+/**
+ * Folds `turns` into the previous summary. Resolves null when the model gave no usable
+ * summary, in which case the old one stays.
+ */
+export const summarizeTurns = async (
+  provider: ChatProvider,
+  model: string,
+  previous: ContextSummary | undefined,
+  turns: ChatMessage[]
+): Promise<ContextSummary | null> => {
+  // Keep the latest turns when a first summary of a very long chat would be too big
+  const lines: string[] = [];
+  let length = 0;
+  for (let i = turns.length - 1; i >= 0 && length < MAX_SUMMARY_INPUT_CHARS; i--) {
+    const line = toTranscriptLine(turns[i]);
+    lines.unshift(line);
+    length += line.length;
+  }
+  const omitted = lines.length < turns.length ? '(Earlier turns omitted.)\n\n' : '';
+  const message = `${previous ? `Previous summary:\n${previous.text}\n\n` : ''}Conversation since then:\n${omitted}${lines.join('\n\n')}`;
+
+  const text = (await provider.sendMessage({
+    history: [],
+    message,
+    model,
+    systemInstruction: SUMMARY_INSTRUCTION,
+    temperature: 0.2,
+  })).trim();
+  if (!text || text === EMPTY_REPLY) return null;
+  return { text, throughMessageId: turns[turns.length - 1].id, updatedAt: Date.now() };
+};
+
+/**
+ * The system instruction with the summary of the turns the model no longer sees.
+ */
+export const withContextSummary = (systemInstruction: string, summary?: ContextSummary): string =>
+  summary
+    ? `${systemInstruction}\n\nSummary of the earlier conversation (those messages are no longer shown to you):\n${summary.text}`
+    : systemInstruction;
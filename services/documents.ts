@@ -0,0 +1,286 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Attachment, ChatSession, Citation, DocumentChunk, ProviderId, SessionDocument } from "../types";
+import { ACCEPTED_FILE_TYPES, classifyFile, dataUrlBase64, decodeTextAttachment, readAttachments } from "./attachments";
+import { getEmbeddingProvider } from "./providers";
+import { saveDocumentChunks, loadSessionChunks, deleteDocumentChunks } from "./storage";
+// Bundled with the app, so PDFs can be read offline
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+
+// Document Q&A: files added to a chat are split into overlapping chunks, embedded and kept
+// in IndexedDB. Each chat message retrieves the closest chunks, which are sent with it as
+// numbered passages; the reply cites them as [n].
+
+const CHUNK_CHARS = 1200;
+const CHUNK_OVERLAP_CHARS = 200;
+const EMBEDDING_BATCH_SIZE = 50;
+export const TOP_K = 5;
+
+// Chunks of the open chats, so retrieval doesn't re-read IndexedDB for every message
+const chunkCache = new Map<string, DocumentChunk[]>();
+
+interface PageText {
+  page?: number;
+  text: string;
+}
+
+// Only files with text in them can be searched
+export const DOCUMENT_FILE_TYPES = ACCEPTED_FILE_TYPES.split(',')
+  .filter(type => type !== 'image/*' && type !== 'audio/*')
+  .join(',');
+
+/**
+ * Reads PDFs and text files to index. Each file is checked on its own, since documents
+ * aren't sent inline and so don't share the per-message limits.
+ */
+export const readDocumentFiles = async (files: File[]): Promise<{ files: Attachment[]; errors: string[] }> => {
+  const read: Attachment[] = [];
+  const errors: string[] = [];
+  for (const file of files) {
+    const kind = classifyFile(file);
+    if (kind !== 'pdf' && kind !== 'text') {
+      errors.push(`"${file.name}" has no text to search; add PDFs or text files.`);
+      continue;
+    }
+    const result = await readAttachments([file], []);
+    read.push(...result.attachments);
+    errors.push(...result.errors);
+  }
+  return { files: read, errors };
+};
+
+// --- Extraction ---
+
+const base64ToBytes = (base64: string): Uint8Array => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+/**
+ * Text of each page, via pdf.js. It is loaded on first use since most chats never need it.
+ */
+const extractPdfText = async (dataUrl: string): Promise<PageText[]> => {
+  const pdfjs = await import('pdfjs-dist');
+  pdfjs.GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+  const pdf = await pdfjs.getDocument({ data: base64ToBytes(dataUrlBase64(dataUrl)) }).promise;
+  const pages: PageText[] = [];
+  for (let page = 1; page <= pdf.numPages; page++) {
+    const content = await (await pdf.getPage(page)).getTextContent();
+    const text = content.items
+      .map(item => 'str' in item ? item.str + (item.hasEOL ? '\n' : '') : '')
+      .join('');
+    pages.push({ page, text });
+  }
+  await pdf.destroy();
+  return pages;
+};
+
+const extractText = async (file: Attachment): Promise<PageText[]> =>
+  file.kind === 'pdf' ? extractPdfText(file.dataUrl) : [{ text: decodeTextAttachment(file) }];
+
+// --- Chunking ---
+
+/**
+ * Splits each page into windows of about CHUNK_CHARS that overlap by CHUNK_OVERLAP_CHARS,
+ * ending at a paragraph, line or sentence break when there is one in the second half.
+ */
+export const chunkPages = (pages: PageText[]): PageText[] => {
+  const chunks: PageText[] = [];
+  for (const { page, text: raw } of pages) {
+    const text = raw.replace(/[ \t]+/g, ' ').replace(/\n{3,}/g, '\n\n').trim();
+    let start = 0;
+    while (start < text.length) {
+      let end = Math.min(start + CHUNK_CHARS, text.length);
+      if (end < text.length) {
+        const window = text.slice(start + CHUNK_CHARS / 2, end);
+        const breakAt = Math.max(window.lastIndexOf('\n\n'), window.lastIndexOf('\n'), window.lastIndexOf('. '));
+        if (breakAt >= 0) end = start + CHUNK_CHARS / 2 + breakAt + 1;
+      }
+      const chunk = text.slice(start, end).trim();
+      if (chunk) chunks.push({ page, text: chunk });
+      if (end >= text.length) break;
+      // Start the next window on a word boundary inside the overlap
+      const overlapStart = Math.max(end - CHUNK_OVERLAP_CHARS, start + 1);
+      const space = text.indexOf(' ', overlapStart);
+      start = space >= 0 && space < end ? space + 1 : overlapStart;
+    }
+  }
+  return chunks;
+};
+
+// --- Indexing ---
+
+export const createSessionDocument = (file: Attachment, providerId: ProviderId): SessionDocument => ({
+  id: uuidv4(),
+  name: file.name,
+  mimeType: file.mimeType,
+  size: file.size,
+  status: 'indexing',
+  chunkCount: 0,
+  embeddingProviderId: providerId,
+  embeddingModel: getEmbeddingProvider(providerId).embeddingModels[0],
+  addedAt: Date.now(),
+});
+
+/**
+ * Extracts, chunks and embeds `file`, stores the chunks and resolves with the document
+ * marked ready. Throws with a message for the user when the file has no usable text.
+ */
+export const ingestDocument = async (sessionId: string, document: SessionDocument, file: Attachment): Promise<SessionDocument> => {
+  const pieces = chunkPages(await extractText(file));
+  if (pieces.length === 0) {
+    throw new Error(file.kind === 'pdf'
+      ? "No text found. Scanned PDFs (images of pages) can't be searched yet."
+      : 'The file is empty.');
+  }
+
+  const provider = getEmbeddingProvider(document.embeddingProviderId);
+  const embeddings: number[][] = [];
+  for (let i = 0; i < pieces.length; i += EMBEDDING_BATCH_SIZE) {
+    const batch = pieces.slice(i, i + EMBEDDING_BATCH_SIZE).map(piece => piece.text);
+    embeddings.push(...await provider.embed({ texts: batch, model: document.embeddingModel, purpose: 'document' }));
+  }
+  if (embeddings.length !== pieces.length) throw new Error('The embedding model returned an incomplete result.');
+
+  const chunks: DocumentChunk[] = pieces.map((piece, index) => ({
+    id: `${document.id}:${index}`,
+    documentId: document.id,
+    sessionId,
+    index,
+    page: piece.page,
+    text: piece.text,
+    embedding: embeddings[index],
+  }));
+  await saveDocumentChunks(chunks);
+  chunkCache.delete(sessionId);
+  return { ...document, status: 'ready', chunkCount: chunks.length, error: undefined };
+};
+
+/**
+ * Indexing stops when the page is closed; documents it left unfinished have to be added again.
+ */
+export const withInterruptedIndexing = (session: ChatSession): ChatSession =>
+  session.documents?.some(d => d.status === 'indexing')
+    ? {
+        ...session,
+        documents: session.documents.map(d => d.status === 'indexing'
+          ? { ...d, status: 'error', error: 'Indexing was interrupted. Remove the file and add it again.' }
+          : d),
+      }
+    : session;
+
+export const deleteDocumentIndex = async (sessionId: string, documentId: string): Promise<void> => {
+  chunkCache.delete(sessionId);
+  await deleteDocumentChunks(documentId);
+};
+
+// --- Retrieval ---
+
+const cosineSimilarity = (a: number[], b: number[]): number => {
+  let dot = 0, normA = 0, normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+};
+
+export interface RetrievedChunk {
+  chunk: DocumentChunk;
+  document: SessionDocument;
+  score: number;
+}
+
+/**
+ * The `k` chunks of the chat's ready documents closest to `query`. Documents indexed with
+ * different embedding models are searched with a query vector from each model.
+ */
+export const retrieveChunks = async (
+  sessionId: string,
+  documents: SessionDocument[],
+  query: string,
+  k = TOP_K
+): Promise<RetrievedChunk[]> => {
+  const ready = documents.filter(d => d.status === 'ready');
+  if (ready.length === 0 || !query.trim()) return [];
+
+  let chunks = chunkCache.get(sessionId);
+  if (!chunks) {
+    chunks = await loadSessionChunks(sessionId);
+    chunkCache.set(sessionId, chunks);
+  }
+
+  const groups = new Map<string, SessionDocument[]>();
+  ready.forEach(document => {
+    const key = `${document.embeddingProviderId}::${document.embeddingModel}`;
+    groups.set(key, [...(groups.get(key) || []), document]);
+  });
+
+  const scored: RetrievedChunk[] = [];
+  for (const group of groups.values()) {
+    const { embeddingProviderId, embeddingModel } = group[0];
+    const [queryVector] = await getEmbeddingProvider(embeddingProviderId)
+      .embed({ texts: [query], model: embeddingModel, purpose: 'query' });
+    const byId = new Map(group.map(d => [d.id, d]));
+    chunks.forEach(chunk => {
+      const document = byId.get(chunk.documentId);
+      if (document) scored.push({ chunk, document, score: cosineSimilarity(queryVector, chunk.embedding) });
+    });
+  }
+  return scored.sort((a, b) => b.score - a.score).slice(0, k);
+};
+
+/**
+ * The numbered passages sent with the message, and the citations their numbers stand for.
+ */
+export const buildDocumentContext = (retrieved: RetrievedChunk[]): { context?: string; citations: Citation[] } => {
+  if (retrieved.length === 0) return { citations: [] };
+  const citations: Citation[] = retrieved.map(({ chunk, document }, i) => ({
+    marker: i + 1,
+    chunkId: chunk.id,
+    documentId: document.id,
+    documentName: document.name,
+    page: chunk.page,
+    text: chunk.text,
+  }));
+  const passages = citations.map(c => `[${c.marker}] ${describeCitation(c)}\n${c.text}`).join('\n\n');
+  return {
+    context: `Passages from the user's documents that may help with their message. When you use one, cite it right after the statement with its number in square brackets, e.g. [2]. If they don't answer the question, say so instead of guessing.\n\n${passages}`,
+    citations,
+  };
+};
+
+export const describeCitation = (citation: Pick<Citation, 'documentName' | 'page'>): string =>
+  citation.page ? `${citation.documentName}, page ${citation.page}` : citation.documentName;
+
+// [2] or [1, 3], but not the text of a markdown link
+const CITATION_MARKER = /\[(\d+(?:\s*,\s*\d+)*)\](?!\()/g;
+
+const markerNumbers = (group: string): number[] => group.split(',').map(n => Number(n.trim()));
+
+/**
+ * The citations a reply actually refers to.
+ */
+export const citedIn = (text: string, citations: Citation[]): Citation[] => {
+  const markers = new Set<number>();
+  for (const match of text.matchAll(CITATION_MARKER)) markerNumbers(match[1]).forEach(n => markers.add(n));
+  return citations.filter(c => markers.has(c.marker));
+};
+
+export const CITATION_HREF_PREFIX = '#cite-';
+
+/**
+ * Turns the reply's citation markers into markdown links the message renders as buttons.
+ */
+export const linkCitations = (text: string, citations: Citation[]): string => {
+  if (citations.length === 0) return text;
+  const known = new Set(citations.map(c => c.marker));
+  return text.replace(CITATION_MARKER, (marker, group: string) => {
+    const numbers = markerNumbers(group);
+    return numbers.every(n => known.has(n))
+      ? numbers.map(n => `[[${n}]](${CITATION_HREF_PREFIX}${n})`).join('')
+      : marker;
+  });
+};
@@ -0,0 +1,171 @@
+import { MessageError, ProviderErrorKind } from "../types";
+
+// Provider failures as typed errors, with retries for the transient ones and request timeouts.
+
+// Whole request, for calls that answer in one piece
+export const REQUEST_TIMEOUT_MS = 60000;
+// Images take longer to render
+export const IMAGE_TIMEOUT_MS = 120000;
+// Streams may run long, but not stall: the longest wait for the next chunk
+export const STREAM_IDLE_TIMEOUT_MS = 30000;
+
+const MAX_RETRIES = 3;
+const BASE_RETRY_DELAY_MS = 1000;
+// A quota that resets later than this is reported instead of waited out
+const MAX_RETRY_DELAY_MS = 30000;
+
+const MESSAGES: Record<ProviderErrorKind, string> = {
+  auth: 'The request was not authorized. Sign in again, or check the key configured for this provider.',
+  quota: 'Too many requests, or the quota is used up. Wait a moment and retry.',
+  safety: "The provider's safety filters blocked this reply. Try rephrasing your message.",
+  network: "Couldn't reach the model. Check your connection and retry.",
+  timeout: 'The model took too long to answer.',
+  server: 'The model service had a problem. Retry in a moment.',
+  unknown: 'Something went wrong while getting a reply.',
+};
+
+const RETRYABLE: ProviderErrorKind[] = ['quota', 'network', 'timeout', 'server'];
+
+export class ProviderError extends Error {
+  kind: ProviderErrorKind;
+  detail?: string;
+  // How long the provider asked us to wait before trying again
+  retryAfterMs?: number;
+
+  constructor(kind: ProviderErrorKind, detail?: string, retryAfterMs?: number) {
+    super(MESSAGES[kind]);
+    this.name = 'ProviderError';
+    this.kind = kind;
+    this.detail = detail;
+    this.retryAfterMs = retryAfterMs;
+  }
+
+  get retryable() {
+    return RETRYABLE.includes(this.kind);
+  }
+}
+
+const kindForStatus = (status: number, message: string): ProviderErrorKind => {
+  if (status === 401 || status === 403 || /API key not valid|API_KEY_INVALID/i.test(message)) return 'auth';
+  if (status === 429) return 'quota';
+  if (status === 408) return 'timeout';
+  if (status >= 500) return 'server';
+  return 'unknown';
+};
+
+// Gemini puts the wait in the error body as RetryInfo, e.g. "retryDelay": "17s"
+const parseRetryDelay = (message: string): number | undefined => {
+  const match = message.match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/);
+  return match ? Number(match[1]) * 1000 : undefined;
+};
+
+/**
+ * Types whatever a provider call threw: SDK errors carry an HTTP status, fetch fails with a
+ * TypeError when offline, and an abort we didn't ask for is one of our timeouts.
+ */
+export const toProviderError = (error: unknown): ProviderError => {
+  if (error instanceof ProviderError) return error;
+  const message = error instanceof Error ? error.message : String(error);
+  const name = error instanceof Error ? error.name : '';
+  const status = typeof (error as any)?.status === 'number' ? (error as any).status : undefined;
+
+  if (status !== undefined) return new ProviderError(kindForStatus(status, message), message, parseRetryDelay(message));
+  if (name === 'AbortError' || name === 'TimeoutError') return new ProviderError('timeout', message);
+  if (error instanceof TypeError && (!navigator.onLine || /fetch|network|load failed/i.test(message))) {
+    return new ProviderError('network', message);
+  }
+  return new ProviderError('unknown', message);
+};
+
+/**
+ * Typed error for a failed fetch to an OpenAI-style endpoint.
+ */
+export const httpError = async (response: Response): Promise<ProviderError> => {
+  const body = await response.text().catch(() => '');
+  const retryAfter = Number(response.headers.get('retry-after'));
+  return new ProviderError(
+    kindForStatus(response.status, body),
+    `HTTP ${response.status}: ${body}`,
+    retryAfter > 0 ? retryAfter * 1000 : undefined
+  );
+};
+
+export const toMessageError = (error: unknown): MessageError => {
+  const { kind, message, detail } = toProviderError(error);
+  return { kind, message, detail };
+};
+
+export interface Deadline {
+  signal: AbortSignal; // Aborts when the time is up or the parent signal aborts
+  reset: () => void; // Start the wait over, e.g. when a stream chunk arrives
+  clear: () => void;
+}
+
+export const createDeadline = (timeoutMs: number, parent?: AbortSignal): Deadline => {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const onParentAbort = () => controller.abort(parent?.reason);
+  const reset = () => {
+    clearTimeout(timer);
+    timer = setTimeout(() => controller.abort(new ProviderError('timeout', `No response within ${timeoutMs / 1000} s`)), timeoutMs);
+  };
+  if (parent?.aborted) controller.abort(parent.reason);
+  else parent?.addEventListener('abort', onParentAbort, { once: true });
+  reset();
+  return {
+    signal: controller.signal,
+    reset,
+    clear: () => {
+      clearTimeout(timer);
+      parent?.removeEventListener('abort', onParentAbort);
+    },
+  };
+};
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>(resolve => {
+  const timer = setTimeout(done, ms);
+  function done() {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', done);
+    resolve();
+  }
+  signal?.addEventListener('abort', done, { once: true });
+});
+
+export interface RetryOptions {
+  signal?: AbortSignal; // Stops retrying; the caller decides what a user abort means
+  timeoutMs?: number; // Per attempt; 0 leaves timing to the attempt itself
+  retries?: number;
+}
+
+/**
+ * Runs `attempt` until it succeeds, retrying transient failures (rate limits, network,
+ * timeouts, 5xx) with exponential backoff and jitter, or after the delay the provider asked
+ * for. Anything else, or the last failure, is thrown as a ProviderError.
+ */
+export const withRetry = async <T>(
+  attempt: (signal?: AbortSignal) => Promise<T>,
+  { signal, timeoutMs = REQUEST_TIMEOUT_MS, retries = MAX_RETRIES }: RetryOptions = {}
+): Promise<T> => {
+  for (let attemptIndex = 0; ; attemptIndex++) {
+    const deadline = timeoutMs > 0 ? createDeadline(timeoutMs, signal) : undefined;
+    try {
+      if (!deadline) return await attempt(signal);
+      // Settle on time even if the attempt ignores its signal
+      const expired = new Promise<never>((_, reject) =>
+        deadline.signal.addEventListener('abort', () => reject(deadline.signal.reason), { once: true })
+      );
+      return await Promise.race([attempt(deadline.signal), expired]);
+    } catch (e) {
+      if (signal?.aborted) throw e;
+      const error = toProviderError(e);
+      const delay = error.retryAfterMs ?? BASE_RETRY_DELAY_MS * 2 ** attemptIndex + Math.random() * 250;
+      if (!error.retryable || attemptIndex >= retries || delay > MAX_RETRY_DELAY_MS) throw error;
+      console.warn(`Retrying after ${error.kind} error (attempt ${attemptIndex + 1} of ${retries})`, error.detail);
+      await sleep(delay, signal);
+      if (signal?.aborted) throw e;
+    } finally {
+      deadline?.clear();
+    }
+  }
+};
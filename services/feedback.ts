@@ -0,0 +1,57 @@
+import { ChatMessage, ChatSession, FeedbackRating, MessageFeedback, MessageRole } from "../types";
+import { getAncestors } from "./thread";
+import { ExportFile } from "./transfer";
+
+// Thumbs up/down on model replies. Each rating is kept in localStorage with the reply, the
+// message it answered and the model that wrote it, so reply quality can be evaluated over
+// time; they export as JSON Lines, one rating per line. Ratings outlive deleted chats.
+
+const FEEDBACK_KEY = 'xeno_feedback';
+
+export const loadFeedback = (): MessageFeedback[] => {
+  try {
+    const stored = localStorage.getItem(FEEDBACK_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveFeedback = (feedback: MessageFeedback[]) => {
+  localStorage.setItem(FEEDBACK_KEY, JSON.stringify(feedback));
+};
+
+/**
+ * Rates a reply, replacing an earlier rating of it (and its comment). A null rating
+ * removes it.
+ */
+export const rateMessage = (
+  feedback: MessageFeedback[],
+  session: ChatSession,
+  message: ChatMessage,
+  rating: FeedbackRating | null
+): MessageFeedback[] => {
+  const others = feedback.filter(f => f.messageId !== message.id);
+  if (!rating) return others;
+  const now = Date.now();
+  const prompt = getAncestors(session.messages, message.id).filter(m => m.role === MessageRole.USER).pop();
+  return [...others, {
+    messageId: message.id,
+    sessionId: session.id,
+    rating,
+    providerId: message.providerId,
+    model: message.model,
+    prompt: prompt?.text || '',
+    response: message.text,
+    createdAt: feedback.find(f => f.messageId === message.id)?.createdAt ?? now,
+    updatedAt: now,
+  }];
+};
+
+export const withFeedbackComment = (feedback: MessageFeedback[], messageId: string, comment: string): MessageFeedback[] =>
+  feedback.map(f => f.messageId === messageId ? { ...f, comment: comment.trim() || undefined, updatedAt: Date.now() } : f);
+
+export const exportFeedback = (feedback: MessageFeedback[]): ExportFile => ({
+  blob: new Blob([feedback.map(f => `${JSON.stringify(f)}\n`).join('')], { type: 'application/x-ndjson' }),
+  filename: `xeno-feedback-${new Date().toISOString().slice(0, 10)}.jsonl`,
+});
@@ -1,135 +1,399 @@
-import { GoogleGenAI, Modality } from "@google/genai";
-import { MessageRole, ChatMessage, MessageType } from "../types";
+import { ApiError, Modality, FunctionCall, GenerateContentResponse, GenerateContentParameters, GenerateImagesParameters, GenerateImagesResponse, EmbedContentParameters, EmbedContentResponse } from "@google/genai";
+import { MessageRole, ChatMessage, MessageType, ChatRequest, ChatProvider, ImageProvider, Attachment, ImageEditRequest, ImageGenerationRequest, IntentRequest, RouteDecision, ToolDefinition, EmbeddingProvider, EmbeddingRequest } from "../types";
+import { SYSTEM_INSTRUCTION, ROUTER_INSTRUCTION, EMPTY_REPLY } from "./prompts";
+import { getMessageAttachments, dataUrlBase64, dataUrlMimeType } from "./attachments";
+import { toBlackAndWhiteMask } from "./imageEdit";
+import { buildImagePrompt } from "./imageOptions";
+import { ROUTE_SCHEMA, describeIntentRequest, parseRouteDecision } from "./intent";
+import { ProviderError, withRetry, toProviderError, createDeadline, Deadline, IMAGE_TIMEOUT_MS, STREAM_IDLE_TIMEOUT_MS } from "./errors";
+import { postToApi } from "./api";
 
-// Initialize the client with the environment API key
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+// Gemini is reached through our API server, which holds the key and makes the SDK call.
 
-const SYSTEM_INSTRUCTION = `
-You are Xeno AI, a friendly, bilingual AI companion (Hindi and English). 
-You are helpful, warm, and slightly playful. You love using emojis 😊💫🔥.
-If the user sends an image, analyze it enthusiastically.
-If the user asks to generate an image, describe what you would generate in detail, but do not generate it yourself directly in text (the UI handles the actual generation call).
-Support Hinglish as well.
-Keep responses concise unless asked for detail.
-`;
+export const GEMINI_CHAT_MODELS = ['gemini-2.5-flash', 'gemini-2.5-pro', 'gemini-2.5-flash-lite'];
+export const GEMINI_IMAGE_MODELS = ['imagen-4.0-generate-001', 'imagen-4.0-fast-generate-001'];
+// Imagen editing is Vertex-only; the Gemini image model edits from instructions with an API key
+export const GEMINI_EDIT_MODELS = ['gemini-2.5-flash-image'];
+export const GEMINI_EMBEDDING_MODELS = ['gemini-embedding-001'];
+// gemini-embedding-001 is trained to be truncated; 768 dimensions keep the local index small
+const EMBEDDING_DIMENSIONS = 768;
+// Cheapest model, used to decide whether a message is chat or an image request
+const GEMINI_ROUTER_MODEL = 'gemini-2.5-flash-lite';
+// Rounds of tool calls in one reply before the model has to answer in text
+const MAX_TOOL_ROUNDS = 5;
+// Finish reasons that mean the reply was withheld rather than finished
+const BLOCKED_FINISH_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'IMAGE_SAFETY'];
 
 /**
- * Helper to convert base64 data URI to raw base64 string (stripping header)
+ * Sends an SDK call to the API server. The abort signal goes with the fetch rather than in
+ * the JSON config.
  */
-const cleanBase64 = (dataUri: string): string => {
-  const base64Pattern = /^data:image\/(png|jpeg|webp|heic);base64,/;
-  return dataUri.replace(base64Pattern, '');
+const callApi = <P extends { config?: { abortSignal?: AbortSignal } }>(path: string, { config, ...params }: P): Promise<Response> => {
+  const { abortSignal, ...rest } = config || {};
+  return postToApi(path, { ...params, config: rest }, abortSignal);
 };
 
-const getMimeType = (dataUri: string): string => {
-  const match = dataUri.match(/^data:(image\/\w+);base64,/);
-  return match ? match[1] : 'image/jpeg';
+// Responses are rebuilt as SDK objects so getters like `text` and `functionCalls` work
+const toContentResponse = (json: unknown): GenerateContentResponse => Object.assign(new GenerateContentResponse(), json);
+
+const generateContent = async (params: GenerateContentParameters): Promise<GenerateContentResponse> =>
+  toContentResponse(await (await callApi('chat', params)).json());
+
+/**
+ * Streamed replies arrive as one JSON chunk per line. A failure after the stream opened is
+ * sent as a last line with an error instead of a chunk.
+ */
+async function* readChunks(response: Response): AsyncGenerator<GenerateContentResponse> {
+  const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader();
+  let buffered = '';
+  while (true) {
+    const { done, value } = await reader.read();
+    buffered += value || '';
+    const lines = done ? [buffered] : buffered.split('\n');
+    buffered = done ? '' : lines.pop()!;
+    for (const line of lines.filter(l => l.trim())) {
+      const json = JSON.parse(line);
+      if (json.error) throw new ApiError({ message: json.error.message, status: json.error.code });
+      yield toContentResponse(json);
+    }
+    if (done) return;
+  }
 }
 
+// Resolves once the stream is open, so failing to open it can be retried like a request
+const generateContentStream = async (params: GenerateContentParameters): Promise<AsyncGenerator<GenerateContentResponse>> =>
+  readChunks(await callApi('chat/stream', params));
+
+const generateImages = async (params: GenerateImagesParameters): Promise<GenerateImagesResponse> =>
+  (await callApi('images', params)).json();
+
+const embedContent = async (params: EmbedContentParameters): Promise<EmbedContentResponse> =>
+  (await callApi('embed', params)).json();
+
 /**
- * Send a message to the chat model.
- * Handles both text-only and multimodal (text + image) requests.
+ * Each attachment becomes an inline part typed by its kind, preceded by its file name so the
+ * model can tell several files apart. Gemini only accepts a few text subtypes, so text and
+ * code files are all sent as text/plain.
  */
-export const sendMessageToGemini = async (
+const toAttachmentParts = (attachments: Attachment[]): any[] =>
+  attachments.flatMap(attachment => [
+    { text: `[Attachment: ${attachment.name}]` },
+    {
+      inlineData: {
+        mimeType: attachment.kind === 'text' ? 'text/plain' : attachment.mimeType,
+        data: dataUrlBase64(attachment.dataUrl)
+      }
+    }
+  ]);
+
+/**
+ * Build the 'contents' array for a chat turn: prior history followed by the new user message,
+ * with any retrieved document passages placed just before its text.
+ */
+const buildChatContents = (
   history: ChatMessage[],
   currentMessage: string,
-  currentImage?: string
-): Promise<string> => {
-  try {
-    // Transform history for the API (excluding the current message which we pass in 'contents')
-    // We only take the last few turns to keep context but avoid token limits if needed, 
-    // though Gemini Flash has a large context window.
-    // Note: @google/genai chat history format is strictly text mostly, but we can reconstruct it.
-    // For simplicity in this stateles wrapper, we'll use generateContent with a constructed history prompt 
-    // OR use the chat API if strictly text. 
-    // Since we support images in history, using `generateContent` with a robust context construction is often safer/easier for mixed modality history.
-    
-    // However, `ai.chats.create` is great for text.
-    // Let's use `generateContent` for maximum flexibility with mixed modalities in the "past".
-    // We will construct a "chat" by passing previous turns as content parts if possible, 
-    // but the simplest way for a single turn response with history is to format the history as a text block 
-    // or use the `contents` array properly if the API supports mixed history in one go.
-    
-    // To keep it standard and robust:
-    // We will format the conversation history into the 'contents' array.
-    
-    const contents = history.map(msg => ({
-      role: msg.role === MessageRole.USER ? 'user' : 'model',
+  currentAttachments: Attachment[] = [],
+  context?: string
+) => {
+  // We format the conversation history into the 'contents' array so mixed modality
+  // turns (text + files) in the "past" are preserved.
+  const contents = history.map(msg => ({
+    role: msg.role === MessageRole.USER ? 'user' : 'model',
+    parts: [
+      ...toAttachmentParts(getMessageAttachments(msg)),
+      { text: msg.text }
+    ]
+  }));
+
+  // Add the new message
+  return [
+    ...contents,
+    {
+      role: 'user',
       parts: [
-        ...(msg.imageUrl ? [{ inlineData: { mimeType: 'image/jpeg', data: cleanBase64(msg.imageUrl) } }] : []),
-        { text: msg.text }
+        ...toAttachmentParts(currentAttachments),
+        ...(context ? [{ text: context }] : []),
+        { text: currentMessage }
       ]
-    }));
-
-    // Add the new message
-    const newParts: any[] = [{ text: currentMessage }];
-    if (currentImage) {
-      newParts.unshift({
-        inlineData: {
-          mimeType: getMimeType(currentImage),
-          data: cleanBase64(currentImage)
-        }
-      });
     }
+  ];
+};
 
-    const finalContents = [
-      ...contents,
-      { role: 'user', parts: newParts }
-    ];
+/**
+ * A blocked prompt or reply comes back as a normal response without text; make it an error.
+ */
+const assertNotBlocked = (response: GenerateContentResponse) => {
+  const blockReason = response.promptFeedback?.blockReason;
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (blockReason || (finishReason && BLOCKED_FINISH_REASONS.includes(finishReason))) {
+    throw new ProviderError('safety', response.promptFeedback?.blockReasonMessage || `Blocked (${blockReason || finishReason})`);
+  }
+};
 
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: finalContents,
+/**
+ * Send a message to the chat model.
+ * Handles both text-only and multimodal (text + attachments) requests. Transient failures
+ * are retried; the rest are thrown as a ProviderError.
+ */
+export const sendMessageToGemini = async ({
+  history,
+  message,
+  attachments,
+  model = GEMINI_CHAT_MODELS[0],
+  systemInstruction = SYSTEM_INSTRUCTION,
+  temperature,
+  signal,
+  context
+}: ChatRequest): Promise<string> => {
+  try {
+    const response = await withRetry(abortSignal => generateContent({
+      model,
+      contents: buildChatContents(history, message, attachments, context),
       config: {
-        systemInstruction: SYSTEM_INSTRUCTION,
+        systemInstruction,
+        temperature,
+        abortSignal,
       }
-    });
+    }), { signal });
+    assertNotBlocked(response);
 
-    return response.text || "I'm having trouble speaking right now.";
+    return response.text || EMPTY_REPLY;
 
   } catch (error) {
     console.error("Gemini Chat Error:", error);
-    return "Sorry, I encountered an error connecting to my neural link. 🧠❌";
+    throw toProviderError(error);
   }
 };
 
+const toFunctionDeclarations = (tools: ToolDefinition<any>[]) => [{
+  functionDeclarations: tools.map(tool => ({
+    name: tool.name,
+    description: tool.description,
+    parametersJsonSchema: tool.parameters,
+  }))
+}];
+
 /**
- * Generate an image using Imagen 3
+ * Streaming variant of sendMessageToGemini.
+ * Calls onChunk with the accumulated text every time a new chunk arrives and resolves
+ * with the final text. Aborting the signal stops the stream and keeps the partial text.
+ * Opening a stream is retried like a request; once text has arrived a failure is thrown
+ * (the caller keeps what it already showed), as is a stream that stalls.
+ *
+ * With `tools`, this is a tool-calling loop: when the model calls functions, each call goes
+ * through runTool (one at a time, since some wait for approval) and the results are sent
+ * back for the model to continue, for up to MAX_TOOL_ROUNDS rounds.
  */
-export const generateImageWithGemini = async (prompt: string): Promise<string | null> => {
+export const streamMessageToGemini = async (
+  { history, message, attachments, model = GEMINI_CHAT_MODELS[0], systemInstruction = SYSTEM_INSTRUCTION, temperature, signal, tools, runTool, context }: ChatRequest,
+  onChunk: (textSoFar: string) => void
+): Promise<string> => {
+  let text = '';
+  let idle: Deadline | undefined;
   try {
-    const response = await ai.models.generateImages({
-      model: 'imagen-4.0-generate-001',
-      prompt: prompt,
+    const contents: any[] = buildChatContents(history, message, attachments, context);
+
+    for (let round = 0; ; round++) {
+      const offerTools = !!tools?.length && !!runTool && round < MAX_TOOL_ROUNDS;
+      // Each attempt gets a fresh idle deadline, which then keeps watching the stream it opened
+      const stream = await withRetry(() => {
+        idle?.clear();
+        idle = createDeadline(STREAM_IDLE_TIMEOUT_MS, signal);
+        return generateContentStream({
+          model,
+          contents,
+          config: {
+            systemInstruction,
+            temperature,
+            abortSignal: idle.signal,
+            tools: offerTools ? toFunctionDeclarations(tools!) : undefined,
+          }
+        });
+      }, { signal, timeoutMs: 0 });
+
+      // The model's turn is sent back as-is: function calls carry thought signatures
+      const modelParts: any[] = [];
+      const calls: FunctionCall[] = [];
+      const separator = text ? '\n\n' : '';
+      let roundText = '';
+      for await (const chunk of stream) {
+        if (signal?.aborted) break;
+        idle!.reset();
+        assertNotBlocked(chunk);
+        modelParts.push(...(chunk.candidates?.[0]?.content?.parts || []));
+        calls.push(...(chunk.functionCalls || []));
+        const chunkText = chunk.candidates?.[0]?.content?.parts
+          ?.filter(part => part.text && !part.thought)
+          .map(part => part.text)
+          .join('');
+        if (chunkText) {
+          roundText += chunkText;
+          onChunk(text + separator + roundText);
+        }
+      }
+      // Tool calls may wait on the user, which is not a stalled stream
+      idle!.clear();
+      if (roundText) text += separator + roundText;
+      if (signal?.aborted || calls.length === 0 || !runTool) break;
+
+      const responses: any[] = [];
+      for (const [index, call] of calls.entries()) {
+        const name = call.name || '';
+        const outcome = await runTool({ id: call.id || `${name}-${round}-${index}`, name, args: call.args || {} });
+        responses.push({
+          functionResponse: {
+            id: call.id,
+            name,
+            response: outcome.error !== undefined ? { error: outcome.error } : { output: outcome.result ?? null },
+          }
+        });
+      }
+      if (signal?.aborted) break;
+      contents.push({ role: 'model', parts: modelParts }, { role: 'user', parts: responses });
+    }
+
+    return text || (signal?.aborted ? '' : EMPTY_REPLY);
+
+  } catch (error) {
+    // A user-initiated stop is not an error: keep whatever already arrived.
+    if (signal?.aborted) return text;
+    console.error("Gemini Stream Error:", error);
+    throw toProviderError(error);
+  } finally {
+    idle?.clear();
+  }
+};
+
+/**
+ * Embeds texts for retrieval; stored passages and search queries use different task types.
+ */
+export const embedWithGemini = async ({ texts, model = GEMINI_EMBEDDING_MODELS[0], purpose }: EmbeddingRequest): Promise<number[][]> => {
+  const response = await withRetry(abortSignal => embedContent({
+    model,
+    contents: texts,
+    config: {
+      taskType: purpose === 'query' ? 'RETRIEVAL_QUERY' : 'RETRIEVAL_DOCUMENT',
+      outputDimensionality: EMBEDDING_DIMENSIONS,
+      abortSignal,
+    }
+  }));
+  return (response.embeddings || []).map(embedding => embedding.values || []);
+};
+
+/**
+ * Classifies a message with structured output: the model must answer with ROUTE_SCHEMA JSON.
+ */
+export const classifyIntentWithGemini = async (request: IntentRequest): Promise<RouteDecision | null> => {
+  const response = await generateContent({
+    model: GEMINI_ROUTER_MODEL,
+    contents: [{ role: 'user', parts: [{ text: describeIntentRequest(request) }] }],
+    config: {
+      systemInstruction: ROUTER_INSTRUCTION,
+      responseMimeType: 'application/json',
+      responseJsonSchema: ROUTE_SCHEMA,
+      temperature: 0,
+      abortSignal: request.signal,
+    }
+  });
+  return response.text ? parseRouteDecision(JSON.parse(response.text)) : null;
+};
+
+/**
+ * Generate images using Imagen
+ */
+export const generateImageWithGemini = async ({
+  prompt,
+  model = GEMINI_IMAGE_MODELS[0],
+  options
+}: ImageGenerationRequest): Promise<string[]> => {
+  try {
+    const mimeType = `image/${options.format}`;
+    const response = await withRetry(abortSignal => generateImages({
+      model,
+      prompt: buildImagePrompt(prompt, options),
       config: {
-        numberOfImages: 1,
-        outputMimeType: 'image/jpeg',
-        aspectRatio: '1:1',
+        numberOfImages: options.count,
+        outputMimeType: mimeType,
+        aspectRatio: options.aspectRatio,
+        abortSignal,
       },
-    });
+    }), { timeoutMs: IMAGE_TIMEOUT_MS });
 
-    if (response.generatedImages && response.generatedImages.length > 0) {
-      const base64ImageBytes = response.generatedImages[0].image.imageBytes;
-      return `data:image/jpeg;base64,${base64ImageBytes}`;
-    }
-    return null;
+    return (response.generatedImages || [])
+      .filter(generated => generated.image?.imageBytes)
+      .map(generated => `data:${mimeType};base64,${generated.image!.imageBytes}`);
   } catch (error) {
     console.error("Imagen Error:", error);
     // Fallback to error handling in UI
-    throw error;
+    throw toProviderError(error);
   }
 };
 
 /**
- * Heuristic to determine if user wants to generate an image
+ * The Gemini image model has no mask parameter, so an inpainting mask is sent as a second
+ * image and described in the instruction.
  */
-export const isImageGenerationRequest = (text: string): boolean => {
-  const lower = text.toLowerCase();
-  return (
-    lower.startsWith("generate image") ||
-    lower.startsWith("create image") ||
-    lower.startsWith("draw") ||
-    lower.startsWith("imagine") ||
-    lower.includes("make an image of")
-  );
-};
\ No newline at end of file
+const buildEditInstruction = (prompt: string, hasMask: boolean): string => {
+  if (!prompt.trim()) {
+    return hasMask
+      ? 'Regenerate only the area shown in white in the second image (the mask) so it blends naturally. Keep everything else identical.'
+      : 'Create a variation of this image. Keep the subject, style and mood, but vary the composition and details.';
+  }
+  return hasMask
+    ? `Edit the first image: ${prompt}. Only change the area shown in white in the second image (the mask); keep everything else identical.`
+    : `Edit this image: ${prompt}`;
+};
+
+/**
+ * Edit an image (optionally only inside a mask) or make variations of it.
+ * The model returns one image per call, so `count` requests run in parallel.
+ */
+export const editImageWithGemini = async ({
+  image,
+  prompt,
+  mask,
+  count,
+  model = GEMINI_EDIT_MODELS[0]
+}: ImageEditRequest): Promise<string[]> => {
+  try {
+    const parts: any[] = [{ inlineData: { mimeType: dataUrlMimeType(image), data: dataUrlBase64(image) } }];
+    if (mask) {
+      parts.push({ inlineData: { mimeType: 'image/png', data: dataUrlBase64(await toBlackAndWhiteMask(mask)) } });
+    }
+    parts.push({ text: buildEditInstruction(prompt, !!mask) });
+
+    const responses = await Promise.all(Array.from({ length: count }, () =>
+      withRetry(abortSignal => generateContent({
+        model,
+        contents: [{ role: 'user', parts }],
+        config: { responseModalities: [Modality.IMAGE, Modality.TEXT], abortSignal },
+      }), { timeoutMs: IMAGE_TIMEOUT_MS })
+    ));
+    responses.forEach(assertNotBlocked);
+
+    return responses.flatMap(response =>
+      (response.candidates?.[0]?.content?.parts || [])
+        .filter(part => part.inlineData?.data)
+        .map(part => `data:${part.inlineData!.mimeType || 'image/png'};base64,${part.inlineData!.data}`)
+    );
+  } catch (error) {
+    console.error("Gemini Image Edit Error:", error);
+    throw toProviderError(error);
+  }
+};
+
+export const geminiProvider: ChatProvider & ImageProvider & EmbeddingProvider = {
+  id: 'gemini',
+  label: 'Google Gemini',
+  chatModels: GEMINI_CHAT_MODELS,
+  imageModels: GEMINI_IMAGE_MODELS,
+  editModels: GEMINI_EDIT_MODELS,
+  embeddingModels: GEMINI_EMBEDDING_MODELS,
+  sendMessage: sendMessageToGemini,
+  streamMessage: streamMessageToGemini,
+  classifyIntent: classifyIntentWithGemini,
+  generateImage: generateImageWithGemini,
+  editImage: editImageWithGemini,
+  embed: embedWithGemini,
+};
@@ -0,0 +1,90 @@
+import { Attachment, ChatMessage, ImageEditSpec } from "../types";
+import { getMessageAttachments } from "./attachments";
+
+// Image-to-image helpers: locating the image an edit refers to and converting the painted
+// mask into the formats providers expect. Masks are PNGs the size of the source image whose
+// painted (non-transparent) pixels mark the region to repaint.
+
+export const MAX_EDIT_COUNT = 4;
+
+/**
+ * The image an edit applies to: the attachment named by the spec, or the message's first image.
+ */
+export const findSourceImage = (
+  messages: ChatMessage[],
+  sourceMessageId: string | undefined,
+  spec: ImageEditSpec
+): Attachment | undefined => {
+  const source = messages.find(m => m.id === sourceMessageId);
+  const images = source ? getMessageAttachments(source).filter(a => a.kind === 'image') : [];
+  return images.find(a => a.id === spec.sourceAttachmentId) || images[0];
+};
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Could not load image'));
+    image.src = src;
+  });
+
+/**
+ * Runs a pixel transform over an image and returns the result as a PNG data URI.
+ * `base` is drawn first when given, and the transform sees both layers.
+ */
+const transformPixels = async (
+  layer: string,
+  transform: (pixels: Uint8ClampedArray, basePixels?: Uint8ClampedArray) => void,
+  base?: string
+): Promise<string> => {
+  const layerImage = await loadImage(layer);
+  const canvas = document.createElement('canvas');
+  canvas.width = layerImage.naturalWidth;
+  canvas.height = layerImage.naturalHeight;
+  const ctx = canvas.getContext('2d')!;
+
+  let basePixels: Uint8ClampedArray | undefined;
+  if (base) {
+    ctx.drawImage(await loadImage(base), 0, 0, canvas.width, canvas.height);
+    basePixels = ctx.getImageData(0, 0, canvas.width, canvas.height).data;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+  }
+  ctx.drawImage(layerImage, 0, 0);
+  const data = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  transform(data.data, basePixels);
+  ctx.putImageData(data, 0, 0);
+  return canvas.toDataURL('image/png');
+};
+
+/**
+ * White where painted, black elsewhere: for models that take the mask as a second image.
+ */
+export const toBlackAndWhiteMask = (mask: string): Promise<string> =>
+  transformPixels(mask, pixels => {
+    for (let i = 0; i < pixels.length; i += 4) {
+      const value = pixels[i + 3] > 0 ? 255 : 0;
+      pixels[i] = pixels[i + 1] = pixels[i + 2] = value;
+      pixels[i + 3] = 255;
+    }
+  });
+
+/**
+ * The source image with the painted region cut out (transparent): the OpenAI images API
+ * repaints fully transparent pixels of its mask.
+ */
+export const toTransparentMask = (image: string, mask: string): Promise<string> =>
+  transformPixels(mask, (pixels, basePixels) => {
+    for (let i = 0; i < pixels.length; i += 4) {
+      const painted = pixels[i + 3] > 0;
+      pixels[i] = basePixels![i];
+      pixels[i + 1] = basePixels![i + 1];
+      pixels[i + 2] = basePixels![i + 2];
+      pixels[i + 3] = painted ? 0 : 255;
+    }
+  }, image);
+
+/**
+ * Re-encodes any image the browser can display as PNG.
+ */
+export const toPng = (image: string): Promise<string> =>
+  image.startsWith('data:image/png') ? Promise.resolve(image) : transformPixels(image, () => {});
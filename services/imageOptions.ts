@@ -0,0 +1,74 @@
+import { AspectRatio, ImageFormat, ImageGenerationOptions } from "../types";
+
+// Settings for text-to-image requests: the choices offered in the Image Creation panel,
+// the user's last picks, and how style presets and negative prompts reach the model.
+
+export const ASPECT_RATIOS: AspectRatio[] = ['1:1', '3:4', '4:3', '9:16', '16:9'];
+export const IMAGE_FORMATS: ImageFormat[] = ['jpeg', 'png'];
+export const MAX_IMAGE_COUNT = 4;
+
+export interface StylePreset {
+  id: string;
+  label: string;
+  prompt: string; // Appended to the user's description
+}
+
+export const STYLE_PRESETS: StylePreset[] = [
+  { id: 'none', label: 'None', prompt: '' },
+  { id: 'photo', label: 'Photo', prompt: 'photorealistic, natural lighting, sharp focus, high detail' },
+  { id: 'cinematic', label: 'Cinematic', prompt: 'cinematic film still, dramatic lighting, shallow depth of field' },
+  { id: 'anime', label: 'Anime', prompt: 'anime style, clean line art, vibrant cel shading' },
+  { id: 'watercolor', label: 'Watercolor', prompt: 'watercolor painting, soft washes, visible paper texture' },
+  { id: '3d', label: '3D Render', prompt: '3D render, soft global illumination, smooth materials' },
+  { id: 'pixel', label: 'Pixel Art', prompt: 'pixel art, 16-bit, limited color palette' },
+  { id: 'sketch', label: 'Sketch', prompt: 'pencil sketch, cross-hatching, monochrome' },
+  { id: 'neon', label: 'Neon', prompt: 'cyberpunk neon aesthetic, glowing accents, night scene' },
+];
+
+const OPTIONS_KEY = 'xeno_image_options';
+
+export const DEFAULT_IMAGE_OPTIONS: ImageGenerationOptions = {
+  aspectRatio: '1:1',
+  count: 1,
+  format: 'jpeg',
+  style: 'none',
+};
+
+export const loadImageOptions = (): ImageGenerationOptions => {
+  try {
+    const stored = localStorage.getItem(OPTIONS_KEY);
+    return stored ? { ...DEFAULT_IMAGE_OPTIONS, ...JSON.parse(stored) } : DEFAULT_IMAGE_OPTIONS;
+  } catch {
+    return DEFAULT_IMAGE_OPTIONS;
+  }
+};
+
+export const saveImageOptions = (options: ImageGenerationOptions) => {
+  localStorage.setItem(OPTIONS_KEY, JSON.stringify(options));
+};
+
+/**
+ * The prompt sent to the model: the description plus the style preset and things to avoid.
+ * Imagen on the Gemini API and the OpenAI images API take no negative prompt parameter,
+ * so it is written into the prompt for every provider.
+ */
+export const buildImagePrompt = (prompt: string, options: ImageGenerationOptions): string => {
+  const style = STYLE_PRESETS.find(preset => preset.id === options.style);
+  let fullPrompt = prompt.trim();
+  if (style?.prompt) fullPrompt += `, ${style.prompt}`;
+  if (options.negativePrompt?.trim()) fullPrompt += `. Avoid: ${options.negativePrompt.trim()}`;
+  return fullPrompt;
+};
+
+/**
+ * Short summary of the non-default settings, e.g. "16:9 · 4 images · Anime".
+ */
+export const describeImageOptions = (options: ImageGenerationOptions): string => {
+  const parts: string[] = [options.aspectRatio];
+  if (options.count > 1) parts.push(`${options.count} images`);
+  if (options.format !== DEFAULT_IMAGE_OPTIONS.format) parts.push(options.format.toUpperCase());
+  const style = STYLE_PRESETS.find(preset => preset.id === options.style);
+  if (style && style.id !== 'none') parts.push(style.label);
+  if (options.negativePrompt?.trim()) parts.push(`no ${options.negativePrompt.trim()}`);
+  return parts.join(' · ');
+};
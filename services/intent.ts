@@ -0,0 +1,95 @@
+import { IntentRequest, MessageRoute, RouteDecision } from "../types";
+
+// Deciding what a message asks for: a chat reply, a new image, or an edit of an existing one.
+// Providers classify with a structured-output model call (see ROUTE_SCHEMA); the keyword
+// rules below are the offline fallback.
+
+export const ROUTES: MessageRoute[] = ['chat', 'image', 'edit'];
+
+export const ROUTE_LABELS: Record<MessageRoute, string> = {
+  chat: 'Chat',
+  image: 'Create image',
+  edit: 'Edit image',
+};
+
+/**
+ * JSON schema of the classifier's answer, used as Gemini's response schema and as the
+ * parameters of the OpenAI-compatible routing function.
+ */
+export const ROUTE_SCHEMA = {
+  type: 'object',
+  properties: {
+    route: { type: 'string', enum: ROUTES, description: 'How to handle the message' },
+    imagePrompt: { type: 'string', description: 'For image and edit: clean English description of the image or change' },
+  },
+  required: ['route'],
+};
+
+/**
+ * The classifier's input: the message plus the image context it cannot see otherwise.
+ */
+export const describeIntentRequest = ({ message, hasImage, hasRecentImage }: IntentRequest): string =>
+  `Image attached: ${hasImage ? 'yes' : 'no'}\nEarlier image in conversation: ${hasRecentImage ? 'yes' : 'no'}\nMessage: ${message}`;
+
+/**
+ * Validates a classifier answer; null when it isn't a usable route.
+ */
+export const parseRouteDecision = (raw: unknown): RouteDecision | null => {
+  if (!raw || typeof raw !== 'object') return null;
+  const { route, imagePrompt } = raw as { route?: unknown; imagePrompt?: unknown };
+  if (!ROUTES.includes(route as MessageRoute)) return null;
+  return {
+    route: route as MessageRoute,
+    imagePrompt: route !== 'chat' && typeof imagePrompt === 'string' && imagePrompt.trim() ? imagePrompt.trim() : undefined,
+    source: 'model',
+  };
+};
+
+// --- Keyword fallback ---
+
+const IMAGE_NOUNS = 'image|picture|photo|pic|drawing|painting|illustration|sketch|logo|wallpaper|portrait|sticker|art';
+const HINDI_NOUNS = 'photo|foto|tasveer|tasvir|image|picture|pic|chitra|drawing|painting|logo|wallpaper|sticker';
+const HINDI_MAKE = 'banao|bnao|bana\\s?do|bana\\s?de|banaiye|banaye|banayein|bana\\s?dijiye|generate\\s+karo|create\\s+karo|draw\\s+karo';
+
+// "draw a cat", "generate an image of ...", "make me a logo for ..."
+const ENGLISH_IMAGE = new RegExp(
+  `^(please\\s+)?((draw|paint|sketch|imagine)\\b|(generate|create|make|design|render)\\s+(me\\s+)?(an?\\s+|the\\s+|some\\s+)?(${IMAGE_NOUNS})s?\\b)|\\bmake an image of\\b`
+);
+// Figurative uses of "draw" that are not drawing requests
+const DRAW_FIGURATIVE = /^draw\s+(a\s+|the\s+|some\s+|any\s+|my\s+|your\s+)?(conclusion|inference|attention|inspiration|comparison|parallel|line|distinction|lesson|insight|blank|straw|breath|card)s?\b/;
+// "ek billi ki photo banao"
+const HINGLISH_IMAGE = new RegExp(`\\b(${HINDI_NOUNS})\\b.*\\b(${HINDI_MAKE})\\b`);
+const DEVANAGARI_IMAGE = /(फोटो|तस्वीर|चित्र|इमेज).*(बनाओ|बना दो|बनाइए|बनाएं|बनाएँ)/;
+
+// Changes to an image that is already there: "remove the background", "make it darker"
+const ENGLISH_EDIT = /^(please\s+)?(edit|change|make (it|this|them)|turn (it|this)|remove|erase|add|replace|recolou?r|colou?ri[sz]e|convert (it|this)|put|swap|blur|crop|brighten|darken|restyle)\b/;
+const HINGLISH_EDIT = /\b(isko|isse|ise|iska|iski|is (photo|image|pic|tasveer))\b.*\b(karo|kar\s?do|bana\s?do|banao|hatao|hata\s?do|badlo|badal\s?do|lagao|laga\s?do)\b/;
+
+// Request phrasing removed to leave the description; specific nouns like "logo" are kept
+const ENGLISH_PREFIX = new RegExp(
+  `^(please\\s+)?(generate|create|make|design|render|draw|paint|sketch|imagine)(\\s+(me|us))?(\\s+(an?|the|some))?(\\s+(image|picture|photo|pic)s?)?(\\s+(of|showing|with|for))?\\s+`,
+  'i'
+);
+const HINGLISH_SUFFIX = new RegExp(`\\s*\\b(ki|ka|ke)?\\s*\\b(${HINDI_NOUNS})\\s+(${HINDI_MAKE})\\b.*$`, 'i');
+
+const cleanImagePrompt = (text: string): string => {
+  const cleaned = text.trim().replace(ENGLISH_PREFIX, '').replace(HINGLISH_SUFFIX, '').trim();
+  return cleaned || text.trim();
+};
+
+/**
+ * Rule-based routing for when no classifier is available or it fails.
+ */
+export const classifyByKeywords = ({ message, hasImage, hasRecentImage }: IntentRequest): RouteDecision => {
+  const lower = message.trim().toLowerCase();
+  if ((hasImage || hasRecentImage) && (ENGLISH_EDIT.test(lower) || HINGLISH_EDIT.test(lower))) {
+    return { route: 'edit', imagePrompt: message.trim(), source: 'keywords' };
+  }
+  const wantsImage = (ENGLISH_IMAGE.test(lower) && !DRAW_FIGURATIVE.test(lower))
+    || HINGLISH_IMAGE.test(lower)
+    || DEVANAGARI_IMAGE.test(message);
+  if (wantsImage) {
+    return { route: 'image', imagePrompt: cleanImagePrompt(message), source: 'keywords' };
+  }
+  return { route: 'chat', source: 'keywords' };
+};
@@ -0,0 +1,127 @@
+import { Options } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import remarkMath from 'remark-math';
+import rehypeRaw from 'rehype-raw';
+import rehypeSanitize, { defaultSchema } from 'rehype-sanitize';
+import rehypeKatex from 'rehype-katex';
+import rehypeHighlight from 'rehype-highlight';
+
+// How message text becomes HTML: GitHub-flavored markdown (tables, task lists, strikethrough,
+// footnotes) with $math$, and raw HTML allowed but sanitized. Sanitizing runs before math and
+// highlighting, so only what the model wrote is filtered, not the markup those plugins add.
+
+// Prepended to ids and names in message HTML, so they can't clobber the page's globals
+const ID_PREFIX = defaultSchema.clobberPrefix || 'user-content-';
+
+const SANITIZE_SCHEMA = {
+  ...defaultSchema,
+  attributes: {
+    ...defaultSchema.attributes,
+    // remark-math marks math as code; rehype-katex needs to know inline from display
+    code: [['className', /^language-./, 'math-inline', 'math-display']],
+  },
+};
+
+// The parts of a hast node the plugins below look at
+interface HastNode {
+  type: string;
+  tagName?: string;
+  value?: string;
+  properties?: Record<string, unknown>;
+  children?: HastNode[];
+}
+
+const visit = (node: HastNode, callback: (node: HastNode) => void) => {
+  callback(node);
+  node.children?.forEach(child => visit(child, callback));
+};
+
+/**
+ * Sanitizing prefixes every id, which breaks links to them (footnotes, mostly). Links within
+ * the message are pointed at the prefixed ids again.
+ */
+const rehypePrefixedFragmentLinks = () => (tree: HastNode) => {
+  const ids = new Set<unknown>();
+  const links: HastNode[] = [];
+  visit(tree, node => {
+    if (node.properties?.id) ids.add(node.properties.id);
+    if (node.tagName === 'a' && String(node.properties?.href ?? '').startsWith('#')) links.push(node);
+  });
+  links.forEach(link => {
+    const target = `${ID_PREFIX}${String(link.properties!.href).slice(1)}`;
+    if (ids.has(target)) link.properties!.href = `#${target}`;
+  });
+};
+
+export const REMARK_PLUGINS: Options['remarkPlugins'] = [remarkGfm, remarkMath];
+
+export const REHYPE_PLUGINS: Options['rehypePlugins'] = [
+  rehypeRaw,
+  [rehypeSanitize, SANITIZE_SCHEMA],
+  rehypePrefixedFragmentLinks,
+  // Bad LaTeX shows as red source instead of breaking the message
+  [rehypeKatex, { throwOnError: false }],
+  // Diagrams are drawn, not highlighted (see MermaidDiagram)
+  [rehypeHighlight, { plainText: ['mermaid'] }],
+];
+
+// --- Code blocks ---
+
+// The source of a code block, whatever highlighting did to it
+export const nodeText = (node: HastNode): string =>
+  node.type === 'text' ? node.value || '' : (node.children || []).map(nodeText).join('');
+
+// "language-ts" in a code element's classes
+export const codeLanguage = (className: unknown): string | undefined => {
+  const classes = Array.isArray(className) ? className : String(className || '').split(' ');
+  const match = classes.map(String).find(c => c.startsWith('language-'));
+  return match?.slice('language-'.length);
+};
+
+const FILE_EXTENSIONS: Record<string, string> = {
+  javascript: 'js', js: 'js', jsx: 'jsx', typescript: 'ts', ts: 'ts', tsx: 'tsx',
+  python: 'py', py: 'py', ruby: 'rb', rust: 'rs', go: 'go', java: 'java', kotlin: 'kt',
+  c: 'c', cpp: 'cpp', 'c++': 'cpp', csharp: 'cs', cs: 'cs', php: 'php', swift: 'swift',
+  bash: 'sh', sh: 'sh', shell: 'sh', zsh: 'sh', powershell: 'ps1',
+  html: 'html', xml: 'xml', css: 'css', scss: 'scss', json: 'json', yaml: 'yml', yml: 'yml',
+  toml: 'toml', ini: 'ini', sql: 'sql', markdown: 'md', md: 'md', mermaid: 'mmd', latex: 'tex',
+  dockerfile: 'Dockerfile',
+};
+
+export const codeFileName = (language: string | undefined): string => {
+  const extension = FILE_EXTENSIONS[(language || '').toLowerCase()];
+  if (extension === 'Dockerfile') return extension;
+  return `snippet.${extension || 'txt'}`;
+};
+
+// --- Mermaid ---
+
+type Mermaid = typeof import('mermaid').default;
+
+let mermaidLoading: Promise<Mermaid> | undefined;
+// Mermaid draws in a scratch element of the page, so diagrams are drawn one at a time
+let lastRender: Promise<unknown> = Promise.resolve();
+let diagramCount = 0;
+
+/**
+ * Draws a Mermaid diagram as SVG. Mermaid is large, so it is only downloaded for the first
+ * diagram. Strict mode keeps scripts, links and HTML labels out of the result.
+ */
+export const renderMermaid = (source: string): Promise<string> => {
+  mermaidLoading ??= import('mermaid').then(({ default: mermaid }) => {
+    mermaid.initialize({ startOnLoad: false, theme: 'dark', securityLevel: 'strict' });
+    return mermaid;
+  }).catch(error => {
+    // Offline, say; try downloading it again for the next diagram
+    mermaidLoading = undefined;
+    throw error;
+  });
+  const render = lastRender.then(async () => {
+    const mermaid = await mermaidLoading!;
+    // Parsing first reports bad syntax without leaving an error diagram on the page
+    await mermaid.parse(source);
+    return (await mermaid.render(`mermaid-diagram-${++diagramCount}`, source)).svg;
+  });
+  lastRender = render.catch(() => {});
+  return render;
+};
@@ -0,0 +1,123 @@
+import { v4 as uuidv4 } from 'uuid';
+import { ChatProvider, Memory } from "../types";
+import { MEMORY_INSTRUCTION } from "./prompts";
+
+// Long-term memory: durable facts about the user, learned from chats after each reply and
+// added to the system instruction of other chats. Stored in localStorage for the user to
+// review, edit and delete; a chat can opt out of both learning and using them.
+
+const MEMORIES_KEY = 'xeno_memories';
+
+export const MAX_MEMORY_LENGTH = 200;
+// Above this many, only the memories most related to the message are sent
+const MAX_INJECTED_MEMORIES = 15;
+const MAX_REPLY_CHARS = 1000;
+
+export const loadMemories = (): Memory[] => {
+  try {
+    const stored = localStorage.getItem(MEMORIES_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveMemories = (memories: Memory[]) => {
+  localStorage.setItem(MEMORIES_KEY, JSON.stringify(memories));
+};
+
+export const createMemory = (text: string, sourceSessionId?: string): Memory => {
+  const now = Date.now();
+  return { id: uuidv4(), text: text.trim().slice(0, MAX_MEMORY_LENGTH), createdAt: now, updatedAt: now, sourceSessionId };
+};
+
+const normalize = (text: string): string =>
+  text.toLowerCase().replace(/[^\p{L}\p{N}\s]/gu, '').replace(/\s+/g, ' ').trim();
+
+// --- Learning ---
+
+export interface MemoryUpdate {
+  text: string;
+  replaces?: string; // Text of the remembered fact this one supersedes
+}
+
+/**
+ * Reads the extractor's JSON array, tolerating code fences and plain strings.
+ */
+export const parseMemoryUpdates = (raw: string): MemoryUpdate[] => {
+  const match = raw.match(/\[[\s\S]*\]/);
+  if (!match) return [];
+  try {
+    const parsed: unknown = JSON.parse(match[0]);
+    if (!Array.isArray(parsed)) return [];
+    return parsed.flatMap((entry): MemoryUpdate[] => {
+      if (typeof entry === 'string') return entry.trim() ? [{ text: entry.trim() }] : [];
+      if (!entry || typeof entry !== 'object' || typeof entry.text !== 'string' || !entry.text.trim()) return [];
+      return [{ text: entry.text.trim(), replaces: typeof entry.replaces === 'string' ? entry.replaces : undefined }];
+    });
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Asks the chat model which facts in the latest exchange are worth remembering.
+ */
+export const extractMemories = async (
+  provider: ChatProvider,
+  model: string,
+  known: Memory[],
+  userText: string,
+  replyText: string
+): Promise<MemoryUpdate[]> => {
+  const reply = replyText.length > MAX_REPLY_CHARS ? `${replyText.slice(0, MAX_REPLY_CHARS)}…` : replyText;
+  const remembered = known.length > 0 ? known.map(m => `- ${m.text}`).join('\n') : '(nothing yet)';
+  const text = await provider.sendMessage({
+    history: [],
+    message: `Already remembered:\n${remembered}\n\nUser: ${userText}\nAssistant: ${reply}`,
+    model,
+    systemInstruction: MEMORY_INSTRUCTION,
+    temperature: 0,
+  });
+  return parseMemoryUpdates(text);
+};
+
+/**
+ * Adds new facts and rewrites the ones they replace, skipping anything already remembered.
+ */
+export const applyMemoryUpdates = (memories: Memory[], updates: MemoryUpdate[], sourceSessionId?: string): Memory[] => {
+  let next = memories;
+  for (const update of updates) {
+    const key = normalize(update.text);
+    if (!key || next.some(m => normalize(m.text) === key)) continue;
+    const replaced = update.replaces ? next.find(m => normalize(m.text) === normalize(update.replaces!)) : undefined;
+    next = replaced
+      ? next.map(m => m === replaced
+        ? { ...m, text: update.text.slice(0, MAX_MEMORY_LENGTH), updatedAt: Date.now(), sourceSessionId }
+        : m)
+      : [...next, createMemory(update.text, sourceSessionId)];
+  }
+  return next;
+};
+
+// --- Recall ---
+
+/**
+ * Memories to send with a message in `sessionId`. Ones learned in that chat are left out,
+ * since the chat itself already holds them; past the cap, memories sharing words with the
+ * message come first, then the most recently updated.
+ */
+export const selectMemories = (memories: Memory[], sessionId: string, message: string): Memory[] => {
+  const candidates = memories.filter(m => m.sourceSessionId !== sessionId);
+  if (candidates.length <= MAX_INJECTED_MEMORIES) return candidates;
+  const words = new Set(normalize(message).split(' ').filter(w => w.length > 2));
+  const score = (memory: Memory) => normalize(memory.text).split(' ').filter(w => words.has(w)).length;
+  return [...candidates]
+    .sort((a, b) => score(b) - score(a) || b.updatedAt - a.updatedAt)
+    .slice(0, MAX_INJECTED_MEMORIES);
+};
+
+export const withMemories = (systemInstruction: string, memories: Memory[]): string =>
+  memories.length > 0
+    ? `${systemInstruction}\n\nWhat you remember about the user from earlier chats (use it naturally; don't recite it):\n${memories.map(m => `- ${m.text}`).join('\n')}`
+    : systemInstruction;
@@ -0,0 +1,142 @@
+import { ChatRequest, ChatProvider, ImageProvider, ImageEditRequest, ImageGenerationRequest, EmbeddingProvider, EmbeddingRequest } from "../types";
+import { buildImagePrompt } from "./imageOptions";
+
+// Offline stand-in: replies are a pure function of the request so the UI can be developed
+// and exercised without a network or API key.
+
+export const MOCK_CHAT_MODELS = ['mock-echo'];
+export const MOCK_IMAGE_MODELS = ['mock-canvas'];
+export const MOCK_EMBEDDING_MODELS = ['mock-hashing'];
+
+const CHUNK_DELAY_MS = 30;
+
+/**
+ * Small deterministic string hash (djb2) used to vary mock output by input.
+ */
+const hash = (input: string): number => {
+  let h = 5381;
+  for (let i = 0; i < input.length; i++) {
+    h = ((h << 5) + h + input.charCodeAt(i)) >>> 0;
+  }
+  return h;
+};
+
+export const buildMockReply = ({ history, message, attachments = [], model, context }: ChatRequest): string => {
+  const lines = [
+    `🤖 **[${model}]** You said: "${message}"`,
+    '',
+    `- Turn: ${Math.floor(history.length / 2) + 1}`,
+    `- Characters: ${message.length}`,
+  ];
+  if (attachments.length > 0) {
+    lines.push(`- Attachments: ${attachments.map(a => `${a.name} (${a.kind})`).join(', ')} 📎`);
+  }
+  if (context) {
+    lines.push('- Document passages were sent with this message [1]');
+  }
+  return lines.join('\n');
+};
+
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>(resolve => {
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => { clearTimeout(timer); resolve(); }, { once: true });
+});
+
+export const sendMessageToMock = async (request: ChatRequest): Promise<string> => buildMockReply(request);
+
+export const streamMessageToMock = async (
+  request: ChatRequest,
+  onChunk: (textSoFar: string) => void
+): Promise<string> => {
+  const { signal } = request;
+  // Split on whitespace but keep it attached so the joined chunks equal the full reply
+  const chunks = buildMockReply(request).match(/\S+\s*/g) || [];
+  let text = '';
+  for (const chunk of chunks) {
+    await wait(CHUNK_DELAY_MS, signal);
+    if (signal?.aborted) break;
+    text += chunk;
+    onChunk(text);
+  }
+  return text;
+};
+
+const EMBEDDING_DIMENSIONS = 256;
+
+/**
+ * Feature hashing of words: texts sharing words get similar vectors, which is enough for
+ * lexical retrieval without a model.
+ */
+export const embedWithMock = async ({ texts }: EmbeddingRequest): Promise<number[][]> =>
+  texts.map(text => {
+    const vector = new Array<number>(EMBEDDING_DIMENSIONS).fill(0);
+    for (const word of text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []) {
+      const h = hash(word);
+      vector[h % EMBEDDING_DIMENSIONS] += (h & 0x80000000) ? -1 : 1;
+    }
+    const norm = Math.hypot(...vector) || 1;
+    return vector.map(v => v / norm);
+  });
+
+const svgToDataUri = (svg: string) => {
+  const bytes = new TextEncoder().encode(svg);
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return `data:image/svg+xml;base64,${btoa(binary)}`;
+};
+
+const escapeXml = (value: string) =>
+  value.replace(/[<>&"']/g, c => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', '"': '&quot;', "'": '&apos;' }[c]!));
+
+/**
+ * Gradient placeholders in the requested aspect ratio (always SVG, whatever the format).
+ */
+export const generateImageWithMock = async ({ prompt, model, options }: ImageGenerationRequest): Promise<string[]> => {
+  const fullPrompt = buildImagePrompt(prompt, options);
+  const [w, h] = options.aspectRatio.split(':').map(Number);
+  const width = w >= h ? 512 : Math.round(512 * w / h);
+  const height = h >= w ? 512 : Math.round(512 * h / w);
+  return Array.from({ length: options.count }, (_, i) => {
+    const hue = hash(`${model}:${fullPrompt}:${i}`) % 360;
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">
+<defs><linearGradient id="g" x1="0" y1="0" x2="1" y2="1">
+<stop offset="0" stop-color="hsl(${hue},80%,45%)"/><stop offset="1" stop-color="hsl(${(hue + 120) % 360},80%,25%)"/>
+</linearGradient></defs>
+<rect width="${width}" height="${height}" fill="url(#g)"/>
+<text x="${width / 2}" y="${height / 2}" fill="white" font-family="sans-serif" font-size="20" text-anchor="middle">${escapeXml(prompt.slice(0, 40))}</text>
+</svg>`;
+    return svgToDataUri(svg);
+  });
+};
+
+/**
+ * Tints the source image (only inside the mask, when there is one) with a hue derived from
+ * the prompt and the result's index, so variations differ visibly.
+ */
+export const editImageWithMock = async ({ image, prompt, mask, count, model }: ImageEditRequest): Promise<string[]> =>
+  Array.from({ length: count }, (_, i) => {
+    const hue = hash(`${model}:${prompt}:${i}`) % 360;
+    const tint = `<rect width="512" height="512" fill="hsl(${hue},80%,50%)" opacity="0.35"${mask ? ' mask="url(#m)"' : ''}/>`;
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="512" height="512">
+${mask ? `<defs><mask id="m"><image href="${mask}" width="512" height="512" preserveAspectRatio="none"/></mask></defs>` : ''}
+<image href="${image}" width="512" height="512" preserveAspectRatio="xMidYMid slice"/>
+${tint}
+<text x="256" y="490" fill="white" font-family="sans-serif" font-size="18" text-anchor="middle">${escapeXml((prompt || 'variation').slice(0, 40))} #${i + 1}</text>
+</svg>`;
+    return svgToDataUri(svg);
+  });
+
+export const mockProvider: ChatProvider & ImageProvider & EmbeddingProvider = {
+  id: 'mock',
+  label: 'Offline Mock',
+  chatModels: MOCK_CHAT_MODELS,
+  worksOffline: true,
+  imageModels: MOCK_IMAGE_MODELS,
+  editModels: MOCK_IMAGE_MODELS,
+  embeddingModels: MOCK_EMBEDDING_MODELS,
+  sendMessage: sendMessageToMock,
+  streamMessage: streamMessageToMock,
+  generateImage: generateImageWithMock,
+  editImage: editImageWithMock,
+  embed: embedWithMock,
+};
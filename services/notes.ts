@@ -0,0 +1,52 @@
+import { v4 as uuidv4 } from 'uuid';
+
+// Notes the assistant keeps for the user through the notes tools, stored in localStorage.
+
+export interface Note {
+  id: string;
+  title: string;
+  content: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+const NOTES_KEY = 'xeno_notes';
+
+export const loadNotes = (): Note[] => {
+  try {
+    const stored = localStorage.getItem(NOTES_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+};
+
+const saveNotes = (notes: Note[]) => {
+  localStorage.setItem(NOTES_KEY, JSON.stringify(notes));
+};
+
+/**
+ * Creates a note, or replaces the content of the note with the same title.
+ */
+export const saveNote = (title: string, content: string): Note => {
+  const notes = loadNotes();
+  const existing = notes.find(n => n.title.toLowerCase() === title.trim().toLowerCase());
+  const now = Date.now();
+  const note: Note = existing
+    ? { ...existing, content, updatedAt: now }
+    : { id: uuidv4(), title: title.trim(), content, createdAt: now, updatedAt: now };
+  saveNotes(existing ? notes.map(n => n.id === existing.id ? note : n) : [...notes, note]);
+  return note;
+};
+
+/**
+ * Deletes the note with this id or title; false when there is none.
+ */
+export const deleteNote = (idOrTitle: string): boolean => {
+  const notes = loadNotes();
+  const key = idOrTitle.trim().toLowerCase();
+  const remaining = notes.filter(n => n.id !== idOrTitle && n.title.toLowerCase() !== key);
+  if (remaining.length === notes.length) return false;
+  saveNotes(remaining);
+  return true;
+};
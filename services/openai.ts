@@ -0,0 +1,294 @@
+import { MessageRole, ChatMessage, ChatRequest, ChatProvider, ImageProvider, Attachment, ImageEditRequest, ImageGenerationRequest, AspectRatio, IntentRequest, RouteDecision, EmbeddingProvider, EmbeddingRequest } from "../types";
+import { SYSTEM_INSTRUCTION, ROUTER_INSTRUCTION, EMPTY_REPLY } from "./prompts";
+import { getMessageAttachments, decodeTextAttachment, dataUrlBase64 } from "./attachments";
+import { toPng, toTransparentMask } from "./imageEdit";
+import { buildImagePrompt } from "./imageOptions";
+import { ROUTE_SCHEMA, describeIntentRequest, parseRouteDecision } from "./intent";
+import { withRetry, toProviderError, createDeadline, IMAGE_TIMEOUT_MS, STREAM_IDLE_TIMEOUT_MS } from "./errors";
+import { postToApi } from "./api";
+
+// Any server speaking the OpenAI REST dialect works here (llama.cpp server, Ollama, vLLM, ...).
+// Calls go through the API server's /api/openai, which holds OPENAI_BASE_URL and the key.
+
+export const OPENAI_CHAT_MODELS = (process.env.OPENAI_MODELS || 'llama3.2')
+  .split(',')
+  .map(m => m.trim())
+  .filter(Boolean);
+export const OPENAI_IMAGE_MODELS = (process.env.OPENAI_IMAGE_MODELS || 'dall-e-3')
+  .split(',')
+  .map(m => m.trim())
+  .filter(Boolean);
+// Variations are only offered by dall-e-2
+export const OPENAI_EDIT_MODELS = (process.env.OPENAI_EDIT_MODELS || 'dall-e-2')
+  .split(',')
+  .map(m => m.trim())
+  .filter(Boolean);
+
+export const OPENAI_EMBEDDING_MODELS = (process.env.OPENAI_EMBEDDING_MODELS || 'nomic-embed-text')
+  .split(',')
+  .map(m => m.trim())
+  .filter(Boolean);
+
+// Routing needs a model with tool calling; defaults to the first chat model
+export const OPENAI_ROUTER_MODEL = process.env.OPENAI_ROUTER_MODEL || OPENAI_CHAT_MODELS[0];
+
+const postToOpenAI = (path: string, body: unknown, signal?: AbortSignal) => postToApi(`openai/${path}`, body, signal);
+
+/**
+ * Content part for an attachment. Text files are inlined as text since not every
+ * OpenAI-compatible server accepts file parts.
+ */
+const toContentPart = (attachment: Attachment) => {
+  switch (attachment.kind) {
+    case 'image':
+      return { type: 'image_url', image_url: { url: attachment.dataUrl } };
+    case 'text':
+      return { type: 'text', text: `File "${attachment.name}":\n\`\`\`\n${decodeTextAttachment(attachment)}\n\`\`\`` };
+    case 'audio':
+      return {
+        type: 'input_audio',
+        input_audio: { data: dataUrlBase64(attachment.dataUrl), format: attachment.mimeType.includes('wav') ? 'wav' : 'mp3' }
+      };
+    case 'pdf':
+      return { type: 'file', file: { filename: attachment.name, file_data: attachment.dataUrl } };
+  }
+};
+
+/**
+ * Convert a message into the OpenAI chat format, using content parts when files are attached.
+ */
+const toOpenAIMessage = (role: 'user' | 'assistant', text: string, attachments: Attachment[] = []) => ({
+  role,
+  content: attachments.length > 0
+    ? [
+        ...attachments.map(toContentPart),
+        { type: 'text', text }
+      ]
+    : text
+});
+
+const buildMessages = ({ history, message, attachments, systemInstruction = SYSTEM_INSTRUCTION, context }: ChatRequest) => [
+  { role: 'system', content: systemInstruction },
+  ...history.map((msg: ChatMessage) =>
+    toOpenAIMessage(msg.role === MessageRole.USER ? 'user' : 'assistant', msg.text, getMessageAttachments(msg))
+  ),
+  // Retrieved document passages go just before the new message's text
+  toOpenAIMessage('user', context ? `${context}\n\n${message}` : message, attachments),
+];
+
+export const sendMessageToOpenAI = async (request: ChatRequest): Promise<string> => {
+  try {
+    const data = await withRetry(async signal => {
+      const response = await postToOpenAI('chat/completions', {
+        model: request.model,
+        messages: buildMessages(request),
+        temperature: request.temperature,
+      }, signal);
+      return response.json();
+    }, { signal: request.signal });
+
+    return data.choices?.[0]?.message?.content || EMPTY_REPLY;
+
+  } catch (error) {
+    console.error("OpenAI-compatible Chat Error:", error);
+    throw toProviderError(error);
+  }
+};
+
+/**
+ * Classifies a message by forcing a call to a routing function whose arguments are the route.
+ */
+export const classifyIntentWithOpenAI = async (request: IntentRequest): Promise<RouteDecision | null> => {
+  try {
+    const data = await withRetry(async signal => {
+      const response = await postToOpenAI('chat/completions', {
+        model: OPENAI_ROUTER_MODEL,
+        messages: [
+          { role: 'system', content: ROUTER_INSTRUCTION },
+          { role: 'user', content: describeIntentRequest(request) },
+        ],
+        tools: [{
+          type: 'function',
+          function: { name: 'route_message', description: 'Choose how Xeno AI handles the message', parameters: ROUTE_SCHEMA },
+        }],
+        tool_choice: { type: 'function', function: { name: 'route_message' } },
+        temperature: 0,
+      }, signal);
+      return response.json();
+    }, { signal: request.signal });
+
+    const args = data.choices?.[0]?.message?.tool_calls?.[0]?.function?.arguments;
+    return args ? parseRouteDecision(JSON.parse(args)) : null;
+  } catch (error) {
+    throw toProviderError(error);
+  }
+};
+
+/**
+ * Streams a chat completion over server-sent events.
+ */
+export const streamMessageToOpenAI = async (
+  request: ChatRequest,
+  onChunk: (textSoFar: string) => void
+): Promise<string> => {
+  const { signal } = request;
+  const idle = createDeadline(STREAM_IDLE_TIMEOUT_MS, signal);
+  let text = '';
+  try {
+    // Only opening the stream is retried; later failures would repeat text already shown
+    const response = await withRetry(async () => {
+      idle.reset();
+      return postToOpenAI('chat/completions', {
+        model: request.model,
+        messages: buildMessages(request),
+        temperature: request.temperature,
+        stream: true,
+      }, idle.signal);
+    }, { signal, timeoutMs: 0 });
+
+    const reader = response.body!.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      idle.reset();
+      buffer += decoder.decode(value, { stream: true });
+
+      // Events are newline separated; keep the trailing incomplete line for the next read
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+
+      for (const line of lines) {
+        const trimmed = line.trim();
+        if (!trimmed.startsWith('data:')) continue;
+        const payload = trimmed.slice(5).trim();
+        if (payload === '[DONE]') return text || EMPTY_REPLY;
+
+        const delta = JSON.parse(payload).choices?.[0]?.delta?.content;
+        if (delta) {
+          text += delta;
+          onChunk(text);
+        }
+      }
+    }
+
+    return text || EMPTY_REPLY;
+
+  } catch (error) {
+    if (signal?.aborted) return text;
+    console.error("OpenAI-compatible Stream Error:", error);
+    throw toProviderError(error);
+  } finally {
+    idle.clear();
+  }
+};
+
+/**
+ * Embeds texts with /embeddings. The dialect has no query/document distinction.
+ */
+export const embedWithOpenAI = async ({ texts, model }: EmbeddingRequest): Promise<number[][]> => {
+  try {
+    const data = await withRetry(async signal => {
+      const response = await postToOpenAI('embeddings', { model, input: texts }, signal);
+      return response.json();
+    });
+
+    return [...(data.data || [])]
+      .sort((a: any, b: any) => a.index - b.index)
+      .map((item: any) => item.embedding);
+  } catch (error) {
+    console.error("OpenAI-compatible Embedding Error:", error);
+    throw toProviderError(error);
+  }
+};
+
+// The images API takes pixel sizes; these are the portrait/landscape sizes DALL·E 3 accepts
+const IMAGE_SIZES: Record<AspectRatio, string> = {
+  '1:1': '1024x1024',
+  '3:4': '1024x1792',
+  '9:16': '1024x1792',
+  '4:3': '1792x1024',
+  '16:9': '1792x1024',
+};
+
+/**
+ * DALL·E 3 only makes one image per request, so `count` requests run in parallel.
+ * Only gpt-image models can choose their output format; the others always return PNG.
+ */
+export const generateImageWithOpenAI = async ({ prompt, model, options }: ImageGenerationRequest): Promise<string[]> => {
+  try {
+    const canChooseFormat = model.startsWith('gpt-image');
+    const body = {
+      model,
+      prompt: buildImagePrompt(prompt, options),
+      n: 1,
+      size: IMAGE_SIZES[options.aspectRatio],
+      response_format: 'b64_json',
+      ...(canChooseFormat && { output_format: options.format }),
+    };
+    const mimeType = canChooseFormat ? `image/${options.format}` : 'image/png';
+
+    const results = await Promise.all(Array.from({ length: options.count }, () => withRetry(async signal => {
+      const response = await postToOpenAI('images/generations', body, signal);
+      const data = await response.json();
+      return data.data?.[0]?.b64_json as string | undefined;
+    }, { timeoutMs: IMAGE_TIMEOUT_MS })));
+
+    return results
+      .filter((base64): base64 is string => !!base64)
+      .map(base64 => `data:${mimeType};base64,${base64}`);
+  } catch (error) {
+    console.error("OpenAI-compatible Image Error:", error);
+    throw toProviderError(error);
+  }
+};
+
+const toBlob = async (dataUrl: string): Promise<Blob> => (await fetch(dataUrl)).blob();
+
+/**
+ * Edits go to /images/edits (the mask becomes transparent holes in the source image);
+ * requests without instructions or a mask go to /images/variations.
+ */
+export const editImageWithOpenAI = async ({ image, prompt, mask, count, model }: ImageEditRequest): Promise<string[]> => {
+  try {
+    const isVariation = !prompt.trim() && !mask;
+    const form = new FormData();
+    form.append('model', model);
+    form.append('image', await toBlob(await toPng(image)), 'image.png');
+    form.append('n', String(count));
+    form.append('response_format', 'b64_json');
+    if (!isVariation) {
+      form.append('prompt', prompt.trim() || 'Fill in the transparent area so it blends naturally with the rest of the image');
+      if (mask) form.append('mask', await toBlob(await toTransparentMask(image, mask)), 'mask.png');
+    }
+
+    const data = await withRetry(async signal => {
+      const response = await postToOpenAI(`images/${isVariation ? 'variations' : 'edits'}`, form, signal);
+      return response.json();
+    }, { timeoutMs: IMAGE_TIMEOUT_MS });
+
+    return (data.data || [])
+      .filter((item: any) => item.b64_json)
+      .map((item: any) => `data:image/png;base64,${item.b64_json}`);
+  } catch (error) {
+    console.error("OpenAI-compatible Image Edit Error:", error);
+    throw toProviderError(error);
+  }
+};
+
+export const openAIProvider: ChatProvider & ImageProvider & EmbeddingProvider = {
+  id: 'openai',
+  label: 'OpenAI-compatible',
+  chatModels: OPENAI_CHAT_MODELS,
+  imageModels: OPENAI_IMAGE_MODELS,
+  editModels: OPENAI_EDIT_MODELS,
+  embeddingModels: OPENAI_EMBEDDING_MODELS,
+  sendMessage: sendMessageToOpenAI,
+  streamMessage: streamMessageToOpenAI,
+  classifyIntent: classifyIntentWithOpenAI,
+  generateImage: generateImageWithOpenAI,
+  editImage: editImageWithOpenAI,
+  embed: embedWithOpenAI,
+};
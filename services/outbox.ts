@@ -0,0 +1,31 @@
+import { ChatMessage, MessageRole, OutboxEntry } from "../types";
+
+// Messages written while offline wait here, in order, until the connection returns. The
+// messages themselves are stored with their chat (flagged isPending); this is only the queue.
+
+const OUTBOX_KEY = 'xeno_outbox';
+
+export const loadOutbox = (): OutboxEntry[] => {
+  try {
+    const stored = localStorage.getItem(OUTBOX_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveOutbox = (outbox: OutboxEntry[]) => {
+  localStorage.setItem(OUTBOX_KEY, JSON.stringify(outbox));
+};
+
+/**
+ * Where a queued message belongs once it is sent. Messages queued one after another all
+ * hang off each other; by now the one before has been answered, so this one follows that
+ * answer instead of becoming its sibling.
+ */
+export const queuedMessageParentId = (messages: ChatMessage[], message: ChatMessage): string | null | undefined => {
+  const parent = messages.find(m => m.id === message.parentId);
+  if (parent?.role !== MessageRole.USER) return message.parentId;
+  const replies = messages.filter(m => m.parentId === parent.id && m.role === MessageRole.MODEL);
+  return replies.length > 0 ? replies[replies.length - 1].id : message.parentId;
+};
@@ -0,0 +1,84 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Persona } from "../types";
+import { SYSTEM_INSTRUCTION } from "./prompts";
+
+// Personas: who the assistant is in a chat. The built-in Xeno persona ships with the app;
+// custom ones are kept in localStorage, and each session stores the id of its persona.
+
+export interface PersonaLanguage {
+  code: string;
+  label: string;
+  instruction: string; // Appended to the system prompt; empty leaves the language to the prompt
+}
+
+export const PERSONA_LANGUAGES: PersonaLanguage[] = [
+  { code: 'auto', label: 'Match the user', instruction: '' },
+  { code: 'hinglish', label: 'Hinglish', instruction: 'Reply in Hinglish: Hindi written in Latin script, mixed naturally with English.' },
+  { code: 'hi', label: 'हिन्दी (Hindi)', instruction: 'Reply in Hindi, written in Devanagari script.' },
+  { code: 'en', label: 'English', instruction: 'Reply in English.' },
+];
+
+export const DEFAULT_PERSONA_ID = 'xeno';
+
+export const XENO_PERSONA: Persona = {
+  id: DEFAULT_PERSONA_ID,
+  name: 'Xeno',
+  avatar: '🤖',
+  systemPrompt: SYSTEM_INSTRUCTION.trim(),
+  language: 'auto',
+  temperature: 1,
+  builtIn: true,
+};
+
+const PERSONAS_KEY = 'xeno_personas';
+const LAST_PERSONA_KEY = 'xeno_last_persona';
+
+/**
+ * The built-in persona followed by the user's own.
+ */
+export const loadPersonas = (): Persona[] => {
+  try {
+    const stored = localStorage.getItem(PERSONAS_KEY);
+    const custom: Persona[] = stored ? JSON.parse(stored) : [];
+    return [XENO_PERSONA, ...custom.filter(p => p.id !== DEFAULT_PERSONA_ID)];
+  } catch {
+    return [XENO_PERSONA];
+  }
+};
+
+export const savePersonas = (personas: Persona[]) => {
+  localStorage.setItem(PERSONAS_KEY, JSON.stringify(personas.filter(p => !p.builtIn)));
+};
+
+// The persona picked for the last new chat becomes the default for the next one
+export const loadLastPersonaId = (): string => localStorage.getItem(LAST_PERSONA_KEY) || DEFAULT_PERSONA_ID;
+
+export const saveLastPersonaId = (id: string) => {
+  localStorage.setItem(LAST_PERSONA_KEY, id);
+};
+
+/**
+ * The persona with this id, or Xeno when it is unset or was deleted.
+ */
+export const getPersona = (personas: Persona[], id?: string): Persona =>
+  personas.find(p => p.id === id) || XENO_PERSONA;
+
+export const createPersona = (base?: Persona): Persona => ({
+  id: uuidv4(),
+  name: base ? `${base.name} (copy)` : 'New Persona',
+  avatar: base?.avatar || '✨',
+  systemPrompt: base?.systemPrompt || '',
+  language: base?.language || 'auto',
+  temperature: base?.temperature ?? 1,
+  providerId: base?.providerId,
+  model: base?.model,
+});
+
+/**
+ * The system instruction sent with every chat turn: the persona's prompt plus its language.
+ */
+export const buildSystemInstruction = (persona: Persona): string => {
+  const language = PERSONA_LANGUAGES.find(l => l.code === persona.language);
+  const name = persona.builtIn ? '' : `Your name is ${persona.name}.`;
+  return [name, persona.systemPrompt.trim(), language?.instruction].filter(Boolean).join('\n');
+};
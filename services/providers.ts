@@ -0,0 +1,64 @@
+import { ChatProvider, ImageProvider, EmbeddingProvider, ProviderId, ChatSession, IntentRequest, RouteDecision } from "../types";
+import { geminiProvider } from "./gemini";
+import { openAIProvider } from "./openai";
+import { mockProvider } from "./mock";
+import { classifyByKeywords } from "./intent";
+
+export const DEFAULT_PROVIDER_ID: ProviderId = 'gemini';
+
+// Routing runs before every reply, so a slow classifier falls back to keywords quickly
+const ROUTING_TIMEOUT_MS = 4000;
+
+const PROVIDERS: Record<ProviderId, ChatProvider & ImageProvider & EmbeddingProvider> = {
+  gemini: geminiProvider,
+  openai: openAIProvider,
+  mock: mockProvider,
+};
+
+export const listProviders = (): (ChatProvider & ImageProvider & EmbeddingProvider)[] => Object.values(PROVIDERS);
+
+export const getChatProvider = (id: ProviderId = DEFAULT_PROVIDER_ID): ChatProvider =>
+  PROVIDERS[id] || PROVIDERS[DEFAULT_PROVIDER_ID];
+
+export const getImageProvider = (id: ProviderId = DEFAULT_PROVIDER_ID): ImageProvider =>
+  PROVIDERS[id] || PROVIDERS[DEFAULT_PROVIDER_ID];
+
+export const getEmbeddingProvider = (id: ProviderId = DEFAULT_PROVIDER_ID): EmbeddingProvider =>
+  PROVIDERS[id] || PROVIDERS[DEFAULT_PROVIDER_ID];
+
+/**
+ * Resolve the provider and chat model a session should use, falling back to defaults
+ * for sessions saved before a provider was chosen.
+ */
+export const resolveSessionModel = (session?: Pick<ChatSession, 'providerId' | 'model'>) => {
+  const provider = getChatProvider(session?.providerId);
+  const model = session?.model && provider.chatModels.includes(session.model)
+    ? session.model
+    : provider.chatModels[0];
+  return { provider, model };
+};
+
+/**
+ * Decide whether a message wants a chat reply, a new image or an image edit. Asks the
+ * provider's classifier when it has one and we're online, otherwise (or when it fails or
+ * times out) falls back to keyword rules.
+ */
+export const routeMessage = async (
+  providerId: ProviderId | undefined,
+  request: Omit<IntentRequest, 'signal'>
+): Promise<RouteDecision> => {
+  const provider = getChatProvider(providerId);
+  if (provider.classifyIntent && navigator.onLine) {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), ROUTING_TIMEOUT_MS);
+    try {
+      const decision = await provider.classifyIntent({ ...request, signal: controller.signal });
+      if (decision) return decision;
+    } catch (error) {
+      console.warn("Intent routing failed, using keywords:", error);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+  return classifyByKeywords(request);
+};
@@ -0,0 +1,118 @@
+// Runs model-written JavaScript for the run_javascript tool. The code gets a throwaway Web
+// Worker inside a sandboxed iframe: an opaque origin, so no access to the app's storage or
+// state; no DOM; a Content-Security-Policy that allows no requests or remote scripts at all;
+// and a hard time limit after which the iframe, and with it the worker, is removed.
+
+const SANDBOX_TIMEOUT_MS = 3000;
+const MAX_OUTPUT_CHARS = 4000;
+
+// Runs inside the worker. The network APIs are removed as well, so code that tries them fails
+// plainly instead of on the policy; console output is collected and sent back with the value
+// of the last expression.
+const WORKER_SOURCE = `
+for (const name of ['fetch', 'XMLHttpRequest', 'WebSocket', 'EventSource', 'importScripts', 'indexedDB', 'caches', 'Worker', 'BroadcastChannel']) {
+  try { Object.defineProperty(self, name, { value: undefined, configurable: false }); } catch (e) {}
+}
+const logs = [];
+const format = (value) => {
+  if (typeof value === 'string') return value;
+  try { return JSON.stringify(value); } catch (e) { return String(value); }
+};
+self.console = { log: (...a) => logs.push(a.map(format).join(' ')), info: (...a) => logs.push(a.map(format).join(' ')), warn: (...a) => logs.push(a.map(format).join(' ')), error: (...a) => logs.push(a.map(format).join(' ')) };
+self.onmessage = async (event) => {
+  try {
+    const value = await (0, eval)(event.data);
+    let result;
+    try { result = value === undefined ? undefined : JSON.parse(JSON.stringify(value)); } catch (e) { result = String(value); }
+    self.postMessage({ logs, result });
+  } catch (error) {
+    self.postMessage({ logs, error: String(error && error.message || error) });
+  }
+};
+`;
+
+// Workers made from blobs inherit the frame's policy. It blocks fetch, sockets and beacons
+// (connect-src) as well as import() and importScripts of anything remote (script-src).
+const FRAME_POLICY = "default-src 'none'; script-src 'unsafe-inline' 'unsafe-eval'; worker-src blob:";
+
+// Runs inside the iframe: starts the worker and relays the code to it and its result back
+const FRAME_SOURCE = `<!DOCTYPE html>
+<meta http-equiv="Content-Security-Policy" content="${FRAME_POLICY}">
+<script>
+const source = ${JSON.stringify(WORKER_SOURCE).replace(/</g, '\\u003c')};
+window.onmessage = (event) => {
+  let worker;
+  try {
+    worker = new Worker(URL.createObjectURL(new Blob([source], { type: 'text/javascript' })));
+  } catch (error) {
+    parent.postMessage({ logs: [], error: 'The sandbox could not start: ' + (error && error.message || error) }, '*');
+    return;
+  }
+  worker.onmessage = (message) => parent.postMessage(message.data, '*');
+  worker.onerror = (error) => {
+    error.preventDefault();
+    parent.postMessage({ logs: [], error: error.message || 'The code could not run' }, '*');
+  };
+  worker.postMessage(event.data);
+};
+</script>`;
+
+export interface SandboxResult {
+  result?: unknown; // Value of the last expression, when JSON-serializable
+  logs: string[]; // console output
+  error?: string;
+}
+
+const truncate = (text: string) => text.length > MAX_OUTPUT_CHARS ? `${text.slice(0, MAX_OUTPUT_CHARS)}…` : text;
+
+/**
+ * The frame's message, checked: the code it ran can post anything itself.
+ */
+const toSandboxResult = (data: unknown): SandboxResult => {
+  const { logs, result, error } = (typeof data === 'object' && data !== null ? data : {}) as Record<string, unknown>;
+  const isLogList = Array.isArray(logs) && logs.every((log): log is string => typeof log === 'string');
+  if (!isLogList || (error !== undefined && typeof error !== 'string')) {
+    return { logs: [], error: 'The sandbox sent back something that is not a result' };
+  }
+  return {
+    logs: logs.slice(0, 100).map(truncate),
+    ...(result !== undefined && { result }),
+    ...(typeof error === 'string' && { error: truncate(error) }),
+  };
+};
+
+/**
+ * Evaluates `code` as a script in a fresh sandbox and resolves with its last value and
+ * console output. Never rejects: errors and timeouts come back in `error`.
+ */
+export const runInSandbox = (code: string): Promise<SandboxResult> => new Promise(resolve => {
+  if (typeof Worker === 'undefined') {
+    resolve({ logs: [], error: 'JavaScript sandboxing is not available in this browser' });
+    return;
+  }
+
+  const frame = document.createElement('iframe');
+  // Scripts only: no same origin, forms, popups or navigating the app
+  frame.setAttribute('sandbox', 'allow-scripts');
+  frame.style.display = 'none';
+  frame.srcdoc = FRAME_SOURCE;
+
+  const finish = (result: SandboxResult) => {
+    resolve(result);
+    clearTimeout(timer);
+    window.removeEventListener('message', handleMessage);
+    frame.remove();
+  };
+  const timer = setTimeout(
+    () => finish({ logs: [], error: `Stopped after ${SANDBOX_TIMEOUT_MS / 1000} seconds` }),
+    SANDBOX_TIMEOUT_MS
+  );
+  const handleMessage = (event: MessageEvent) => {
+    if (event.source === frame.contentWindow) finish(toSandboxResult(event.data));
+  };
+
+  window.addEventListener('message', handleMessage);
+  // The frame's origin is opaque, so it can only be addressed as '*'
+  frame.onload = () => frame.contentWindow?.postMessage(code, '*');
+  document.body.appendChild(frame);
+});
@@ -0,0 +1,268 @@
+import { ChatMessage, MessageRole } from "../types";
+import { getMessageAttachments } from "./attachments";
+
+// In-memory inverted index over message text.
+// Tokenization keeps Devanagari vowel signs attached to their letters, and every token is also
+// indexed under a loose phonetic key so spelling variants find each other
+// (e.g. "acchha" / "achha" / "acha", "nahin" / "nahi", "करूँगा" / "करुंगा").
+
+export interface SearchDocument {
+  sessionId: string;
+  messageId: string;
+  role: MessageRole;
+  text: string;
+  timestamp: number;
+  hasImage: boolean;
+}
+
+export interface SearchFilters {
+  role?: MessageRole;
+  from?: number; // Epoch ms, inclusive
+  to?: number; // Epoch ms, inclusive
+  hasImage?: boolean;
+}
+
+export interface SnippetSegment {
+  text: string;
+  match: boolean;
+}
+
+export interface SearchResult {
+  document: SearchDocument;
+  score: number;
+  snippet: SnippetSegment[];
+}
+
+export interface SearchIndex {
+  documents: Map<string, SearchDocument>;
+  postings: Map<string, Set<string>>; // term -> message ids
+  bySession: Map<string, Set<string>>; // session id -> message ids
+}
+
+const KEY_PREFIX = '~'; // Marks Hinglish-key postings so they can't collide with real tokens
+const SNIPPET_BEFORE = 40;
+const SNIPPET_LENGTH = 140;
+
+// --- Tokenization ---
+
+const WORD_PATTERN = /[\p{L}\p{M}\p{N}]+/gu;
+const LATIN_PATTERN = /^[a-z0-9]+$/;
+
+/**
+ * Case-folds and normalizes a token. For Devanagari: drops the nukta, treats chandrabindu as
+ * anusvara and removes zero-width joiners, which users type inconsistently.
+ */
+export const normalizeToken = (token: string): string =>
+  token
+    .normalize('NFC')
+    .toLowerCase()
+    .replace(/\u093C/g, '') // nukta
+    .replace(/\u0901/g, '\u0902') // chandrabindu -> anusvara
+    .replace(/[\u200C\u200D]/g, ''); // ZWNJ / ZWJ
+
+/**
+ * Loose phonetic key. Romanized Hindi gets its common spelling variants folded together;
+ * Devanagari gets long/short vowels folded, which are often typed interchangeably.
+ */
+export const hinglishKey = (token: string): string => {
+  if (!LATIN_PATTERN.test(token)) {
+    return token
+      .replace(/\u0940/g, '\u093F') // ी -> ि
+      .replace(/\u0942/g, '\u0941') // ू -> ु
+      .replace(/\u0908/g, '\u0907') // ई -> इ
+      .replace(/\u090A/g, '\u0909') // ऊ -> उ
+      .replace(/\u0902/g, ''); // anusvara
+  }
+  return token
+    .replace(/ee/g, 'i')
+    .replace(/oo/g, 'u')
+    .replace(/ph/g, 'f')
+    .replace(/w/g, 'v')
+    .replace(/z/g, 'j')
+    .replace(/q/g, 'k')
+    .replace(/([a-z])\1+/g, '$1') // acchha -> achha, kyaa -> kya
+    .replace(/([bcdfgjkpt])h/g, '$1') // aspirates: achha -> acha, khub -> kub
+    .replace(/([aeiou])n$/, '$1') // nasal endings: nahin -> nahi, main -> mai
+    .replace(/y$/, 'i');
+};
+
+interface PositionedToken {
+  token: string;
+  start: number;
+  end: number;
+}
+
+const tokenizeWithPositions = (text: string): PositionedToken[] =>
+  Array.from(text.matchAll(WORD_PATTERN), m => ({
+    token: normalizeToken(m[0]),
+    start: m.index!,
+    end: m.index! + m[0].length,
+  }));
+
+export const tokenize = (text: string): string[] => tokenizeWithPositions(text).map(t => t.token);
+
+// Tokens are always posted under their key too, even when it equals the token,
+// so a variant query ("nahin") finds the canonical spelling ("nahi")
+const termsFor = (token: string): string[] => [token, KEY_PREFIX + hinglishKey(token)];
+
+// --- Index maintenance ---
+
+export const createSearchIndex = (): SearchIndex => ({
+  documents: new Map(),
+  postings: new Map(),
+  bySession: new Map(),
+});
+
+export const removeDocument = (index: SearchIndex, messageId: string) => {
+  const existing = index.documents.get(messageId);
+  if (!existing) return;
+  new Set(tokenize(existing.text).flatMap(termsFor)).forEach(term => {
+    const ids = index.postings.get(term);
+    ids?.delete(messageId);
+    if (ids && ids.size === 0) index.postings.delete(term);
+  });
+  index.bySession.get(existing.sessionId)?.delete(messageId);
+  index.documents.delete(messageId);
+};
+
+export const indexDocument = (index: SearchIndex, document: SearchDocument) => {
+  const existing = index.documents.get(document.messageId);
+  if (existing && existing.text === document.text && existing.hasImage === document.hasImage) return;
+  removeDocument(index, document.messageId);
+
+  index.documents.set(document.messageId, document);
+  new Set(tokenize(document.text).flatMap(termsFor)).forEach(term => {
+    if (!index.postings.has(term)) index.postings.set(term, new Set());
+    index.postings.get(term)!.add(document.messageId);
+  });
+  if (!index.bySession.has(document.sessionId)) index.bySession.set(document.sessionId, new Set());
+  index.bySession.get(document.sessionId)!.add(document.messageId);
+};
+
+export const removeSessionDocuments = (index: SearchIndex, sessionId: string) => {
+  Array.from(index.bySession.get(sessionId) || []).forEach(id => removeDocument(index, id));
+  index.bySession.delete(sessionId);
+};
+
+export const toSearchDocument = (sessionId: string, message: ChatMessage): SearchDocument => ({
+  sessionId,
+  messageId: message.id,
+  role: message.role,
+  text: message.text,
+  timestamp: message.timestamp,
+  hasImage: getMessageAttachments(message).some(a => a.kind === 'image'),
+});
+
+/**
+ * Brings the documents of one loaded session in line with its in-memory messages.
+ */
+export const syncSessionDocuments = (index: SearchIndex, sessionId: string, messages: ChatMessage[]) => {
+  const present = new Set(messages.map(m => m.id));
+  Array.from(index.bySession.get(sessionId) || []).forEach(id => {
+    if (!present.has(id)) removeDocument(index, id);
+  });
+  // Streaming replies are indexed once they are complete
+  messages.forEach(m => { if (!m.isGenerating) indexDocument(index, toSearchDocument(sessionId, m)); });
+};
+
+// --- Querying ---
+
+// Weights for how a query term matched an indexed term
+const EXACT = 3;
+const PREFIX = 2;
+const PHONETIC = 1;
+
+/**
+ * Scores every message matching a query term; prefix matches allow search-as-you-type.
+ */
+const matchTerm = (index: SearchIndex, queryToken: string): Map<string, number> => {
+  const scores = new Map<string, number>();
+  const bump = (ids: Set<string>, weight: number) =>
+    ids.forEach(id => scores.set(id, Math.max(scores.get(id) || 0, weight)));
+
+  const key = KEY_PREFIX + hinglishKey(queryToken);
+  index.postings.forEach((ids, term) => {
+    if (term === queryToken) bump(ids, EXACT);
+    else if (term.startsWith(queryToken)) bump(ids, PREFIX);
+    else if (term.startsWith(KEY_PREFIX) && term.startsWith(key)) bump(ids, PHONETIC);
+  });
+  return scores;
+};
+
+const tokenMatchesQuery = (token: string, queryTokens: string[]) => {
+  const key = hinglishKey(token);
+  return queryTokens.some(q => token.startsWith(q) || key.startsWith(hinglishKey(q)));
+};
+
+/**
+ * Cuts a window of text around the first match and splits it into highlighted segments.
+ */
+export const buildSnippet = (text: string, queryTokens: string[]): SnippetSegment[] => {
+  const matches = tokenizeWithPositions(text).filter(t => tokenMatchesQuery(t.token, queryTokens));
+  if (matches.length === 0) return [{ text: text.slice(0, SNIPPET_LENGTH), match: false }];
+
+  let start = Math.max(0, matches[0].start - SNIPPET_BEFORE);
+  // Don't start mid-word
+  if (start > 0) {
+    const space = text.indexOf(' ', start);
+    if (space !== -1 && space < matches[0].start) start = space + 1;
+  }
+  const end = Math.min(text.length, start + SNIPPET_LENGTH);
+
+  const segments: SnippetSegment[] = [];
+  let cursor = start;
+  matches.filter(m => m.start >= start && m.end <= end).forEach(m => {
+    if (m.start > cursor) segments.push({ text: text.slice(cursor, m.start), match: false });
+    segments.push({ text: text.slice(m.start, m.end), match: true });
+    cursor = m.end;
+  });
+  if (cursor < end) segments.push({ text: text.slice(cursor, end), match: false });
+
+  if (start > 0) segments.unshift({ text: '…', match: false });
+  if (end < text.length) segments.push({ text: '…', match: false });
+  return segments;
+};
+
+const passesFilters = (doc: SearchDocument, filters: SearchFilters) =>
+  (!filters.role || doc.role === filters.role) &&
+  (filters.from === undefined || doc.timestamp >= filters.from) &&
+  (filters.to === undefined || doc.timestamp <= filters.to) &&
+  (!filters.hasImage || doc.hasImage);
+
+/**
+ * All query terms must match (AND). With filters but no query text, returns the newest
+ * messages passing the filters.
+ */
+export const searchMessages = (
+  index: SearchIndex,
+  query: string,
+  filters: SearchFilters = {},
+  limit = 50
+): SearchResult[] => {
+  const queryTokens = Array.from(new Set(tokenize(query)));
+
+  let scored: Map<string, number>;
+  if (queryTokens.length === 0) {
+    scored = new Map(Array.from(index.documents.keys(), id => [id, 0]));
+  } else {
+    scored = matchTerm(index, queryTokens[0]);
+    queryTokens.slice(1).forEach(token => {
+      const next = matchTerm(index, token);
+      scored.forEach((score, id) => {
+        if (next.has(id)) scored.set(id, score + next.get(id)!);
+        else scored.delete(id);
+      });
+    });
+  }
+
+  const results: SearchResult[] = [];
+  scored.forEach((score, id) => {
+    const document = index.documents.get(id)!;
+    if (passesFilters(document, filters)) results.push({ document, score, snippet: [] });
+  });
+
+  return results
+    .sort((a, b) => b.score - a.score || b.document.timestamp - a.document.timestamp)
+    .slice(0, limit)
+    .map(result => ({ ...result, snippet: buildSnippet(result.document.text, queryTokens) }));
+};
@@ -0,0 +1,119 @@
+import { ChatMessage, ChatSession, MessageType, SharedChat, ShareLink } from "../types";
+import { getFromApi, postToApi } from "./api";
+import { getMessageAttachments } from "./attachments";
+import { ProviderError } from "./errors";
+
+// Read-only links to a chat. Sharing publishes a snapshot of the conversation as it is shown
+// (the selected branch only) to the API server's share store (server/shares.mjs); the link
+// opens this app with ?share=<id>, which shows the snapshot instead of the user's own chats.
+// Later edits to the chat don't change a published snapshot; revoking deletes it.
+
+const SHARE_PARAM = 'share';
+
+export const HIDDEN_MESSAGE_TEXT = '_This message was hidden by the person who shared the chat._';
+export const HIDDEN_IMAGE_TEXT = '_An image was hidden by the person who shared the chat._';
+export const HIDDEN_FILE_TEXT = '_A file was hidden by the person who shared the chat._';
+
+// What the owner chose to leave out of a snapshot
+export interface ShareRedactions {
+  messageIds: Set<string>; // Whole messages: their text, files and images
+  attachmentKeys: Set<string>; // Single images and files, as attachmentKey(messageId, attachmentId)
+}
+
+export const attachmentKey = (messageId: string, attachmentId: string) => `${messageId}/${attachmentId}`;
+
+// --- Links ---
+
+export const getShareUrl = (id: string): string => {
+  const url = new URL(window.location.href);
+  url.search = `?${SHARE_PARAM}=${encodeURIComponent(id)}`;
+  url.hash = '';
+  return url.toString();
+};
+
+export const readShareIdFromUrl = (): string | null =>
+  new URLSearchParams(window.location.search).get(SHARE_PARAM);
+
+// Back to the app's own chats, without reloading
+export const clearShareFromUrl = () => {
+  const url = new URL(window.location.href);
+  url.searchParams.delete(SHARE_PARAM);
+  window.history.replaceState(null, '', url.toString());
+};
+
+// --- Snapshots ---
+
+const redactMessage = (message: ChatMessage, redactions: ShareRedactions): ChatMessage => {
+  // Only what a reader sees is copied. Tool calls (a read_notes result holds every note),
+  // citations (passages of private documents), edit masks, error details, translations and
+  // routing stay behind.
+  const shown: ChatMessage = {
+    id: message.id,
+    role: message.role,
+    type: MessageType.TEXT,
+    text: HIDDEN_MESSAGE_TEXT,
+    timestamp: message.timestamp,
+    parentId: message.parentId,
+  };
+  if (redactions.messageIds.has(message.id)) return shown;
+
+  const isHidden = (attachmentId: string) => redactions.attachmentKeys.has(attachmentKey(message.id, attachmentId));
+  const hidden = getMessageAttachments(message).filter(a => isHidden(a.id));
+  const imageUrl = isHidden('image') ? undefined : message.imageUrl;
+  const attachments = message.attachments?.filter(a => !isHidden(a.id));
+  return {
+    ...shown,
+    type: imageUrl ? message.type : MessageType.TEXT,
+    text: [message.text, ...hidden.map(a => a.kind === 'image' ? HIDDEN_IMAGE_TEXT : HIDDEN_FILE_TEXT)].filter(Boolean).join('\n\n'),
+    ...(imageUrl && { imageUrl }),
+    ...(attachments?.length && { attachments }),
+  };
+};
+
+/**
+ * The chat as published: the messages of `thread` with the hidden parts taken out. Only
+ * what a reader needs comes along; the persona, memories, documents and context summary
+ * stay private. Messages still being written or waiting to be sent are left out.
+ */
+export const buildShareSnapshot = (session: ChatSession, thread: ChatMessage[], redactions: ShareRedactions): ChatSession => ({
+  id: session.id,
+  title: session.title,
+  createdAt: session.createdAt,
+  updatedAt: session.updatedAt,
+  providerId: session.providerId,
+  model: session.model,
+  messages: thread
+    .filter(m => !m.isGenerating && !m.isPending)
+    .map(m => redactMessage(m, redactions)),
+});
+
+// --- API ---
+
+export const publishShare = async (snapshot: ChatSession): Promise<ShareLink> =>
+  (await postToApi('shares/create', { session: snapshot })).json();
+
+export const listShares = async (): Promise<ShareLink[]> =>
+  (await (await postToApi('shares/list', {})).json()).shares;
+
+export const revokeShare = async (id: string): Promise<void> => {
+  await postToApi('shares/revoke', { id });
+};
+
+export const loadSharedChat = async (id: string, signal?: AbortSignal): Promise<SharedChat> =>
+  (await getFromApi(`shares/${encodeURIComponent(id)}`, signal)).json();
+
+/**
+ * The API server's own explanation of a failed share request (e.g. that a link was revoked),
+ * rather than the generic one for its status.
+ */
+export const describeShareError = (error: unknown): string => {
+  if (error instanceof ProviderError && error.detail) {
+    try {
+      const body = JSON.parse(error.detail.replace(/^HTTP \d+: /, ''));
+      if (typeof body?.error?.message === 'string') return body.error.message;
+    } catch {
+      // Not one of ours; fall through
+    }
+  }
+  return error instanceof Error ? error.message : String(error);
+};
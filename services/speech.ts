@@ -0,0 +1,230 @@
+// Speech-to-text and text-to-speech.
+// Recognition goes through a pluggable SpeechRecognizer (the browser's Web Speech API by default)
+// so a server-side or on-device recognizer can be swapped in. Playback uses speechSynthesis.
+
+export interface SpeechLanguage {
+  code: string; // BCP 47 tag passed to the recognizer
+  label: string;
+}
+
+// Hinglish has no locale of its own; Indian English recognizes code-mixed speech best
+export const SPEECH_LANGUAGES: SpeechLanguage[] = [
+  { code: 'hi-IN', label: 'हिन्दी (Hindi)' },
+  { code: 'en-IN', label: 'Hinglish / English (India)' },
+  { code: 'en-US', label: 'English (US)' },
+  { code: 'en-GB', label: 'English (UK)' },
+];
+
+export interface VoiceSettings {
+  inputLang: string;
+  voiceURI?: string; // Preferred voice; picked per language when unset
+  rate: number;
+  autoSpeak: boolean; // Conversation mode: dictated messages send themselves and replies are read aloud
+}
+
+const SETTINGS_KEY = 'xeno_voice_settings';
+
+export const DEFAULT_VOICE_SETTINGS: VoiceSettings = {
+  inputLang: 'en-IN',
+  rate: 1,
+  autoSpeak: false,
+};
+
+export const loadVoiceSettings = (): VoiceSettings => {
+  try {
+    const stored = localStorage.getItem(SETTINGS_KEY);
+    return stored ? { ...DEFAULT_VOICE_SETTINGS, ...JSON.parse(stored) } : DEFAULT_VOICE_SETTINGS;
+  } catch {
+    return DEFAULT_VOICE_SETTINGS;
+  }
+};
+
+export const saveVoiceSettings = (settings: VoiceSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+// --- Recognition ---
+
+export interface RecognitionHandlers {
+  onResult: (transcript: string, isFinal: boolean) => void;
+  onError?: (message: string) => void;
+  onEnd?: () => void;
+}
+
+export interface RecognitionOptions extends RecognitionHandlers {
+  lang: string;
+  continuous: boolean; // Keep listening across pauses until stopped
+}
+
+export interface SpeechRecognizer {
+  isSupported: () => boolean;
+  // Starts listening; the returned function stops it
+  start: (options: RecognitionOptions) => () => void;
+}
+
+// The Web Speech API is not in TypeScript's DOM typings yet
+interface WebSpeechResult {
+  isFinal: boolean;
+  0: { transcript: string };
+}
+
+interface WebSpeechRecognition {
+  lang: string;
+  continuous: boolean;
+  interimResults: boolean;
+  onresult: ((event: { results: ArrayLike<WebSpeechResult> }) => void) | null;
+  onerror: ((event: { error: string }) => void) | null;
+  onend: (() => void) | null;
+  start: () => void;
+  stop: () => void;
+}
+
+declare global {
+  interface Window {
+    SpeechRecognition?: new () => WebSpeechRecognition;
+    webkitSpeechRecognition?: new () => WebSpeechRecognition; // Chrome and Safari
+  }
+}
+
+const getWebSpeechConstructor = (): (new () => WebSpeechRecognition) | undefined => {
+  if (typeof window === 'undefined') return undefined;
+  return window.SpeechRecognition || window.webkitSpeechRecognition;
+};
+
+const RECOGNITION_ERRORS: Record<string, string> = {
+  'not-allowed': 'Microphone access was blocked. Allow it in your browser settings.',
+  'service-not-allowed': 'Speech recognition is not allowed on this page.',
+  'no-speech': "I didn't catch anything. Try again?",
+  'audio-capture': 'No microphone was found.',
+  'network': 'Speech recognition needs a network connection.',
+};
+
+export const webSpeechRecognizer: SpeechRecognizer = {
+  isSupported: () => !!getWebSpeechConstructor(),
+  start: ({ lang, continuous, onResult, onError, onEnd }) => {
+    const Recognition = getWebSpeechConstructor();
+    if (!Recognition) {
+      onError?.('Speech recognition is not supported in this browser.');
+      onEnd?.();
+      return () => {};
+    }
+    const recognition = new Recognition();
+    recognition.lang = lang;
+    recognition.continuous = continuous;
+    recognition.interimResults = true;
+
+    recognition.onresult = (event) => {
+      // Results accumulate over the session; report the whole transcript each time
+      const results = Array.from(event.results);
+      const transcript = results.map(r => r[0].transcript).join('').trim();
+      onResult(transcript, results.every(r => r.isFinal));
+    };
+    recognition.onerror = (event) => {
+      if (event.error === 'aborted') return;
+      onError?.(RECOGNITION_ERRORS[event.error] || `Speech recognition failed (${event.error})`);
+    };
+    recognition.onend = () => onEnd?.();
+    recognition.start();
+    return () => recognition.stop();
+  },
+};
+
+let activeRecognizer: SpeechRecognizer = webSpeechRecognizer;
+
+export const setSpeechRecognizer = (recognizer: SpeechRecognizer) => {
+  activeRecognizer = recognizer;
+};
+
+export const getSpeechRecognizer = (): SpeechRecognizer => activeRecognizer;
+
+// --- Synthesis ---
+
+export const isSpeechSynthesisSupported = () =>
+  typeof window !== 'undefined' && 'speechSynthesis' in window;
+
+/**
+ * Voices load asynchronously in some browsers; resolves once they are available.
+ */
+export const listVoices = (): Promise<SpeechSynthesisVoice[]> => {
+  if (!isSpeechSynthesisSupported()) return Promise.resolve([]);
+  const voices = speechSynthesis.getVoices();
+  if (voices.length > 0) return Promise.resolve(voices);
+  return new Promise(resolve => {
+    const handle = () => {
+      speechSynthesis.removeEventListener('voiceschanged', handle);
+      resolve(speechSynthesis.getVoices());
+    };
+    speechSynthesis.addEventListener('voiceschanged', handle);
+    // Some engines never fire the event when they have no voices
+    setTimeout(handle, 1500);
+  });
+};
+
+/**
+ * Strips markdown syntax, links and emoji so replies read naturally.
+ */
+export const toSpeakableText = (markdown: string): string =>
+  markdown
+    .replace(/```[\s\S]*?```/g, ' (code omitted) ')
+    .replace(/`([^`]+)`/g, '$1')
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/^[#>\-*+\s]+/gm, '')
+    .replace(/[*_~|]/g, '')
+    .replace(/[\p{Extended_Pictographic}\u{FE0F}\u{200D}]/gu, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const DEVANAGARI_PATTERN = /[\u0900-\u097F]/;
+
+/**
+ * Picks the configured voice, or otherwise one matching the script of the text.
+ */
+const pickVoice = (voices: SpeechSynthesisVoice[], text: string, settings: VoiceSettings) => {
+  const preferred = voices.find(v => v.voiceURI === settings.voiceURI);
+  if (preferred) return preferred;
+  const lang = DEVANAGARI_PATTERN.test(text) ? 'hi' : settings.inputLang.split('-')[0];
+  return voices.find(v => v.lang.replace('_', '-') === settings.inputLang)
+    || voices.find(v => v.lang.toLowerCase().startsWith(lang));
+};
+
+// The utterance currently owned by speak(); anything else finishing is stale
+let currentUtterance: SpeechSynthesisUtterance | null = null;
+
+/**
+ * Reads text aloud, replacing anything already playing. onEnd runs when playback finishes
+ * on its own, but not when it is stopped or replaced.
+ */
+export const speak = async (text: string, settings: VoiceSettings, onEnd?: () => void): Promise<void> => {
+  if (!isSpeechSynthesisSupported()) {
+    onEnd?.();
+    return;
+  }
+  const spoken = toSpeakableText(text);
+  const utterance = new SpeechSynthesisUtterance(spoken);
+  currentUtterance = utterance;
+  speechSynthesis.cancel();
+
+  const voice = pickVoice(await listVoices(), spoken, settings);
+  if (currentUtterance !== utterance) return; // Stopped while voices were loading
+  if (voice) {
+    utterance.voice = voice;
+    utterance.lang = voice.lang;
+  } else {
+    utterance.lang = DEVANAGARI_PATTERN.test(spoken) ? 'hi-IN' : settings.inputLang;
+  }
+  utterance.rate = settings.rate;
+  const finish = () => {
+    if (currentUtterance !== utterance) return;
+    currentUtterance = null;
+    onEnd?.();
+  };
+  utterance.onend = finish;
+  utterance.onerror = finish;
+  speechSynthesis.speak(utterance);
+};
+
+export const stopSpeaking = () => {
+  currentUtterance = null;
+  if (isSpeechSynthesisSupported()) speechSynthesis.cancel();
+};
@@ -0,0 +1,378 @@
+import { ChatSession, ChatMessage, Attachment, DocumentChunk } from "../types";
+import { SearchDocument } from "./search";
+
+// Chat persistence backed by IndexedDB.
+// Sessions, messages, image blobs and attachment blobs live in separate object stores so a
+// session list can be shown without touching message payloads, and a new message only writes
+// its own records. Chunks of documents indexed for question answering have their own store.
+
+const DB_NAME = 'xeno-ai';
+export const SCHEMA_VERSION = 3;
+
+const LEGACY_SESSIONS_KEY = 'xeno_sessions';
+
+const SESSIONS = 'sessions';
+const MESSAGES = 'messages';
+const IMAGES = 'images';
+const ATTACHMENTS = 'attachments';
+const CHUNKS = 'chunks';
+
+type SessionRecord = Omit<ChatSession, 'messages'>;
+
+type AttachmentMeta = Omit<Attachment, 'dataUrl'>;
+
+interface MessageRecord extends Omit<ChatMessage, 'imageUrl' | 'attachments'> {
+  sessionId: string;
+  seq: number; // Position within the session, used to restore ordering
+  hasImage?: boolean;
+  attachments?: AttachmentMeta[]; // Payloads are in the attachments store
+}
+
+interface ImageRecord {
+  id: string; // Same as the owning message id
+  sessionId: string;
+  blob: Blob;
+}
+
+// Keyed by [messageId, id]: edited copies of a message share attachment ids
+interface AttachmentRecord {
+  messageId: string;
+  id: string;
+  sessionId: string;
+  blob: Blob;
+}
+
+// --- Low level helpers ---
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+/**
+ * Synchronous data URI -> Blob conversion, usable inside a versionchange transaction
+ * (which auto-commits as soon as it is left idle across an await).
+ */
+const dataUriToBlob = (dataUri: string): Blob => {
+  const [header, data] = dataUri.split(',');
+  const mimeType = header.match(/^data:([^;]+)/)?.[1] || 'application/octet-stream';
+  if (!header.includes(';base64')) {
+    return new Blob([decodeURIComponent(data)], { type: mimeType });
+  }
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new Blob([bytes], { type: mimeType });
+};
+
+const blobToDataUri = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+const toSessionRecord = ({ messages, ...rest }: ChatSession): SessionRecord => rest;
+
+const toMessageRecord = (sessionId: string, seq: number, { imageUrl, attachments, ...rest }: ChatMessage): MessageRecord => ({
+  ...rest,
+  sessionId,
+  seq,
+  hasImage: !!imageUrl,
+  attachments: attachments?.map(({ dataUrl, ...meta }) => meta),
+});
+
+// Every attachment of one message: array keys sort after strings, so [id, []] bounds them all
+const messageAttachmentsRange = (messageId: string) => IDBKeyRange.bound([messageId], [messageId, []]);
+
+// --- Schema & migrations ---
+
+/**
+ * Each entry upgrades the database from (version - 1) to version. They run in order inside
+ * the versionchange transaction, so they must stay synchronous.
+ */
+const MIGRATIONS: Record<number, (db: IDBDatabase, tx: IDBTransaction) => void> = {
+  1: (db, tx) => {
+    db.createObjectStore(SESSIONS, { keyPath: 'id' });
+    db.createObjectStore(MESSAGES, { keyPath: 'id' }).createIndex('sessionId', 'sessionId');
+    db.createObjectStore(IMAGES, { keyPath: 'id' }).createIndex('sessionId', 'sessionId');
+
+    // Import everything the previous localStorage-based version saved
+    const stored = localStorage.getItem(LEGACY_SESSIONS_KEY);
+    if (!stored) return;
+    try {
+      const legacy: ChatSession[] = JSON.parse(stored);
+      legacy.forEach(session => {
+        tx.objectStore(SESSIONS).put(toSessionRecord(session));
+        session.messages.forEach((message, seq) => {
+          tx.objectStore(MESSAGES).put(toMessageRecord(session.id, seq, message));
+          if (message.imageUrl) {
+            const image: ImageRecord = { id: message.id, sessionId: session.id, blob: dataUriToBlob(message.imageUrl) };
+            tx.objectStore(IMAGES).put(image);
+          }
+        });
+      });
+      // Only drop the legacy copy once the import has committed
+      tx.addEventListener('complete', () => localStorage.removeItem(LEGACY_SESSIONS_KEY));
+    } catch (error) {
+      console.error("Legacy session migration failed:", error);
+    }
+  },
+  2: (db) => {
+    db.createObjectStore(ATTACHMENTS, { keyPath: ['messageId', 'id'] }).createIndex('sessionId', 'sessionId');
+  },
+  3: (db) => {
+    const chunks = db.createObjectStore(CHUNKS, { keyPath: 'id' });
+    chunks.createIndex('sessionId', 'sessionId');
+    chunks.createIndex('documentId', 'documentId');
+  },
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, SCHEMA_VERSION);
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      const tx = request.transaction!;
+      for (let version = event.oldVersion + 1; version <= SCHEMA_VERSION; version++) {
+        MIGRATIONS[version]?.(db, tx);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  return dbPromise;
+};
+
+// --- Change tracking ---
+
+// Objects that are known to match what is on disk. State updates in the app are immutable,
+// so anything not in these sets is new or changed and needs to be written.
+const persistedSessions = new WeakSet<ChatSession>();
+const persistedMessages = new WeakSet<ChatMessage>();
+// Last image written per message id, so text-only updates (e.g. streaming) skip the blob
+const persistedImages = new Map<string, string | undefined>();
+// Same for attachment lists, which never change once a message is sent
+const persistedAttachments = new Map<string, Attachment[] | undefined>();
+// Position stored per message id. Deleting a message moves the ones after it, which then
+// need their record rewritten even though the message itself didn't change
+const persistedSeqs = new Map<string, number>();
+
+// --- Public API ---
+
+/**
+ * Load all session metadata. Messages are not included; fetch them with loadSessionMessages.
+ */
+export const loadSessionList = async (): Promise<ChatSession[]> => {
+  try {
+    const db = await openDatabase();
+    const records: SessionRecord[] = await requestToPromise(
+      db.transaction(SESSIONS).objectStore(SESSIONS).getAll()
+    );
+    return records.map(record => {
+      const session: ChatSession = { ...record, messages: [] };
+      persistedSessions.add(session);
+      return session;
+    });
+  } catch (error) {
+    console.error("Failed to load sessions:", error);
+    return [];
+  }
+};
+
+export const loadSessionMessages = async (sessionId: string): Promise<ChatMessage[]> => {
+  try {
+    const db = await openDatabase();
+    const tx = db.transaction([MESSAGES, IMAGES, ATTACHMENTS]);
+    const [records, images, attachmentRecords] = await Promise.all([
+      requestToPromise<MessageRecord[]>(tx.objectStore(MESSAGES).index('sessionId').getAll(sessionId)),
+      requestToPromise<ImageRecord[]>(tx.objectStore(IMAGES).index('sessionId').getAll(sessionId)),
+      requestToPromise<AttachmentRecord[]>(tx.objectStore(ATTACHMENTS).index('sessionId').getAll(sessionId)),
+    ]);
+    const imagesById = new Map(images.map(image => [image.id, image.blob]));
+    const attachmentBlobs = new Map(attachmentRecords.map(a => [`${a.messageId}/${a.id}`, a.blob]));
+
+    records.sort((a, b) => a.seq - b.seq);
+    return Promise.all(records.map(async ({ sessionId: _sessionId, seq, hasImage, attachments, ...rest }) => {
+      const blob = hasImage ? imagesById.get(rest.id) : undefined;
+      const message: ChatMessage = {
+        ...rest,
+        imageUrl: blob ? await blobToDataUri(blob) : undefined,
+        attachments: attachments && await Promise.all(attachments
+          .filter(meta => attachmentBlobs.has(`${rest.id}/${meta.id}`))
+          .map(async meta => ({ ...meta, dataUrl: await blobToDataUri(attachmentBlobs.get(`${rest.id}/${meta.id}`)!) }))
+        ),
+        // A reload mid-stream leaves replies flagged as generating; settle them with their partial text
+        isGenerating: false,
+      };
+      persistedImages.set(message.id, message.imageUrl);
+      persistedAttachments.set(message.id, message.attachments);
+      persistedSeqs.set(message.id, seq);
+      if (!rest.isGenerating) persistedMessages.add(message);
+      return message;
+    }));
+  } catch (error) {
+    console.error(`Failed to load messages for session ${sessionId}:`, error);
+    return [];
+  }
+};
+
+/**
+ * Text-only view of every stored message (no image payloads), used to build the search index.
+ */
+export const loadSearchDocuments = async (): Promise<SearchDocument[]> => {
+  try {
+    const db = await openDatabase();
+    const records: MessageRecord[] = await requestToPromise(
+      db.transaction(MESSAGES).objectStore(MESSAGES).getAll()
+    );
+    return records.map(record => ({
+      sessionId: record.sessionId,
+      messageId: record.id,
+      role: record.role,
+      text: record.text,
+      timestamp: record.timestamp,
+      hasImage: !!record.hasImage || !!record.attachments?.some(a => a.kind === 'image'),
+    }));
+  } catch (error) {
+    console.error("Failed to load search documents:", error);
+    return [];
+  }
+};
+
+/**
+ * Write the difference between two snapshots of the session list.
+ * Only sessions and messages whose objects changed are written; sessions or messages that
+ * disappeared are deleted along with their images and attachments.
+ */
+export const persistSessionChanges = async (prev: ChatSession[], next: ChatSession[]): Promise<void> => {
+  try {
+    const db = await openDatabase();
+    const tx = db.transaction([SESSIONS, MESSAGES, IMAGES, ATTACHMENTS, CHUNKS], 'readwrite');
+    const sessionStore = tx.objectStore(SESSIONS);
+    const messageStore = tx.objectStore(MESSAGES);
+    const imageStore = tx.objectStore(IMAGES);
+    const attachmentStore = tx.objectStore(ATTACHMENTS);
+    const chunkStore = tx.objectStore(CHUNKS);
+
+    const nextById = new Map(next.map(s => [s.id, s]));
+
+    // Removed sessions
+    prev.forEach(session => {
+      if (nextById.has(session.id)) return;
+      sessionStore.delete(session.id);
+      messageStore.index('sessionId').openKeyCursor(IDBKeyRange.only(session.id)).onsuccess = (e) => {
+        const cursor = (e.target as IDBRequest<IDBCursor | null>).result;
+        if (!cursor) return;
+        messageStore.delete(cursor.primaryKey);
+        persistedImages.delete(cursor.primaryKey as string);
+        persistedAttachments.delete(cursor.primaryKey as string);
+        persistedSeqs.delete(cursor.primaryKey as string);
+        cursor.continue();
+      };
+      [imageStore, attachmentStore, chunkStore].forEach(store => {
+        store.index('sessionId').openKeyCursor(IDBKeyRange.only(session.id)).onsuccess = (e) => {
+          const cursor = (e.target as IDBRequest<IDBCursor | null>).result;
+          if (!cursor) return;
+          store.delete(cursor.primaryKey);
+          cursor.continue();
+        };
+      });
+    });
+
+    const prevById = new Map(prev.map(s => [s.id, s]));
+
+    next.forEach(session => {
+      if (persistedSessions.has(session)) return;
+      sessionStore.put(toSessionRecord(session));
+
+      // Removed messages
+      const nextMessageIds = new Set(session.messages.map(m => m.id));
+      prevById.get(session.id)?.messages.forEach(message => {
+        if (nextMessageIds.has(message.id)) return;
+        messageStore.delete(message.id);
+        imageStore.delete(message.id);
+        attachmentStore.delete(messageAttachmentsRange(message.id));
+        persistedImages.delete(message.id);
+        persistedAttachments.delete(message.id);
+        persistedSeqs.delete(message.id);
+      });
+
+      // New or changed messages
+      session.messages.forEach((message, seq) => {
+        if (persistedMessages.has(message) && persistedSeqs.get(message.id) === seq) return;
+        messageStore.put(toMessageRecord(session.id, seq, message));
+        persistedSeqs.set(message.id, seq);
+        if (persistedImages.get(message.id) !== message.imageUrl) {
+          if (message.imageUrl) {
+            const image: ImageRecord = { id: message.id, sessionId: session.id, blob: dataUriToBlob(message.imageUrl) };
+            imageStore.put(image);
+          } else {
+            imageStore.delete(message.id);
+          }
+          persistedImages.set(message.id, message.imageUrl);
+        }
+        if (persistedAttachments.get(message.id) !== message.attachments) {
+          attachmentStore.delete(messageAttachmentsRange(message.id));
+          message.attachments?.forEach(attachment => {
+            const record: AttachmentRecord = {
+              messageId: message.id,
+              id: attachment.id,
+              sessionId: session.id,
+              blob: dataUriToBlob(attachment.dataUrl),
+            };
+            attachmentStore.put(record);
+          });
+          persistedAttachments.set(message.id, message.attachments);
+        }
+      });
+    });
+
+    await transactionDone(tx);
+    next.forEach(session => {
+      persistedSessions.add(session);
+      session.messages.forEach(message => persistedMessages.add(message));
+    });
+  } catch (error) {
+    console.error("Failed to save sessions:", error);
+  }
+};
+
+// --- Document chunks ---
+
+export const saveDocumentChunks = async (chunks: DocumentChunk[]): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(CHUNKS, 'readwrite');
+  chunks.forEach(chunk => tx.objectStore(CHUNKS).put(chunk));
+  await transactionDone(tx);
+};
+
+export const loadSessionChunks = async (sessionId: string): Promise<DocumentChunk[]> => {
+  const db = await openDatabase();
+  return requestToPromise(db.transaction(CHUNKS).objectStore(CHUNKS).index('sessionId').getAll(sessionId));
+};
+
+export const deleteDocumentChunks = async (documentId: string): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(CHUNKS, 'readwrite');
+  const store = tx.objectStore(CHUNKS);
+  store.index('documentId').openKeyCursor(IDBKeyRange.only(documentId)).onsuccess = (e) => {
+    const cursor = (e.target as IDBRequest<IDBCursor | null>).result;
+    if (!cursor) return;
+    store.delete(cursor.primaryKey);
+    cursor.continue();
+  };
+  await transactionDone(tx);
+};
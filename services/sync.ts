@@ -0,0 +1,290 @@
+import { v4 as uuidv4 } from 'uuid';
+import { ChatMessage, ChatSession, SyncChange } from "../types";
+import { postToApi } from "./api";
+import { loadSessionMessages, loadSearchDocuments } from "./storage";
+
+// Cloud sync of chats between the devices a user signs in on, through the API server
+// (server/sync.mjs). Local edits are recorded as pending changes by comparing snapshots of
+// the session list, the same way storage decides what to write, with tombstones for what
+// was deleted. A sync pushes them, then pulls what other devices changed and merges it: for
+// a session's settings and for each message, the later change wins, so concurrent edits to
+// different messages (or new replies on two devices) all survive.
+//
+// Documents are not synced: their index is only on the device that built it.
+
+const SYNC_KEY = 'xeno_sync';
+// Rough size of one push; attachments and images make messages large
+const PUSH_BUDGET_CHARS = 4 * 1024 * 1024;
+// Pending changes are saved at most this often, since streaming changes a message many times a second
+const SAVE_DELAY_MS = 1000;
+
+interface PendingChange {
+  changedAt: number;
+  deleted?: boolean;
+  sessionId?: string; // On messages
+}
+
+interface SyncRecord {
+  deviceId: string; // So pulls skip this device's own changes
+  userId?: string; // Account the cursor belongs to; another account starts from the beginning
+  cursor: number; // Last server revision merged
+  sessions: Record<string, PendingChange>;
+  messages: Record<string, PendingChange>;
+}
+
+export interface RemoteChanges {
+  cursor: number;
+  sessions: SyncChange<Omit<ChatSession, 'messages'>>[];
+  messages: SyncChange<ChatMessage>[];
+}
+
+const loadRecord = (): SyncRecord => {
+  try {
+    const stored = localStorage.getItem(SYNC_KEY);
+    if (stored) return JSON.parse(stored);
+  } catch {
+    // Start over below
+  }
+  return { deviceId: uuidv4(), cursor: 0, sessions: {}, messages: {} };
+};
+
+const record = loadRecord();
+let saveTimer: ReturnType<typeof setTimeout> | undefined;
+
+const saveRecord = () => {
+  clearTimeout(saveTimer);
+  saveTimer = undefined;
+  localStorage.setItem(SYNC_KEY, JSON.stringify(record));
+};
+
+const scheduleSave = () => {
+  if (!saveTimer) saveTimer = setTimeout(saveRecord, SAVE_DELAY_MS);
+};
+
+window.addEventListener('pagehide', () => {
+  if (saveTimer) saveRecord();
+});
+
+export const hasPendingChanges = (): boolean =>
+  Object.keys(record.sessions).length > 0 || Object.keys(record.messages).length > 0;
+
+// --- Change tracking ---
+
+// Objects that are not local edits: messages loaded from storage and anything merged from
+// the server. Anything else that appears in a new snapshot is a change to push.
+const seenSessions = new WeakSet<ChatSession>();
+const seenMessages = new WeakSet<ChatMessage>();
+// Removed by a merge rather than by the user, so they don't come back as local deletions
+const remoteDeletions = new Set<string>();
+
+export const noteLoadedMessages = (messages: ChatMessage[]) => {
+  messages.forEach(message => seenMessages.add(message));
+};
+
+// Documents stay on this device; messages are tracked one by one
+const toSyncedSession = ({ messages, documents, ...session }: ChatSession): Omit<ChatSession, 'messages'> => session;
+
+const settingsChanged = (a: ChatSession, b: ChatSession): boolean => {
+  const [syncedA, syncedB] = [toSyncedSession(a), toSyncedSession(b)];
+  const keys = new Set([...Object.keys(syncedA), ...Object.keys(syncedB)] as (keyof typeof syncedA)[]);
+  return Array.from(keys).some(key => syncedA[key] !== syncedB[key]);
+};
+
+/**
+ * Records the differences between two snapshots of the session list as pending changes.
+ * Called with every snapshot the app persists, whether or not anyone is signed in.
+ */
+export const trackSessionChanges = (prev: ChatSession[], next: ChatSession[]) => {
+  const now = Date.now();
+  const nextIds = new Set(next.map(s => s.id));
+  const prevById = new Map(prev.map(s => [s.id, s]));
+  let changed = false;
+
+  prev.forEach(session => {
+    if (nextIds.has(session.id)) return;
+    if (remoteDeletions.delete(session.id)) return;
+    record.sessions[session.id] = { changedAt: now, deleted: true };
+    changed = true;
+  });
+
+  next.forEach(session => {
+    const before = prevById.get(session.id);
+    if (before === session) return;
+    if (!seenSessions.has(session) && (!before || settingsChanged(before, session))) {
+      record.sessions[session.id] = { changedAt: now };
+      changed = true;
+    }
+
+    const messageIds = new Set(session.messages.map(m => m.id));
+    before?.messages.forEach(message => {
+      if (messageIds.has(message.id) || remoteDeletions.delete(message.id)) return;
+      record.messages[message.id] = { changedAt: now, deleted: true, sessionId: session.id };
+      changed = true;
+    });
+    session.messages.forEach(message => {
+      if (seenMessages.has(message)) return;
+      seenMessages.add(message);
+      record.messages[message.id] = { changedAt: now, sessionId: session.id };
+      changed = true;
+    });
+  });
+
+  if (changed) scheduleSave();
+};
+
+/**
+ * A first sync for an account offers it everything on this device. The change times are
+ * when each item was last touched, so newer copies already on the server are kept.
+ */
+const seedPendingChanges = async (sessions: ChatSession[]) => {
+  sessions.forEach(session => {
+    record.sessions[session.id] ??= { changedAt: session.updatedAt };
+    session.messages.forEach(message => {
+      record.messages[message.id] ??= { changedAt: message.timestamp, sessionId: session.id };
+    });
+  });
+  (await loadSearchDocuments()).forEach(doc => {
+    record.messages[doc.messageId] ??= { changedAt: doc.timestamp, sessionId: doc.sessionId };
+  });
+};
+
+// --- Push & pull ---
+
+/**
+ * Pushes the pending changes in batches. A change is only cleared once the server has it
+ * and nothing changed the item again in the meantime.
+ */
+const pushPendingChanges = async (sessions: ChatSession[]) => {
+  const sessionsById = new Map(sessions.map(s => [s.id, s]));
+  const sessionChanges: SyncChange<Omit<ChatSession, 'messages'>>[] = [];
+  Object.entries(record.sessions).forEach(([id, change]) => {
+    const session = sessionsById.get(id);
+    if (change.deleted) sessionChanges.push({ id, updatedAt: change.changedAt, deleted: true });
+    else if (session) sessionChanges.push({ id, updatedAt: change.changedAt, data: toSyncedSession(session) });
+    else delete record.sessions[id];
+  });
+
+  // Messages of chats that were never opened here are only in storage
+  const messagesById = new Map<string, ChatMessage>();
+  const sessionIds = new Set(Object.values(record.messages).filter(c => !c.deleted).map(c => c.sessionId!));
+  for (const sessionId of sessionIds) {
+    const session = sessionsById.get(sessionId);
+    if (!session) continue;
+    const messages = session.messages.length > 0 ? session.messages : await loadSessionMessages(sessionId);
+    messages.forEach(message => messagesById.set(message.id, message));
+  }
+
+  const messageChanges: SyncChange<ChatMessage>[] = [];
+  Object.entries(record.messages).forEach(([id, change]) => {
+    const message = messagesById.get(id);
+    if (change.deleted) messageChanges.push({ id, sessionId: change.sessionId, updatedAt: change.changedAt, deleted: true });
+    // Unfinished replies and messages waiting in the outbox go once they settle
+    else if (message && !message.isGenerating && !message.isPending) messageChanges.push({ id, sessionId: change.sessionId, updatedAt: change.changedAt, data: message });
+    else if (!message) delete record.messages[id];
+  });
+
+  const batches: { sessions: typeof sessionChanges; messages: typeof messageChanges }[] = [{ sessions: sessionChanges, messages: [] }];
+  let size = 0;
+  messageChanges.forEach(change => {
+    const changeSize = JSON.stringify(change).length;
+    if (size + changeSize > PUSH_BUDGET_CHARS && batches[batches.length - 1].messages.length > 0) {
+      batches.push({ sessions: [], messages: [] });
+      size = 0;
+    }
+    batches[batches.length - 1].messages.push(change);
+    size += changeSize;
+  });
+
+  for (const batch of batches) {
+    if (batch.sessions.length === 0 && batch.messages.length === 0) continue;
+    await postToApi('sync/push', { deviceId: record.deviceId, ...batch });
+    batch.sessions.forEach(c => {
+      if (record.sessions[c.id]?.changedAt === c.updatedAt) delete record.sessions[c.id];
+    });
+    batch.messages.forEach(c => {
+      if (record.messages[c.id]?.changedAt === c.updatedAt) delete record.messages[c.id];
+    });
+    saveRecord();
+  }
+};
+
+const pullRemoteChanges = async (): Promise<RemoteChanges> => {
+  const remote: RemoteChanges = { cursor: record.cursor, sessions: [], messages: [] };
+  for (let more = true; more;) {
+    const page = await (await postToApi('sync/pull', { deviceId: record.deviceId, since: remote.cursor })).json();
+    remote.sessions.push(...page.sessions);
+    remote.messages.push(...page.messages);
+    remote.cursor = page.cursor;
+    more = page.more;
+  }
+  return remote;
+};
+
+/**
+ * Pushes this device's changes as `userId` and resolves with what other devices changed.
+ * Merge the result with mergeRemoteChanges, then confirm it with commitRemoteChanges.
+ */
+export const syncSessions = async (userId: string, sessions: ChatSession[]): Promise<RemoteChanges> => {
+  if (record.userId !== userId) {
+    record.userId = userId;
+    record.cursor = 0;
+    await seedPendingChanges(sessions);
+    saveRecord();
+  }
+  await pushPendingChanges(sessions);
+  return pullRemoteChanges();
+};
+
+export const commitRemoteChanges = (remote: RemoteChanges) => {
+  record.cursor = remote.cursor;
+  saveRecord();
+};
+
+// A local change made after the remote one wins; it is pushed on the next sync
+const isLocalNewer = (pending: PendingChange | undefined, updatedAt: number) =>
+  pending !== undefined && pending.changedAt > updatedAt;
+
+/**
+ * Merges pulled changes into the session list. Chats touched by remote messages must have
+ * their messages loaded first, or stored messages would later replace the merged ones.
+ */
+export const mergeRemoteChanges = (sessions: ChatSession[], remote: RemoteChanges): ChatSession[] => {
+  const byId = new Map(sessions.map(s => [s.id, s]));
+
+  remote.sessions.forEach(change => {
+    if (isLocalNewer(record.sessions[change.id], change.updatedAt)) return;
+    delete record.sessions[change.id];
+    const local = byId.get(change.id);
+    if (change.deleted) {
+      if (local && byId.delete(change.id)) remoteDeletions.add(change.id);
+      return;
+    }
+    const merged: ChatSession = { ...change.data!, messages: local?.messages || [], documents: local?.documents };
+    seenSessions.add(merged);
+    byId.set(change.id, merged);
+  });
+
+  remote.messages.forEach(change => {
+    const session = byId.get(change.sessionId!);
+    if (!session || isLocalNewer(record.messages[change.id], change.updatedAt)) return;
+    delete record.messages[change.id];
+    const exists = session.messages.some(m => m.id === change.id);
+    let messages: ChatMessage[];
+    if (change.deleted) {
+      if (!exists) return;
+      remoteDeletions.add(change.id);
+      messages = session.messages.filter(m => m.id !== change.id);
+    } else {
+      seenMessages.add(change.data!);
+      messages = exists
+        ? session.messages.map(m => m.id === change.id ? change.data! : m)
+        : [...session.messages, change.data!];
+    }
+    const merged = { ...session, messages };
+    seenSessions.add(merged);
+    byId.set(session.id, merged);
+  });
+
+  scheduleSave();
+  return Array.from(byId.values());
+};
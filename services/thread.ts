@@ -0,0 +1,110 @@
+import { ChatMessage, ChatSession } from "../types";
+
+// Conversation tree helpers.
+// A session's `messages` holds every version of every message; `parentId` links each one to
+// the message it follows. Edited user messages and regenerated replies are siblings sharing a
+// parent, and `branchSelection` remembers which sibling is shown. The visible conversation is
+// the path from the root following the selected child at each step.
+
+const ROOT_KEY = '__root__';
+
+const parentKey = (parentId: string | null | undefined) => parentId || ROOT_KEY;
+
+/**
+ * Messages saved before branching existed have no parentId; link each one to the message
+ * before it so the flat history becomes a single-branch tree.
+ */
+export const withParentLinks = (messages: ChatMessage[]): ChatMessage[] => {
+  if (messages.every(m => m.parentId !== undefined)) return messages;
+  return messages.map((m, i) =>
+    m.parentId !== undefined ? m : { ...m, parentId: i === 0 ? null : messages[i - 1].id }
+  );
+};
+
+export const getChildren = (messages: ChatMessage[], parentId: string | null): ChatMessage[] =>
+  messages.filter(m => parentKey(m.parentId) === parentKey(parentId));
+
+/**
+ * The selected child of a parent, defaulting to the most recently added one.
+ */
+const selectedChild = (session: ChatSession, parentId: string | null): ChatMessage | undefined => {
+  const children = getChildren(session.messages, parentId);
+  const selectedId = session.branchSelection?.[parentKey(parentId)];
+  return children.find(m => m.id === selectedId) || children[children.length - 1];
+};
+
+export const getActiveThread = (session: ChatSession): ChatMessage[] => {
+  const thread: ChatMessage[] = [];
+  const seen = new Set<string>();
+  let next = selectedChild(session, null);
+  while (next && !seen.has(next.id)) {
+    thread.push(next);
+    seen.add(next.id);
+    next = selectedChild(session, next.id);
+  }
+  return thread;
+};
+
+/**
+ * Ancestors of a message, oldest first (the message itself is not included).
+ */
+export const getAncestors = (messages: ChatMessage[], messageId: string): ChatMessage[] => {
+  const byId = new Map(messages.map(m => [m.id, m]));
+  const ancestors: ChatMessage[] = [];
+  let parentId = byId.get(messageId)?.parentId;
+  while (parentId && byId.has(parentId) && ancestors.length < messages.length) {
+    const parent = byId.get(parentId)!;
+    ancestors.unshift(parent);
+    parentId = parent.parentId;
+  }
+  return ancestors;
+};
+
+/**
+ * Ids of a message and every message that follows it, in any branch.
+ */
+export const getSubtreeIds = (messages: ChatMessage[], messageId: string): Set<string> => {
+  const ids = new Set([messageId]);
+  let added = true;
+  while (added) {
+    added = false;
+    messages.forEach(m => {
+      if (m.parentId && ids.has(m.parentId) && !ids.has(m.id)) {
+        ids.add(m.id);
+        added = true;
+      }
+    });
+  }
+  return ids;
+};
+
+export interface SiblingInfo {
+  index: number; // 0-based position among siblings
+  count: number;
+  previousId?: string;
+  nextId?: string;
+}
+
+export const getSiblingInfo = (messages: ChatMessage[], message: ChatMessage): SiblingInfo => {
+  const siblings = getChildren(messages, message.parentId ?? null);
+  const index = siblings.findIndex(m => m.id === message.id);
+  return {
+    index,
+    count: siblings.length,
+    previousId: siblings[index - 1]?.id,
+    nextId: siblings[index + 1]?.id,
+  };
+};
+
+/**
+ * Returns the branch selection that shows the given message (and therefore all of its ancestors).
+ */
+export const selectBranch = (session: ChatSession, messageId: string): Record<string, string> => {
+  const selection = { ...session.branchSelection };
+  const target = session.messages.find(m => m.id === messageId);
+  if (!target) return selection;
+  [...getAncestors(session.messages, messageId), target].forEach(m => {
+    selection[parentKey(m.parentId)] = m.id;
+  });
+  return selection;
+};
@@ -0,0 +1,205 @@
+import { ToolCallRequest, ToolDefinition, ToolOutcome } from "../types";
+import { evaluateExpression } from "./calculator";
+import { convertUnits, SUPPORTED_UNITS } from "./units";
+import { loadNotes, saveNote, deleteNote } from "./notes";
+import { runInSandbox } from "./sandbox";
+
+// Built-in tools the chat model can call. Each declares a JSON schema for its arguments;
+// tools flagged sideEffects only run once the user approves the call in the chat.
+
+// Results larger than this are cut before they go back to the model
+const MAX_RESULT_CHARS = 8000;
+
+const calculator: ToolDefinition<{ expression: string }> = {
+  name: 'calculator',
+  label: 'Calculator',
+  description: 'Evaluates an arithmetic expression exactly. Use it for any calculation instead of doing math in your head. Supports + - * / % ^, parentheses, pi, e and sqrt, cbrt, abs, round, floor, ceil, sin, cos, tan, asin, acos, atan, ln, log (base 10), log2, exp, min, max, pow.',
+  parameters: {
+    type: 'object',
+    properties: {
+      expression: { type: 'string', description: 'e.g. "(1250 * 18) / 100" or "sqrt(2) ^ 3"' },
+    },
+    required: ['expression'],
+  },
+  run: async ({ expression }) => ({ expression, result: evaluateExpression(expression) }),
+};
+
+const converter: ToolDefinition<{ value: number; from: string; to: string }> = {
+  name: 'convert_units',
+  label: 'Unit converter',
+  description: `Converts a value between units of length, mass, volume, area, speed, time, data size or temperature, or between currencies (offline rates, approximate). Known units: ${SUPPORTED_UNITS}.`,
+  parameters: {
+    type: 'object',
+    properties: {
+      value: { type: 'number' },
+      from: { type: 'string', description: 'Unit or ISO currency code to convert from, e.g. "km", "lb", "fahrenheit", "USD"' },
+      to: { type: 'string', description: 'Unit or ISO currency code to convert to' },
+    },
+    required: ['value', 'from', 'to'],
+  },
+  run: async ({ value, from, to }) => convertUnits(Number(value), from, to),
+};
+
+type DateUnit = 'minutes' | 'hours' | 'days' | 'weeks' | 'months' | 'years';
+
+const parseDate = (value: string | undefined, name: string): Date => {
+  const date = value ? new Date(value) : new Date();
+  if (Number.isNaN(date.getTime())) throw new Error(`"${value}" is not a valid ${name}`);
+  return date;
+};
+
+const describeDate = (date: Date, timeZone?: string) => {
+  const options: Intl.DateTimeFormatOptions = { timeZone, dateStyle: 'full', timeStyle: 'long' };
+  return {
+    iso: date.toISOString(),
+    formatted: new Intl.DateTimeFormat('en-IN', options).format(date),
+    timeZone: timeZone || Intl.DateTimeFormat().resolvedOptions().timeZone,
+  };
+};
+
+const addToDate = (date: Date, amount: number, unit: DateUnit): Date => {
+  const next = new Date(date);
+  switch (unit) {
+    case 'minutes': next.setMinutes(next.getMinutes() + amount); break;
+    case 'hours': next.setHours(next.getHours() + amount); break;
+    case 'days': next.setDate(next.getDate() + amount); break;
+    case 'weeks': next.setDate(next.getDate() + amount * 7); break;
+    case 'months': next.setMonth(next.getMonth() + amount); break;
+    case 'years': next.setFullYear(next.getFullYear() + amount); break;
+    default: throw new Error(`Unknown unit "${unit}"`);
+  }
+  return next;
+};
+
+const dateTime: ToolDefinition<{ action: 'now' | 'add' | 'difference'; timeZone?: string; date?: string; to?: string; amount?: number; unit?: DateUnit }> = {
+  name: 'date_time',
+  label: 'Date & time',
+  description: 'Current date and time (optionally in an IANA time zone), adding an amount of time to a date, or the time between two dates. Always use it for "today", ages, countdowns and time zones.',
+  parameters: {
+    type: 'object',
+    properties: {
+      action: { type: 'string', enum: ['now', 'add', 'difference'] },
+      timeZone: { type: 'string', description: 'IANA time zone such as "Asia/Kolkata"; defaults to the user\'s' },
+      date: { type: 'string', description: 'For add and difference: ISO date to start from; defaults to now' },
+      to: { type: 'string', description: 'For difference: ISO date to measure to' },
+      amount: { type: 'number', description: 'For add: how much to add; negative subtracts' },
+      unit: { type: 'string', enum: ['minutes', 'hours', 'days', 'weeks', 'months', 'years'] },
+    },
+    required: ['action'],
+  },
+  run: async ({ action, timeZone, date, to, amount, unit }) => {
+    const start = parseDate(date, 'date');
+    if (action === 'add') {
+      if (amount === undefined || !unit) throw new Error('add needs an amount and a unit');
+      return describeDate(addToDate(start, Number(amount), unit), timeZone);
+    }
+    if (action === 'difference') {
+      const end = parseDate(to, 'end date');
+      const ms = end.getTime() - start.getTime();
+      return {
+        from: start.toISOString(),
+        to: end.toISOString(),
+        days: Math.round(ms / 86400000 * 100) / 100,
+        hours: Math.round(ms / 3600000 * 100) / 100,
+        weeks: Math.round(ms / 604800000 * 100) / 100,
+      };
+    }
+    return describeDate(start, timeZone);
+  },
+};
+
+const readNotes: ToolDefinition<{ query?: string }> = {
+  name: 'read_notes',
+  label: 'Read notes',
+  description: "Lists the user's saved notes, optionally only those whose title or content contains the query.",
+  parameters: {
+    type: 'object',
+    properties: {
+      query: { type: 'string' },
+    },
+  },
+  run: async ({ query }) => {
+    const needle = query?.trim().toLowerCase();
+    const notes = loadNotes().filter(n => !needle || `${n.title}\n${n.content}`.toLowerCase().includes(needle));
+    return notes.map(({ title, content, updatedAt }) => ({ title, content, updated: new Date(updatedAt).toISOString() }));
+  },
+};
+
+const writeNote: ToolDefinition<{ title: string; content: string }> = {
+  name: 'save_note',
+  label: 'Save note',
+  description: 'Saves a note for the user, replacing the note with the same title. Only when the user asks to note, save or remember something.',
+  parameters: {
+    type: 'object',
+    properties: {
+      title: { type: 'string' },
+      content: { type: 'string' },
+    },
+    required: ['title', 'content'],
+  },
+  sideEffects: true,
+  run: async ({ title, content }) => {
+    if (!title?.trim()) throw new Error('A note needs a title');
+    const note = saveNote(title, content || '');
+    return { saved: note.title };
+  },
+};
+
+const removeNote: ToolDefinition<{ title: string }> = {
+  name: 'delete_note',
+  label: 'Delete note',
+  description: 'Deletes the user\'s note with this title. Only when the user asks for it.',
+  parameters: {
+    type: 'object',
+    properties: {
+      title: { type: 'string' },
+    },
+    required: ['title'],
+  },
+  sideEffects: true,
+  run: async ({ title }) => {
+    if (!deleteNote(title)) throw new Error(`There is no note called "${title}"`);
+    return { deleted: title };
+  },
+};
+
+const javascript: ToolDefinition<{ code: string }> = {
+  name: 'run_javascript',
+  label: 'JavaScript',
+  description: 'Runs JavaScript in an isolated sandbox without network or DOM, for at most 3 seconds, and returns the value of the last expression and anything logged with console.log. Use it for data processing, simulations or checking code.',
+  parameters: {
+    type: 'object',
+    properties: {
+      code: { type: 'string', description: 'Script to run; the last expression is the result' },
+    },
+    required: ['code'],
+  },
+  run: async ({ code }) => {
+    const outcome = await runInSandbox(code);
+    if (outcome.error) throw new Error(outcome.logs.length > 0 ? `${outcome.error}\nOutput:\n${outcome.logs.join('\n')}` : outcome.error);
+    return outcome;
+  },
+};
+
+export const TOOLS: ToolDefinition<any>[] = [calculator, converter, dateTime, readNotes, writeNote, removeNote, javascript];
+
+export const getTool = (name: string): ToolDefinition<any> | undefined =>
+  TOOLS.find(tool => tool.name === name);
+
+/**
+ * Runs a call the user has already approved (if needed). Errors become the outcome so the
+ * model can see them and recover.
+ */
+export const runToolCall = async ({ name, args }: ToolCallRequest): Promise<ToolOutcome> => {
+  const tool = getTool(name);
+  if (!tool) return { error: `There is no tool called "${name}"` };
+  try {
+    const result = await tool.run(args);
+    const serialized = JSON.stringify(result ?? null);
+    return serialized.length > MAX_RESULT_CHARS
+      ? { result: `${serialized.slice(0, MAX_RESULT_CHARS)}… (cut off)` }
+      : { result };
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : String(error) };
+  }
+};
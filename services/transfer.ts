@@ -0,0 +1,549 @@
+import React from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import ReactMarkdown from 'react-markdown';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  ChatSession, ChatMessage, MessageRole, MessageType, Attachment, AttachmentKind, ToolCall, ToolCallStatus, Citation,
+  MessageError, ProviderErrorKind, ProviderId, RouteDecision, ImageEditSpec, ImageGenerationOptions, ContextSummary,
+  SessionDocument, DocumentStatus, MessageTranslation,
+} from "../types";
+import { createZip, ZipEntry } from "./zip";
+import { getActiveThread, withParentLinks } from "./thread";
+import { getMessageAttachments, dataUrlMimeType } from "./attachments";
+import { ROUTES } from "./intent";
+import { ASPECT_RATIOS, IMAGE_FORMATS } from "./imageOptions";
+
+// Export of chat sessions to JSON (round-trippable), Markdown (+ files) and standalone HTML,
+// and validation/merging of JSON imports. JSON keeps every branch of a conversation; the
+// readable formats contain the version currently shown in the app.
+
+export const EXPORT_FORMAT = 'xeno-ai-chat-export';
+export const EXPORT_VERSION = 1;
+
+export type ExportFormat = 'json' | 'markdown' | 'html';
+export type ImportMode = 'merge' | 'replace';
+
+export interface ChatExport {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  exportedAt: number;
+  sessions: ChatSession[];
+}
+
+export interface ExportFile {
+  blob: Blob;
+  filename: string;
+}
+
+export interface ImportResult {
+  sessions: ChatSession[];
+  added: number;
+  renamed: number; // Imported with a new id because the id was already taken
+  skipped: number; // Exact duplicates of sessions that already exist
+}
+
+// --- Helpers ---
+
+const slugify = (text: string) =>
+  text.toLowerCase().replace(/[^a-z0-9\u0900-\u097F]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 40) || 'chat';
+
+const safeFileName = (name: string) => name.replace(/[\\/:*?"<>|\s]+/g, '-') || 'file';
+
+const dateStamp = () => new Date().toISOString().slice(0, 10);
+
+const baseFilename = (sessions: ChatSession[]) =>
+  sessions.length === 1 ? `xeno-${slugify(sessions[0].title)}` : `xeno-chats-${dateStamp()}`;
+
+const formatTime = (timestamp: number) => new Date(timestamp).toLocaleString();
+
+const speaker = (message: ChatMessage) => message.role === MessageRole.USER ? 'You' : 'Xeno';
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+  'image/svg+xml': 'svg',
+};
+
+const dataUriToBytes = (dataUri: string): { bytes: Uint8Array; mimeType: string } => {
+  const [header, data] = dataUri.split(',');
+  const mimeType = header.match(/^data:([^;]+)/)?.[1] || 'application/octet-stream';
+  if (!header.includes(';base64')) return { bytes: new TextEncoder().encode(decodeURIComponent(data)), mimeType };
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return { bytes, mimeType };
+};
+
+const escapeHtml = (text: string) =>
+  text.replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c]!));
+
+export const downloadBlob = ({ blob, filename }: ExportFile) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// --- JSON ---
+
+/**
+ * Strips transient UI state so only what should round-trip is exported. A message waiting in
+ * the outbox has no outbox entry anywhere else, so it is exported as sent.
+ */
+const toExportedMessage = ({ isGenerating, isPending, ...message }: ChatMessage): ChatMessage => message;
+
+export const exportToJson = (sessions: ChatSession[]): ExportFile => {
+  const payload: ChatExport = {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: Date.now(),
+    sessions: sessions.map(s => ({ ...s, messages: s.messages.map(toExportedMessage) })),
+  };
+  return {
+    blob: new Blob([JSON.stringify(payload, null, 2)], { type: 'application/json' }),
+    filename: `${baseFilename(sessions)}.json`,
+  };
+};
+
+// --- Markdown ---
+
+const sessionToMarkdown = (
+  session: ChatSession,
+  assetPath: (message: ChatMessage, attachment: Attachment) => string
+): string => {
+  const lines = [
+    `# ${session.title}`,
+    '',
+    `*Exported from Xeno AI · created ${formatTime(session.createdAt)}*`,
+    '',
+  ];
+  getActiveThread(session).forEach(message => {
+    lines.push('---', '', `### ${speaker(message)} · ${formatTime(message.timestamp)}`, '');
+    getMessageAttachments(message).forEach(attachment => {
+      const path = assetPath(message, attachment);
+      lines.push(attachment.kind === 'image' ? `![${attachment.name}](${path})` : `📎 [${attachment.name}](${path})`, '');
+    });
+    if (message.text) lines.push(message.text, '');
+  });
+  return lines.join('\n');
+};
+
+/**
+ * A single .md file when there are no images or attachments; otherwise a .zip with the
+ * Markdown file(s) and the images/ and attachments/ folders they link into.
+ */
+export const exportToMarkdown = (sessions: ChatSession[]): ExportFile => {
+  const encoder = new TextEncoder();
+  const assets: ZipEntry[] = [];
+  const assetPath = (message: ChatMessage, attachment: Attachment) => {
+    const { bytes, mimeType } = dataUriToBytes(attachment.dataUrl);
+    const name = attachment.kind === 'image'
+      ? `images/${message.id}-${attachment.id}.${IMAGE_EXTENSIONS[mimeType] || 'bin'}`
+      : `attachments/${message.id}-${safeFileName(attachment.name)}`;
+    assets.push({ name, data: bytes });
+    return name;
+  };
+
+  const documents = sessions.map(session => ({
+    name: `${slugify(session.title)}-${session.id.slice(0, 8)}.md`,
+    markdown: sessionToMarkdown(session, assetPath),
+  }));
+
+  if (assets.length === 0 && documents.length === 1) {
+    return {
+      blob: new Blob([documents[0].markdown], { type: 'text/markdown' }),
+      filename: `${baseFilename(sessions)}.md`,
+    };
+  }
+
+  const entries: ZipEntry[] = [
+    ...documents.map(doc => ({ name: doc.name, data: encoder.encode(doc.markdown) })),
+    ...assets,
+  ];
+  return { blob: createZip(entries), filename: `${baseFilename(sessions)}.zip` };
+};
+
+// --- HTML ---
+
+const HTML_STYLES = `
+  body { margin: 0; background: #0D0221; color: #f3f4f6; font-family: Inter, system-ui, sans-serif; }
+  main { max-width: 860px; margin: 0 auto; padding: 32px 16px; }
+  h1 { font-family: Poppins, system-ui, sans-serif; color: #00E0FF; margin-bottom: 4px; }
+  .meta { color: rgba(255,255,255,0.4); font-size: 12px; margin-bottom: 24px; }
+  section { margin-bottom: 48px; }
+  .msg { display: flex; margin-bottom: 16px; }
+  .msg.user { justify-content: flex-end; }
+  .bubble { max-width: 75%; padding: 12px 16px; border-radius: 16px; line-height: 1.6; }
+  .user .bubble { background: #4316A1; border-top-right-radius: 4px; }
+  .model .bubble { background: rgba(255,255,255,0.1); border-top-left-radius: 4px; }
+  .who { font-size: 11px; color: rgba(255,255,255,0.4); margin-bottom: 4px; }
+  .bubble img { max-width: 100%; border-radius: 8px; display: block; margin-bottom: 8px; }
+  .bubble audio { display: block; margin-bottom: 8px; }
+  .file { display: inline-block; margin: 0 8px 8px 0; padding: 6px 10px; border-radius: 8px; background: rgba(0,0,0,0.3); text-decoration: none; }
+  .bubble p { margin: 0 0 8px; }
+  .bubble p:last-child { margin-bottom: 0; }
+  pre { background: rgba(0,0,0,0.4); padding: 12px; border-radius: 8px; overflow-x: auto; }
+  code { font-family: ui-monospace, monospace; font-size: 13px; }
+  a { color: #00E0FF; }
+`;
+
+const attachmentToHtml = (attachment: Attachment): string => {
+  const name = escapeHtml(attachment.name);
+  const url = escapeHtml(attachment.dataUrl);
+  switch (attachment.kind) {
+    case 'image': return `<img src="${url}" alt="${name}">`;
+    case 'audio': return `<audio controls src="${url}"></audio>`;
+    default: return `<a class="file" href="${url}" download="${name}">📎 ${name}</a>`;
+  }
+};
+
+const messageToHtml = (message: ChatMessage): string => {
+  const roleClass = message.role === MessageRole.USER ? 'user' : 'model';
+  const files = getMessageAttachments(message).map(attachmentToHtml).join('');
+  // Plain markdown, without the chat view's extensions; raw HTML in messages is escaped by default
+  const body = message.text
+    ? renderToStaticMarkup(React.createElement(ReactMarkdown, null, message.text))
+    : '';
+  return `<div class="msg ${roleClass}"><div class="bubble"><div class="who">${speaker(message)} · ${escapeHtml(formatTime(message.timestamp))}</div>${files}${body}</div></div>`;
+};
+
+export const exportToHtml = (sessions: ChatSession[]): ExportFile => {
+  const title = sessions.length === 1 ? sessions[0].title : 'Xeno AI Conversations';
+  const sections = sessions.map(session => {
+    const thread = getActiveThread(session);
+    return `
+  <section>
+    <h1>${escapeHtml(session.title)}</h1>
+    <div class="meta">Created ${escapeHtml(formatTime(session.createdAt))} · ${thread.length} messages</div>
+    ${thread.map(messageToHtml).join('\n    ')}
+  </section>`;
+  }).join('\n');
+
+  const html = `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${escapeHtml(title)}</title>
+  <style>${HTML_STYLES}</style>
+</head>
+<body>
+<main>${sections}
+  <div class="meta">Exported from Xeno AI on ${escapeHtml(formatTime(Date.now()))}</div>
+</main>
+</body>
+</html>`;
+
+  return { blob: new Blob([html], { type: 'text/html' }), filename: `${baseFilename(sessions)}.html` };
+};
+
+export const exportSessions = (sessions: ChatSession[], format: ExportFormat): ExportFile => {
+  switch (format) {
+    case 'json': return exportToJson(sessions);
+    case 'markdown': return exportToMarkdown(sessions);
+    case 'html': return exportToHtml(sessions);
+  }
+};
+
+// --- Import ---
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const ROLES = Object.values(MessageRole) as string[];
+const TYPES = Object.values(MessageType) as string[];
+const KINDS: AttachmentKind[] = ['image', 'pdf', 'text', 'audio'];
+
+// A data URL with a well-formed MIME type, e.g. "data:image/png;base64,", starting with `mimePrefix`
+const isDataUrl = (value: unknown, mimePrefix = ''): value is string =>
+  typeof value === 'string' && /^data:[\w.+-]+\/[\w.+-]+(;[\w.+-]+(=[\w.+-]+)?)*,/.test(value) &&
+  value.startsWith(`data:${mimePrefix}`);
+
+// Images and audio must carry their own kind of data; other files may be any type
+const MIME_PREFIXES: Partial<Record<AttachmentKind, string>> = { image: 'image/', audio: 'audio/' };
+
+const parseAttachment = (raw: unknown, where: string): Attachment => {
+  if (!isObject(raw)) throw new Error(`${where} is not an object`);
+  if (typeof raw.id !== 'string' || !raw.id) throw new Error(`${where} has no id`);
+  if (!KINDS.includes(raw.kind)) throw new Error(`${where} has an unknown kind "${raw.kind}"`);
+  if (!isDataUrl(raw.dataUrl, MIME_PREFIXES[raw.kind as AttachmentKind])) {
+    throw new Error(`${where} has invalid data`);
+  }
+  return {
+    id: raw.id,
+    kind: raw.kind,
+    name: typeof raw.name === 'string' && raw.name ? raw.name : raw.kind,
+    mimeType: typeof raw.mimeType === 'string' && raw.mimeType ? raw.mimeType : dataUrlMimeType(raw.dataUrl),
+    size: typeof raw.size === 'number' ? raw.size : 0,
+    dataUrl: raw.dataUrl,
+  };
+};
+
+// Optional fields are copied only when well formed; anything else in the file is left out
+const PROVIDER_IDS: ProviderId[] = ['gemini', 'openai', 'mock'];
+const ERROR_KINDS: ProviderErrorKind[] = ['auth', 'quota', 'safety', 'network', 'timeout', 'server', 'unknown'];
+const DOCUMENT_STATUSES: DocumentStatus[] = ['indexing', 'ready', 'error'];
+// Calls that were waiting or running when exported never finished
+const FINISHED_TOOL_STATUSES: ToolCallStatus[] = ['done', 'error', 'denied'];
+
+const str = (value: unknown): string | undefined => typeof value === 'string' ? value : undefined;
+const num = (value: unknown): number | undefined => typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+const oneOf = <T extends string>(values: T[], value: unknown): T | undefined =>
+  values.includes(value as T) ? value as T : undefined;
+
+// Drops the fields left undefined, so they don't show up as keys in storage
+const compact = <T extends object>(value: T): T =>
+  Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as T;
+
+const parseList = <T>(raw: unknown, parse: (item: unknown) => T | undefined): T[] | undefined =>
+  Array.isArray(raw) ? raw.map(parse).filter((item): item is T => item !== undefined) : undefined;
+
+const parseRoute = (raw: unknown): RouteDecision | undefined => {
+  if (!isObject(raw) || !oneOf(ROUTES, raw.route) || !oneOf(['model', 'keywords', 'user'], raw.source)) return undefined;
+  return compact({ route: raw.route, source: raw.source, imagePrompt: str(raw.imagePrompt) });
+};
+
+const parseImageEdit = (raw: unknown): ImageEditSpec | undefined => {
+  if (!isObject(raw) || str(raw.prompt) === undefined || num(raw.count) === undefined) return undefined;
+  return compact({
+    prompt: raw.prompt,
+    count: raw.count,
+    sourceAttachmentId: str(raw.sourceAttachmentId),
+    mask: isDataUrl(raw.mask, 'image/') ? raw.mask : undefined,
+  });
+};
+
+const parseImageOptions = (raw: unknown): ImageGenerationOptions | undefined => {
+  if (!isObject(raw)) return undefined;
+  const aspectRatio = oneOf(ASPECT_RATIOS, raw.aspectRatio);
+  const format = oneOf(IMAGE_FORMATS, raw.format);
+  if (!aspectRatio || !format || num(raw.count) === undefined || str(raw.style) === undefined) return undefined;
+  return compact({ aspectRatio, format, count: raw.count, style: raw.style, negativePrompt: str(raw.negativePrompt) });
+};
+
+const parseToolCall = (raw: unknown): ToolCall | undefined => {
+  if (!isObject(raw) || !str(raw.id) || !str(raw.name) || !isObject(raw.args)) return undefined;
+  return compact({
+    id: raw.id,
+    name: raw.name,
+    args: raw.args,
+    status: oneOf(FINISHED_TOOL_STATUSES, raw.status) || 'denied',
+    result: raw.result,
+    error: str(raw.error),
+  });
+};
+
+const parseCitation = (raw: unknown): Citation | undefined => {
+  if (!isObject(raw) || num(raw.marker) === undefined || str(raw.text) === undefined) return undefined;
+  if (!str(raw.chunkId) || !str(raw.documentId) || str(raw.documentName) === undefined) return undefined;
+  return compact({
+    marker: raw.marker,
+    chunkId: raw.chunkId,
+    documentId: raw.documentId,
+    documentName: raw.documentName,
+    page: num(raw.page),
+    text: raw.text,
+  });
+};
+
+const parseMessageError = (raw: unknown): MessageError | undefined => {
+  if (!isObject(raw) || !oneOf(ERROR_KINDS, raw.kind) || str(raw.message) === undefined) return undefined;
+  return compact({ kind: raw.kind, message: raw.message, detail: str(raw.detail) });
+};
+
+const parseTranslation = (raw: unknown): MessageTranslation | undefined =>
+  isObject(raw) && str(raw.language) && str(raw.text) !== undefined ? { language: raw.language, text: raw.text } : undefined;
+
+const parseMessage = (raw: unknown, where: string): ChatMessage => {
+  if (!isObject(raw)) throw new Error(`${where} is not an object`);
+  if (typeof raw.id !== 'string' || !raw.id) throw new Error(`${where} has no id`);
+  if (!ROLES.includes(raw.role)) throw new Error(`${where} has an unknown role "${raw.role}"`);
+  if (typeof raw.text !== 'string') throw new Error(`${where} has no text`);
+  if (typeof raw.timestamp !== 'number') throw new Error(`${where} has no timestamp`);
+  if (raw.imageUrl !== undefined && !isDataUrl(raw.imageUrl, 'image/')) {
+    throw new Error(`${where} has an invalid image`);
+  }
+  if (raw.parentId !== undefined && raw.parentId !== null && typeof raw.parentId !== 'string') {
+    throw new Error(`${where} has an invalid parent`);
+  }
+  if (raw.attachments !== undefined && !Array.isArray(raw.attachments)) {
+    throw new Error(`${where} has invalid attachments`);
+  }
+  // Never isGenerating or isPending: an imported message has no reply on the way and no outbox entry
+  return compact<ChatMessage>({
+    id: raw.id,
+    role: raw.role,
+    text: raw.text,
+    type: TYPES.includes(raw.type) ? raw.type : MessageType.TEXT,
+    timestamp: raw.timestamp,
+    parentId: raw.parentId,
+    imageUrl: raw.imageUrl,
+    attachments: raw.attachments?.map((a: unknown, i: number) => parseAttachment(a, `${where}, attachment #${i + 1}`)),
+    originalPrompt: str(raw.originalPrompt),
+    providerId: oneOf(PROVIDER_IDS, raw.providerId),
+    model: str(raw.model),
+    sourceMessageId: str(raw.sourceMessageId),
+    imageEdit: parseImageEdit(raw.imageEdit),
+    imageOptions: parseImageOptions(raw.imageOptions),
+    route: parseRoute(raw.route),
+    toolCalls: parseList(raw.toolCalls, parseToolCall),
+    citations: parseList(raw.citations, parseCitation),
+    error: parseMessageError(raw.error),
+    translation: parseTranslation(raw.translation),
+  });
+};
+
+const parseContextSummary = (raw: unknown): ContextSummary | undefined => {
+  if (!isObject(raw) || str(raw.text) === undefined || !str(raw.throughMessageId) || num(raw.updatedAt) === undefined) return undefined;
+  return { text: raw.text, throughMessageId: raw.throughMessageId, updatedAt: raw.updatedAt };
+};
+
+/**
+ * Exports carry a chat's document list but not the indexed passages, which stay in this
+ * browser's storage. Imported documents are listed as needing to be added again, like
+ * interrupted indexing (see withInterruptedIndexing), instead of as ready with nothing to find.
+ */
+const parseDocument = (raw: unknown): SessionDocument | undefined => {
+  if (!isObject(raw) || !str(raw.id) || str(raw.name) === undefined || str(raw.mimeType) === undefined) return undefined;
+  const status = oneOf(DOCUMENT_STATUSES, raw.status);
+  const embeddingProviderId = oneOf(PROVIDER_IDS, raw.embeddingProviderId);
+  if (!status || !embeddingProviderId || str(raw.embeddingModel) === undefined) return undefined;
+  return compact({
+    // A new id, so removing it can't delete the passages of the chat it was exported from
+    id: uuidv4(),
+    name: raw.name,
+    mimeType: raw.mimeType,
+    size: num(raw.size) ?? 0,
+    status: 'error',
+    error: status === 'error' && str(raw.error) ? raw.error : 'Imported without its indexed text. Remove the file and add it again.',
+    chunkCount: 0,
+    embeddingProviderId,
+    embeddingModel: raw.embeddingModel,
+    addedAt: num(raw.addedAt) ?? Date.now(),
+  });
+};
+
+const parseSession = (raw: unknown, index: number): ChatSession => {
+  const where = `Chat #${index + 1}`;
+  if (!isObject(raw)) throw new Error(`${where} is not an object`);
+  if (typeof raw.id !== 'string' || !raw.id) throw new Error(`${where} has no id`);
+  if (!Array.isArray(raw.messages)) throw new Error(`${where} has no messages`);
+  const createdAt = typeof raw.createdAt === 'number' ? raw.createdAt : Date.now();
+  const branchSelection = isObject(raw.branchSelection) &&
+    Object.values(raw.branchSelection).every(v => typeof v === 'string')
+      ? raw.branchSelection
+      : undefined;
+  return compact<ChatSession>({
+    id: raw.id,
+    title: typeof raw.title === 'string' && raw.title ? raw.title : 'Imported Chat',
+    createdAt,
+    updatedAt: typeof raw.updatedAt === 'number' ? raw.updatedAt : createdAt,
+    isPinned: raw.isPinned === true || undefined,
+    providerId: oneOf(PROVIDER_IDS, raw.providerId),
+    model: str(raw.model),
+    branchSelection,
+    personaId: str(raw.personaId),
+    contextSummary: parseContextSummary(raw.contextSummary),
+    memoryDisabled: raw.memoryDisabled === true || undefined,
+    documents: parseList(raw.documents, parseDocument),
+    messages: withParentLinks(
+      raw.messages.map((m: unknown, i: number) => parseMessage(m, `${where}, message #${i + 1}`))
+    ),
+  });
+};
+
+/**
+ * Validates an import file. Accepts the versioned export format as well as a bare array of
+ * sessions (the shape the app used to keep in localStorage). Throws with a readable message.
+ */
+export const parseImportFile = (text: string): ChatSession[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('This file is not valid JSON');
+  }
+
+  let rawSessions: unknown;
+  if (Array.isArray(data)) {
+    rawSessions = data;
+  } else if (isObject(data) && data.format === EXPORT_FORMAT) {
+    if (typeof data.version !== 'number' || data.version > EXPORT_VERSION) {
+      throw new Error(`Unsupported export version ${data.version}; please update Xeno AI`);
+    }
+    rawSessions = data.sessions;
+  } else {
+    throw new Error('This is not a Xeno AI chat export');
+  }
+
+  if (!Array.isArray(rawSessions)) throw new Error('The export contains no chats');
+  return rawSessions.map(parseSession);
+};
+
+/**
+ * Gives a session and all of its messages fresh ids (message ids are unique across sessions),
+ * rewriting parent links and branch selections to match.
+ */
+const withNewIds = (session: ChatSession): ChatSession => {
+  const idMap = new Map(session.messages.map(m => [m.id, uuidv4()]));
+  const remap = (id: string) => idMap.get(id) || id;
+  return {
+    ...session,
+    id: uuidv4(),
+    title: `${session.title} (imported)`,
+    messages: session.messages.map(m => ({
+      ...m,
+      id: remap(m.id),
+      parentId: m.parentId ? remap(m.parentId) : m.parentId,
+    })),
+    branchSelection: session.branchSelection && Object.fromEntries(
+      Object.entries(session.branchSelection).map(([parent, child]) => [remap(parent), remap(child)])
+    ),
+  };
+};
+
+/**
+ * A shared chat, to carry on as one of the reader's own: checked like an import (it comes
+ * from the server, not this app) and always under new ids, so it can't collide with the
+ * owner's chat, an earlier copy or their sync records.
+ */
+export const copySharedSession = (raw: unknown): ChatSession => {
+  const session = parseSession(raw, 0);
+  return { ...withNewIds(session), title: session.title };
+};
+
+export const mergeImportedSessions = (
+  existing: ChatSession[],
+  imported: ChatSession[],
+  mode: ImportMode
+): ImportResult => {
+  const result: ImportResult = { sessions: [], added: 0, renamed: 0, skipped: 0 };
+  const taken = new Map<string, ChatSession>(mode === 'merge' ? existing.map(s => [s.id, s]) : []);
+  const accepted: ChatSession[] = [];
+
+  imported.forEach(session => {
+    const clash = taken.get(session.id);
+    if (!clash) {
+      accepted.push(session);
+      result.added++;
+    } else if (clash.updatedAt === session.updatedAt) {
+      // Same chat at the same point in time: importing it again would only duplicate it
+      result.skipped++;
+      return;
+    } else {
+      session = withNewIds(session);
+      accepted.push(session);
+      result.renamed++;
+    }
+    taken.set(session.id, session);
+  });
+
+  result.sessions = mode === 'replace' ? accepted : [...accepted, ...existing];
+  return result;
+};
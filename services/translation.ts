@@ -0,0 +1,35 @@
+import { ChatProvider } from "../types";
+import { TRANSLATION_INSTRUCTION, EMPTY_REPLY } from "./prompts";
+
+// Translating a single message, from its action bar, with the chat's own model.
+
+const COMMON_LANGUAGES = ['English', 'Hindi', 'Spanish', 'French', 'German', 'Portuguese', 'Arabic', 'Japanese', 'Chinese (Simplified)'];
+
+// The browser's language in English, e.g. "German" for de-AT
+const browserLanguage = (): string | undefined => {
+  try {
+    return new Intl.DisplayNames(['en'], { type: 'language' }).of(navigator.language.split('-')[0]);
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Languages offered in the translate menu, the reader's own first.
+ */
+export const getTranslationLanguages = (): string[] => {
+  const own = browserLanguage();
+  return own ? [own, ...COMMON_LANGUAGES.filter(language => language !== own)] : COMMON_LANGUAGES;
+};
+
+export const translateText = async (provider: ChatProvider, model: string, text: string, language: string): Promise<string> => {
+  const translation = (await provider.sendMessage({
+    history: [],
+    message: `Translate into ${language}:\n\n${text}`,
+    model,
+    systemInstruction: TRANSLATION_INSTRUCTION,
+    temperature: 0.2,
+  })).trim();
+  if (!translation || translation === EMPTY_REPLY) throw new Error('The model returned no translation.');
+  return translation;
+};
@@ -0,0 +1,150 @@
+// Offline unit and currency conversion for the converter tool. Every unit is defined by its
+// factor to the base unit of its dimension; temperature needs offsets and is handled apart.
+
+interface UnitTable {
+  dimension: string;
+  units: Record<string, number>; // Unit -> how many base units one of it is
+}
+
+const UNIT_TABLES: UnitTable[] = [
+  {
+    dimension: 'length',
+    units: {
+      m: 1, km: 1000, cm: 0.01, mm: 0.001, um: 1e-6, nm: 1e-9,
+      in: 0.0254, ft: 0.3048, yd: 0.9144, mi: 1609.344, nmi: 1852,
+    },
+  },
+  {
+    dimension: 'mass',
+    units: { kg: 1, g: 0.001, mg: 1e-6, t: 1000, lb: 0.45359237, oz: 0.028349523125, st: 6.35029318 },
+  },
+  {
+    dimension: 'volume',
+    units: {
+      l: 1, ml: 0.001, m3: 1000, cm3: 0.001, tsp: 0.00492892, tbsp: 0.0147868, cup: 0.24,
+      floz: 0.0295735, pt: 0.473176, qt: 0.946353, gal: 3.78541,
+    },
+  },
+  {
+    dimension: 'area',
+    units: {
+      m2: 1, km2: 1e6, cm2: 1e-4, ha: 10000, acre: 4046.8564224, ft2: 0.09290304, in2: 0.00064516, mi2: 2589988.110336,
+    },
+  },
+  {
+    dimension: 'speed',
+    units: { 'm/s': 1, 'km/h': 1 / 3.6, mph: 0.44704, knot: 0.514444, 'ft/s': 0.3048 },
+  },
+  {
+    dimension: 'time',
+    units: { s: 1, ms: 0.001, min: 60, h: 3600, day: 86400, week: 604800, year: 31557600 },
+  },
+  {
+    dimension: 'data',
+    units: {
+      b: 1, kb: 1000, mb: 1e6, gb: 1e9, tb: 1e12,
+      kib: 1024, mib: 1024 ** 2, gib: 1024 ** 3, tib: 1024 ** 4, bit: 0.125,
+    },
+  },
+];
+
+// Other spellings the model or user may use
+const UNIT_ALIASES: Record<string, string> = {
+  meter: 'm', meters: 'm', metre: 'm', metres: 'm', kilometer: 'km', kilometers: 'km', centimeter: 'cm',
+  centimeters: 'cm', millimeter: 'mm', millimeters: 'mm', inch: 'in', inches: 'in', foot: 'ft', feet: 'ft',
+  yard: 'yd', yards: 'yd', mile: 'mi', miles: 'mi',
+  kilogram: 'kg', kilograms: 'kg', kgs: 'kg', gram: 'g', grams: 'g', tonne: 't', tonnes: 't', ton: 't',
+  pound: 'lb', pounds: 'lb', lbs: 'lb', ounce: 'oz', ounces: 'oz', stone: 'st',
+  liter: 'l', liters: 'l', litre: 'l', litres: 'l', milliliter: 'ml', milliliters: 'ml', gallon: 'gal',
+  gallons: 'gal', cups: 'cup', pint: 'pt', quart: 'qt', 'fl oz': 'floz',
+  'sq m': 'm2', 'sq km': 'km2', 'sq ft': 'ft2', hectare: 'ha', hectares: 'ha', acres: 'acre',
+  kmh: 'km/h', kph: 'km/h', mps: 'm/s', knots: 'knot', kt: 'knot',
+  sec: 's', second: 's', seconds: 's', minute: 'min', minutes: 'min', hr: 'h', hour: 'h', hours: 'h',
+  days: 'day', weeks: 'week', years: 'year', yr: 'year',
+  byte: 'b', bytes: 'b', bits: 'bit',
+  c: 'celsius', '°c': 'celsius', f: 'fahrenheit', '°f': 'fahrenheit', k: 'kelvin',
+};
+
+const TEMPERATURE_UNITS = ['celsius', 'fahrenheit', 'kelvin'];
+
+const toCelsius = (value: number, unit: string): number =>
+  unit === 'fahrenheit' ? (value - 32) * 5 / 9 : unit === 'kelvin' ? value - 273.15 : value;
+
+const fromCelsius = (value: number, unit: string): number =>
+  unit === 'fahrenheit' ? value * 9 / 5 + 32 : unit === 'kelvin' ? value + 273.15 : value;
+
+// Units of one US dollar. Offline snapshot, so answers are approximate.
+export const CURRENCY_RATES_DATE = '2026-10-01';
+const CURRENCY_RATES: Record<string, number> = {
+  USD: 1, EUR: 0.86, GBP: 0.75, INR: 88.5, JPY: 148, CNY: 7.12, AUD: 1.52, CAD: 1.39, CHF: 0.8,
+  SGD: 1.29, AED: 3.6725, SAR: 3.75, NPR: 141.6, BDT: 121.8, PKR: 281, LKR: 302, HKD: 7.78,
+  KRW: 1400, BRL: 5.35, MXN: 18.4, ZAR: 17.4, RUB: 82, SEK: 9.4, NOK: 9.95, NZD: 1.72,
+};
+
+const CURRENCY_ALIASES: Record<string, string> = {
+  $: 'USD', dollar: 'USD', dollars: 'USD', '€': 'EUR', euro: 'EUR', euros: 'EUR', '£': 'GBP',
+  '₹': 'INR', rupee: 'INR', rupees: 'INR', rs: 'INR', '¥': 'JPY', yen: 'JPY', yuan: 'CNY',
+};
+
+const normalizeUnit = (unit: string): string => {
+  const key = unit.trim().toLowerCase().replace(/²/g, '2').replace(/³/g, '3');
+  return UNIT_ALIASES[key] || key;
+};
+
+const normalizeCurrency = (unit: string): string | undefined => {
+  const key = unit.trim();
+  const code = CURRENCY_ALIASES[key.toLowerCase()] || key.toUpperCase();
+  return code in CURRENCY_RATES ? code : undefined;
+};
+
+export interface Conversion {
+  value: number;
+  from: string;
+  to: string;
+  result: number;
+  dimension: string;
+  note?: string;
+}
+
+/**
+ * Converts between two units of the same dimension, or two currencies. Throws when a unit is
+ * unknown or the two don't measure the same thing.
+ */
+export const convertUnits = (value: number, from: string, to: string): Conversion => {
+  const fromCurrency = normalizeCurrency(from);
+  const toCurrency = normalizeCurrency(to);
+  if (fromCurrency && toCurrency) {
+    return {
+      value, from: fromCurrency, to: toCurrency,
+      result: value / CURRENCY_RATES[fromCurrency] * CURRENCY_RATES[toCurrency],
+      dimension: 'currency',
+      note: `Offline exchange rates from ${CURRENCY_RATES_DATE}; live rates may differ.`,
+    };
+  }
+
+  const fromUnit = normalizeUnit(from);
+  const toUnit = normalizeUnit(to);
+  if (TEMPERATURE_UNITS.includes(fromUnit) && TEMPERATURE_UNITS.includes(toUnit)) {
+    return { value, from: fromUnit, to: toUnit, result: fromCelsius(toCelsius(value, fromUnit), toUnit), dimension: 'temperature' };
+  }
+
+  const table = UNIT_TABLES.find(t => fromUnit in t.units);
+  if (!table) throw new Error(`Unknown unit "${from}"`);
+  if (!(toUnit in table.units)) {
+    const other = UNIT_TABLES.find(t => toUnit in t.units);
+    throw new Error(other
+      ? `Can't convert ${table.dimension} (${from}) to ${other.dimension} (${to})`
+      : `Unknown unit "${to}"`);
+  }
+  return {
+    value, from: fromUnit, to: toUnit,
+    result: value * table.units[fromUnit] / table.units[toUnit],
+    dimension: table.dimension,
+  };
+};
+
+export const SUPPORTED_UNITS = [
+  ...UNIT_TABLES.map(t => `${t.dimension}: ${Object.keys(t.units).join(', ')}`),
+  `temperature: ${TEMPERATURE_UNITS.join(', ')}`,
+  `currency: ${Object.keys(CURRENCY_RATES).join(', ')}`,
+].join('; ');
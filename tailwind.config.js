@@ -0,0 +1,36 @@
+/** @type {import('tailwindcss').Config} */
+export default {
+  content: [
+    './index.html',
+    './index.tsx',
+    './App.tsx',
+    './components/**/*.tsx',
+    './services/**/*.ts',
+  ],
+  theme: {
+    extend: {
+      fontFamily: {
+        sans: ['Inter', 'sans-serif'],
+        poppins: ['Poppins', 'sans-serif'],
+      },
+      colors: {
+        xeno: {
+          dark: '#0D0221',
+          purple: '#3B0A94',
+          blue: '#4316A1',
+          neon: '#00E0FF',
+        }
+      },
+      animation: {
+        'pulse-glow': 'pulse-glow 2s cubic-bezier(0.4, 0, 0.6, 1) infinite',
+      },
+      keyframes: {
+        'pulse-glow': {
+          '0%, 100%': { opacity: 1, boxShadow: '0 0 10px #00E0FF' },
+          '50%': { opacity: .8, boxShadow: '0 0 20px #00E0FF' },
+        }
+      }
+    },
+  },
+  plugins: [],
+};
@@ -12,11 +12,29 @@ export interface ChatMessage {
   id: string;
   role: MessageRole;
   text: string;
-  imageUrl?: string; // For user uploads or generated images
+  imageUrl?: string; // Generated images (and single uploads saved before attachments existed)
+  attachments?: Attachment[]; // Files the user attached to this message
   type: MessageType;
   timestamp: number;
   isGenerating?: boolean; // Loading state for this specific message
   originalPrompt?: string; // Saved prompt for regeneration
+  providerId?: ProviderId; // Provider and model that produced a model reply
+  model?: string;
+  parentId?: string | null; // Message this one follows; siblings are alternative versions
+  sourceMessageId?: string; // For image edits and their results: the message holding the source image
+  imageEdit?: ImageEditSpec; // On a user message asking to edit an image or make variations of it
+  imageOptions?: ImageGenerationOptions; // On an image request and its reply: the settings used, so it can be reproduced
+  route?: RouteDecision; // On a user message: how it was handled (chat, image or edit) and who decided
+  toolCalls?: ToolCall[]; // On a model reply: the tools it used, in order
+  citations?: Citation[]; // On a model reply: the document passages its [n] markers refer to
+  error?: MessageError; // On a model reply that failed; such replies are never sent back to the model
+  isPending?: boolean; // On a user message written offline: waiting in the outbox to be sent
+  translation?: MessageTranslation; // Shown under the text when the user asked for one
+}
+
+export interface MessageTranslation {
+  language: string; // English name, e.g. "Spanish"
+  text: string;
 }
 
 export interface ChatSession {
@@ -26,9 +44,330 @@ export interface ChatSession {
   createdAt: number;
   updatedAt: number;
   isPinned?: boolean;
+  providerId?: ProviderId; // Defaults to Gemini for sessions created before providers existed
+  model?: string;
+  branchSelection?: Record<string, string>; // Parent message id -> child shown in the conversation
+  personaId?: string; // Defaults to the built-in Xeno persona
+  contextSummary?: ContextSummary; // Rolling summary of the turns that no longer fit the context budget
+  memoryDisabled?: boolean; // Long-term memories are neither used nor learned in this chat
+  documents?: SessionDocument[]; // Files indexed for question answering; their chunks are stored apart
+}
+
+export interface ContextSummary {
+  text: string;
+  throughMessageId: string; // Last message the summary covers; only valid on threads containing it
+  updatedAt: number;
 }
 
 export interface GenerateResponse {
   text: string;
   imageUrl?: string;
-}
\ No newline at end of file
+}
+
+// --- Attachments ---
+
+export type AttachmentKind = 'image' | 'pdf' | 'text' | 'audio';
+
+export interface Attachment {
+  id: string;
+  kind: AttachmentKind;
+  name: string;
+  mimeType: string;
+  size: number; // Bytes
+  dataUrl: string; // base64 data URI
+}
+
+// --- Image editing ---
+
+export interface ImageEditSpec {
+  prompt: string; // Instructions for the model; empty asks for variations (or a plain repaint of the mask)
+  sourceAttachmentId?: string; // Image of the source message to edit; the first one when unset
+  mask?: string; // PNG data URI the size of the source; painted pixels mark the region to repaint
+  count: number; // Number of results
+}
+
+// --- Image generation ---
+
+export type AspectRatio = '1:1' | '3:4' | '4:3' | '9:16' | '16:9';
+export type ImageFormat = 'jpeg' | 'png';
+
+export interface ImageGenerationOptions {
+  aspectRatio: AspectRatio;
+  count: number; // Number of images
+  format: ImageFormat;
+  style: string; // Id of a STYLE_PRESETS entry; 'none' leaves the prompt as typed
+  negativePrompt?: string; // Things to keep out of the image
+}
+
+// --- Personas ---
+
+export interface Persona {
+  id: string;
+  name: string;
+  avatar: string; // Emoji shown next to replies
+  systemPrompt: string;
+  language: string; // Code of a PERSONA_LANGUAGES entry
+  temperature: number;
+  // Model new chats with this persona start on; the chat's model picker still applies
+  providerId?: ProviderId;
+  model?: string;
+  builtIn?: boolean; // Shipped with the app: read-only and can't be deleted
+}
+
+// --- Memory ---
+
+export interface Memory {
+  id: string;
+  text: string; // One durable fact about the user, e.g. "Prefers replies in Hinglish"
+  createdAt: number;
+  updatedAt: number;
+  sourceSessionId?: string; // Chat it was learned in; unset when the user added it
+}
+
+// --- Documents ---
+
+export type DocumentStatus = 'indexing' | 'ready' | 'error';
+
+export interface SessionDocument {
+  id: string;
+  name: string;
+  mimeType: string;
+  size: number; // Bytes
+  status: DocumentStatus;
+  error?: string;
+  chunkCount: number;
+  // Queries must be embedded with the same model as the chunks
+  embeddingProviderId: ProviderId;
+  embeddingModel: string;
+  addedAt: number;
+}
+
+export interface DocumentChunk {
+  id: string;
+  documentId: string;
+  sessionId: string;
+  index: number; // Position within the document
+  page?: number; // 1-based, for PDFs
+  text: string;
+  embedding: number[];
+}
+
+export interface Citation {
+  marker: number; // The n in [n]
+  chunkId: string;
+  documentId: string;
+  documentName: string;
+  page?: number;
+  text: string; // The passage as it was given to the model
+}
+
+export type EmbeddingPurpose = 'document' | 'query';
+
+export interface EmbeddingRequest {
+  texts: string[];
+  model: string;
+  purpose: EmbeddingPurpose; // Some models embed stored passages and search queries differently
+}
+
+// --- Tools ---
+
+export interface ToolDefinition<Args = Record<string, unknown>, Result = unknown> {
+  name: string; // Function name the model calls
+  label: string; // Shown on the tool step
+  description: string; // Tells the model when to use it
+  parameters: Record<string, unknown>; // JSON schema of Args
+  sideEffects?: boolean; // Changes something outside the chat; runs only after the user approves
+  run: (args: Args) => Promise<Result>;
+}
+
+export interface ToolCallRequest {
+  id: string;
+  name: string;
+  args: Record<string, unknown>;
+}
+
+export interface ToolOutcome {
+  result?: unknown; // JSON-serializable
+  error?: string;
+}
+
+// 'pending' waits for the user's approval; 'denied' was refused or stopped before it ran
+export type ToolCallStatus = 'pending' | 'running' | 'done' | 'error' | 'denied';
+
+export interface ToolCall extends ToolCallRequest, ToolOutcome {
+  status: ToolCallStatus;
+}
+
+// --- Intent routing ---
+
+export type MessageRoute = 'chat' | 'image' | 'edit';
+
+export interface RouteDecision {
+  route: MessageRoute;
+  imagePrompt?: string; // For image and edit routes: the description without the request phrasing
+  source: 'model' | 'keywords' | 'user'; // The classifier, its offline fallback, or a manual choice
+}
+
+export interface IntentRequest {
+  message: string;
+  hasImage: boolean; // An image is attached to the message
+  hasRecentImage: boolean; // One of the last few messages in the conversation holds an image
+  signal?: AbortSignal;
+}
+
+// --- Model providers ---
+
+export type ProviderId = 'gemini' | 'openai' | 'mock';
+
+// Why a provider call failed; decides whether it is retried and what the user is told
+export type ProviderErrorKind = 'auth' | 'quota' | 'safety' | 'network' | 'timeout' | 'server' | 'unknown';
+
+export interface MessageError {
+  kind: ProviderErrorKind;
+  message: string; // Shown to the user
+  detail?: string; // What the provider said, for the tooltip
+}
+
+export interface ChatRequest {
+  history: ChatMessage[];
+  message: string;
+  attachments?: Attachment[]; // Files attached to the new message
+  model: string;
+  systemInstruction?: string; // The chat's persona; providers fall back to the default Xeno prompt
+  temperature?: number;
+  signal?: AbortSignal;
+  // Functions the model may call while answering; providers without tool support ignore them
+  tools?: ToolDefinition<any>[];
+  runTool?: (call: ToolCallRequest) => Promise<ToolOutcome>;
+  context?: string; // Retrieved document passages, sent just before the new message
+}
+
+export interface ChatProvider {
+  id: ProviderId;
+  label: string;
+  chatModels: string[];
+  // Both throw a ProviderError (services/errors.ts) when no reply can be had
+  sendMessage: (request: ChatRequest) => Promise<string>;
+  // Calls onChunk with the accumulated text; aborting request.signal keeps the partial text
+  streamMessage: (request: ChatRequest, onChunk: (textSoFar: string) => void) => Promise<string>;
+  // Routes a message with a cheap structured-output call; null when the answer was unusable
+  classifyIntent?: (request: IntentRequest) => Promise<RouteDecision | null>;
+  worksOffline?: boolean; // Answers without a network connection, so its messages skip the outbox
+}
+
+export interface OutboxEntry {
+  sessionId: string;
+  messageId: string;
+  queuedAt: number;
+}
+
+export interface ImageGenerationRequest {
+  prompt: string; // As typed; providers apply the style and negative prompt
+  model: string;
+  options: ImageGenerationOptions;
+}
+
+export interface ImageEditRequest {
+  image: string; // data URI of the source image
+  prompt: string; // Edit instructions; empty without a mask asks for variations
+  mask?: string; // Same format as ImageEditSpec.mask
+  count: number;
+  model: string;
+}
+
+export interface ImageProvider {
+  id: ProviderId;
+  label: string;
+  imageModels: string[];
+  editModels: string[];
+  // Resolves with the data URIs of the generated images (empty when the model returned nothing)
+  generateImage: (request: ImageGenerationRequest) => Promise<string[]>;
+  // Resolves with the data URIs of the edited images (possibly fewer than requested)
+  editImage: (request: ImageEditRequest) => Promise<string[]>;
+}
+
+export interface EmbeddingProvider {
+  id: ProviderId;
+  label: string;
+  embeddingModels: string[];
+  // One vector per text, in order
+  embed: (request: EmbeddingRequest) => Promise<number[][]>;
+}
+
+// --- Authentication ---
+
+export interface UserProfile {
+  id: string;
+  email: string;
+  name: string;
+  picture?: string;
+}
+
+export interface AuthTokens {
+  accessToken: string;
+  refreshToken?: string;
+  idToken?: string;
+  expiresAt: number; // Epoch ms
+}
+
+export interface AuthSession {
+  method: 'password' | 'oidc';
+  tokens: AuthTokens;
+  user: UserProfile;
+}
+
+// --- Sync ---
+
+export type SyncState = 'off' | 'syncing' | 'synced' | 'offline' | 'error';
+
+export interface SyncStatus {
+  state: SyncState;
+  lastSyncedAt?: number; // Epoch ms of the last sync that completed
+  error?: string;
+}
+
+// A session or message as stored by the sync server; `data` is absent on tombstones
+export interface SyncChange<T> {
+  id: string;
+  sessionId?: string; // On messages
+  updatedAt: number; // When the device that made the change made it
+  deleted?: boolean;
+  data?: T;
+}
+
+// --- Sharing ---
+
+// A published, read-only snapshot of a chat
+export interface SharedChat {
+  id: string;
+  title: string;
+  createdAt: number;
+  session: ChatSession; // The conversation as shown when it was shared: one branch, hidden parts removed
+}
+
+// One of the signed-in user's published chats, as listed for revoking
+export interface ShareLink {
+  id: string;
+  sessionId: string; // Chat it was published from
+  title: string;
+  createdAt: number;
+  messageCount: number;
+}
+
+// --- Feedback ---
+
+export type FeedbackRating = 'up' | 'down';
+
+// A rating of a model reply, kept so reply quality can be evaluated over time
+export interface MessageFeedback {
+  messageId: string;
+  sessionId: string;
+  rating: FeedbackRating;
+  comment?: string;
+  providerId?: ProviderId; // Provider and model that wrote the reply
+  model?: string;
+  prompt: string; // The user message it answered
+  response: string; // The reply as rated
+  createdAt: number;
+  updatedAt: number;
+}
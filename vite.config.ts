@@ -1,18 +1,76 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { readFileSync } from 'fs';
+import { createHash } from 'crypto';
+import { defineConfig, loadEnv, Plugin, Rollup } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// Files in public/ are copied as-is, so they aren't part of the bundle the plugin sees
+const PUBLIC_URLS = ['/', '/manifest.webmanifest', '/icon-192.png', '/icon-512.png', '/icon-maskable-512.png'];
+
+/**
+ * Chunks only loaded to draw Mermaid diagrams: everything the app's entry can't reach
+ * without going through Mermaid.
+ */
+const mermaidOnlyChunks = (bundle: Rollup.OutputBundle): Set<string> => {
+  const chunks = new Map(
+    Object.values(bundle).filter((file): file is Rollup.OutputChunk => file.type === 'chunk').map(chunk => [chunk.fileName, chunk])
+  );
+  const reached = new Set<string>();
+  const queue = Array.from(chunks.values()).filter(chunk => chunk.isEntry).map(chunk => chunk.fileName);
+  while (queue.length > 0) {
+    const chunk = chunks.get(queue.pop()!);
+    if (!chunk || reached.has(chunk.fileName) || chunk.moduleIds.some(id => id.includes('/node_modules/mermaid/'))) continue;
+    reached.add(chunk.fileName);
+    queue.push(...chunk.imports, ...chunk.dynamicImports);
+  }
+  return new Set(Array.from(chunks.keys()).filter(fileName => !reached.has(fileName)));
+};
+
+/**
+ * Emits sw.js with every bundled file listed for precaching, so the whole app opens offline.
+ */
+const serviceWorker = (): Plugin => ({
+  name: 'xeno-service-worker',
+  apply: 'build',
+  generateBundle(_, bundle) {
+    // Every browser with service workers reads woff2, so the woff fallbacks aren't precached.
+    // Mermaid is several MB; it is cached the first time a diagram is drawn instead.
+    const mermaidChunks = mermaidOnlyChunks(bundle);
+    const files = Object.keys(bundle).filter(fileName => !fileName.endsWith('.woff') && !mermaidChunks.has(fileName));
+    const urls = [...PUBLIC_URLS, ...files.map(fileName => `/${fileName}`)];
+    const version = createHash('sha256').update(urls.join('\n')).digest('hex').slice(0, 12);
+    const source = readFileSync(path.resolve(__dirname, 'service-worker.js'), 'utf8')
+      .replace('self.__PRECACHE_URLS__', JSON.stringify(urls))
+      .replace('self.__CACHE_VERSION__', JSON.stringify(version));
+    this.emitFile({ type: 'asset', fileName: 'sw.js', source });
+  },
+});
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // Model calls go to the API server (npm run proxy), which keeps the keys out of the bundle
+    const apiProxy = { '/api': `http://localhost:${env.PROXY_PORT || 8787}` };
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy: apiProxy,
+      },
+      preview: {
+        proxy: apiProxy,
       },
-      plugins: [react()],
+      plugins: [react(), serviceWorker()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.API_BASE_URL': JSON.stringify(env.API_BASE_URL),
+        'process.env.OPENAI_MODELS': JSON.stringify(env.OPENAI_MODELS),
+        'process.env.OPENAI_IMAGE_MODELS': JSON.stringify(env.OPENAI_IMAGE_MODELS),
+        'process.env.OPENAI_EDIT_MODELS': JSON.stringify(env.OPENAI_EDIT_MODELS),
+        'process.env.OPENAI_ROUTER_MODEL': JSON.stringify(env.OPENAI_ROUTER_MODEL),
+        'process.env.OPENAI_EMBEDDING_MODELS': JSON.stringify(env.OPENAI_EMBEDDING_MODELS),
+        'process.env.AUTH_BASE_URL': JSON.stringify(env.AUTH_BASE_URL),
+        'process.env.OIDC_ISSUER': JSON.stringify(env.OIDC_ISSUER),
+        'process.env.OIDC_CLIENT_ID': JSON.stringify(env.OIDC_CLIENT_ID),
+        'process.env.OIDC_SCOPE': JSON.stringify(env.OIDC_SCOPE)
       },
       resolve: {
         alias: {